@@ -0,0 +1,75 @@
+import * as CANNON from 'cannon-es'
+import * as THREE from 'three'
+import { StackingSimulation, ACTIVE_TIERS } from '../src/systems/StackingSimulation'
+import { DAI_SURFACE_Y } from '../src/scenes/game/trajectory'
+import { MOCHI_CONFIGS, type MochiObject, type BuiltinMochiType } from '../src/objects'
+import { isPhysicsQuality, DEFAULT_PHYSICS_QUALITY } from '../src/types/quality'
+
+/**
+ * 塔の段数ごとの物理ステップ時間を計測する
+ * エンドレスモードと同じく1段ずつ積み、落ち着かせてから次を載せる
+ * 使い方: bun scripts/benchmark-physics.ts [品質: low|medium|high] [最大段数]
+ * - baseline: 総当たりブロードフェーズ・スリープなし・固定なし（旧構成）
+ * - optimized: SAPブロードフェーズ・スリープ・下段の固定
+ */
+const qualityArg = process.argv[2]
+const physicsQuality = isPhysicsQuality(qualityArg) ? qualityArg : DEFAULT_PHYSICS_QUALITY
+const maxSize = Number(process.argv[3] ?? 200)
+
+const CHECKPOINTS = [10, 25, 50, 100, 200, 400].filter((size) => size <= maxSize)
+const SETTLE_STEPS = 30
+const MEASURE_STEPS = 60
+
+type Variant = 'baseline' | 'optimized'
+
+/**
+ * 塔を1段ずつ積みながら、チェックポイントごとの平均ステップ時間を返す
+ */
+const measure = (variant: Variant): Map<number, number> => {
+  const sim = new StackingSimulation({ seed: 1, physicsQuality })
+  if (variant === 'baseline') {
+    sim.physics.world.broadphase = new CANNON.NaiveBroadphase()
+    sim.physics.world.allowSleep = false
+  }
+
+  const results = new Map<number, number>()
+  let top: MochiObject | null = null
+
+  for (let size = 1; size <= maxSize; size++) {
+    // base/topを交互に、最上段の真上に置く
+    const type: BuiltinMochiType = size % 2 === 1 ? 'base' : 'top'
+    const { height } = MOCHI_CONFIGS[type]
+    const y = (top?.topY ?? DAI_SURFACE_Y) + height / 2 + 0.02
+    top = sim.mochiManager.createMochi(type, new THREE.Vector3(0, y, 0))
+    top.setState('stacked')
+
+    for (let i = 0; i < SETTLE_STEPS; i++) {
+      sim.stepOnce()
+    }
+    if (variant === 'optimized') {
+      sim.mochiManager.freezeSettledTiers(ACTIVE_TIERS)
+    }
+
+    if (CHECKPOINTS.includes(size)) {
+      const startedAt = performance.now()
+      for (let i = 0; i < MEASURE_STEPS; i++) {
+        sim.stepOnce()
+      }
+      results.set(size, (performance.now() - startedAt) / MEASURE_STEPS)
+    }
+  }
+
+  sim.dispose()
+  return results
+}
+
+const baseline = measure('baseline')
+const optimized = measure('optimized')
+
+console.log(`Physics quality: ${physicsQuality}`)
+console.log('tower   baseline(ms/step)   optimized(ms/step)')
+for (const size of CHECKPOINTS) {
+  console.log(
+    `${String(size).padStart(5)}   ${baseline.get(size)!.toFixed(2).padStart(17)}   ${optimized.get(size)!.toFixed(2).padStart(18)}`
+  )
+}
@@ -0,0 +1,53 @@
+import { StackingSimulation } from '../src/systems/StackingSimulation'
+import { SeededRandom } from '../src/systems/SeededRandom'
+import {
+  type LaunchParameters,
+  createDefaultLaunchParameters,
+  gaugeToAngleH,
+  gaugeToAngleV
+} from '../src/types/launch'
+
+/**
+ * ヘッドレスで通常モードを大量に回し、スコア分布を出力する
+ * 使い方: bun scripts/simulate-shots.ts [プレイ数] [開始シード]
+ */
+const runs = Number(process.argv[2] ?? 100)
+const startSeed = Number(process.argv[3] ?? 1)
+
+// ゲージの止め方をばらつかせる（中央付近を狙うプレイヤーを想定）
+const createShot = (random: SeededRandom): LaunchParameters => ({
+  ...createDefaultLaunchParameters(),
+  angleH: gaugeToAngleH(50 + random.spread(20)),
+  angleV: gaugeToAngleV(50 + random.spread(30)),
+  power: 50 + random.spread(30)
+})
+
+const scores: number[] = []
+const startedAt = performance.now()
+
+for (let i = 0; i < runs; i++) {
+  const seed = startSeed + i
+  const random = new SeededRandom(seed)
+  const sim = new StackingSimulation({ seed })
+
+  const result = sim.playNormal([createShot(random), createShot(random), createShot(random)])
+  scores.push(result.total)
+  sim.dispose()
+}
+
+const elapsedMs = performance.now() - startedAt
+const mean = scores.reduce((sum, s) => sum + s, 0) / Math.max(1, scores.length)
+
+// 10点刻みのヒストグラム
+const histogram = new Map<number, number>()
+for (const score of scores) {
+  const bucket = Math.min(90, Math.floor(score / 10) * 10)
+  histogram.set(bucket, (histogram.get(bucket) ?? 0) + 1)
+}
+
+console.log(`Simulated ${runs} games (seed ${startSeed}-${startSeed + runs - 1}) in ${(elapsedMs / 1000).toFixed(1)}s`)
+console.log(`Mean score: ${mean.toFixed(1)}  Max: ${Math.max(...scores)}  Min: ${Math.min(...scores)}`)
+for (let bucket = 0; bucket <= 90; bucket += 10) {
+  const count = histogram.get(bucket) ?? 0
+  console.log(`${String(bucket).padStart(3)}-: ${'#'.repeat(Math.round((count / runs) * 50))} ${count}`)
+}
@@ -0,0 +1,44 @@
+import * as THREE from 'three'
+import { measureTrajectoryParity } from '../src/scenes/game/trajectory-parity'
+import { getLauncherPosition, gaugeToSpin } from '../src/types/launch'
+
+/**
+ * 予測線とcannon-esの飛び方のずれを点ごとに表示する
+ * 使い方: bun scripts/trajectory-parity.ts [点の数]
+ */
+const numPoints = Number(process.argv[2] ?? 60)
+
+const SHOTS = [
+  { label: 'straight', angleH: 0, angleV: 45, power: 50, launchPosition: getLauncherPosition(0) },
+  { label: 'lob', angleH: 0, angleV: 70, power: 90, launchPosition: getLauncherPosition(0) },
+  { label: 'rail', angleH: 10, angleV: 40, power: 70, launchPosition: getLauncherPosition(30) },
+  {
+    label: 'wind',
+    angleH: -5,
+    angleV: 50,
+    power: 60,
+    launchPosition: getLauncherPosition(0),
+    wind: { x: 1.5, z: -0.5 }
+  },
+  {
+    label: 'spin',
+    angleH: 0,
+    angleV: 45,
+    power: 60,
+    launchPosition: getLauncherPosition(0),
+    ...gaugeToSpin(100)
+  }
+]
+
+const format = (v: THREE.Vector3): string =>
+  `(${v.x.toFixed(3)}, ${v.y.toFixed(3)}, ${v.z.toFixed(3)})`
+
+for (const { label, ...params } of SHOTS) {
+  const report = measureTrajectoryParity(params, numPoints)
+  console.log(`${label}: max divergence ${report.maxDivergence.toExponential(2)}`)
+  for (const sample of report.samples) {
+    console.log(
+      `  ${String(sample.index).padStart(3)}  predicted ${format(sample.predicted)}  cannon ${format(sample.simulated)}  ${sample.divergence.toExponential(2)}`
+    )
+  }
+}
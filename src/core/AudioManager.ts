@@ -1,7 +1,11 @@
+import type { Impact } from '../types/impact'
+import { ImpactAudio } from './ImpactAudio'
+
 export class AudioManager {
   private audioContext: AudioContext | null = null
   private masterGain: GainNode | null = null
   private sfxGain: GainNode | null = null
+  private impactAudio: ImpactAudio | null = null
 
   public masterVolume = 0.7
 
@@ -26,6 +30,8 @@ export class AudioManager {
       this.sfxGain = this.audioContext.createGain()
       this.sfxGain.connect(this.masterGain)
       this.sfxGain.gain.value = 1.0
+
+      this.impactAudio = new ImpactAudio(this.audioContext, this.sfxGain)
     } catch {
       console.warn('Web Audio API not supported')
     }
@@ -111,6 +117,33 @@ export class AudioManager {
     this.playTone(200, 0.3, 'sawtooth', 0.3, 100)
   }
 
+  /** 餅がくっついた（むにっ） */
+  playStick() {
+    this.playTone(180, 0.12, 'sine', 0.3, 320)
+  }
+
+  /** くっついていた餅が離れた（ぺりっ） */
+  playUnstick() {
+    this.playTone(420, 0.1, 'triangle', 0.25, 160)
+  }
+
+  /** 餅にひびが入った（ぴしっ） */
+  playCrack() {
+    this.playTone(1400, 0.08, 'square', 0.2, 600)
+  }
+
+  /** ひびの入った餅が割れた（ばりっ） */
+  playShatter() {
+    this.playTone(900, 0.12, 'sawtooth', 0.3, 200)
+    setTimeout(() => this.playTone(500, 0.15, 'square', 0.2, 120), 40)
+  }
+
+  /** 物理の衝突音（材質・質量・衝突速度から合成） */
+  playImpact(impact: Impact) {
+    if (!this.shouldPlayAudio()) return
+    this.impactAudio?.play(impact)
+  }
+
   playClick() {
     this.playTone(800, 0.05, 'square', 0.2)
   }
@@ -1,6 +1,7 @@
 import * as THREE from 'three'
 import type { PostProcessManager } from '../postprocess/PostProcessManager'
 import type { CameraController } from './CameraController'
+import type { SlowMotionMoment } from '../systems/SlowMotionDirector'
 
 /**
  * カメラエフェクトの種類
@@ -34,6 +35,19 @@ const EFFECT_THRESHOLDS = {
   minDistance: 3 // 最小移動距離
 } as const
 
+/**
+ * スローモーションの場面ごとの演出
+ * （zoomPunchは画角をこの分だけ狭める。durationは実時間の秒）
+ */
+const SLOW_MOTION_CUES: Record<
+  SlowMotionMoment,
+  { zoom: number; duration: number; zoomLines: number; motionBlur: number; shake: number }
+> = {
+  edgeLanding: { zoom: 6, duration: 0.9, zoomLines: 0.5, motionBlur: 0, shake: 0 },
+  teetering: { zoom: 4, duration: 1.4, zoomLines: 0, motionBlur: 0.25, shake: 0 },
+  collapse: { zoom: 8, duration: 1.4, zoomLines: 0.6, motionBlur: 0.5, shake: 0.15 }
+}
+
 /**
  * カメラエフェクト管理クラス
  * - PostProcessManagerと連携
@@ -139,6 +153,24 @@ export class CameraEffectsManager {
     }
   }
 
+  /**
+   * スローモーション開始時のエフェクト（寄り＋場面に合わせた集中線・ブラー・振動）
+   */
+  triggerSlowMotionEffect(moment: SlowMotionMoment): void {
+    const cue = SLOW_MOTION_CUES[moment]
+    const fov = this.cameraController.getCamera().fov
+    this.cameraController.zoomPunch(fov - cue.zoom, cue.duration)
+    if (cue.zoomLines > 0) {
+      this.triggerZoomLines(cue.zoomLines, cue.duration)
+    }
+    if (cue.motionBlur > 0) {
+      this.triggerMotionBlur(cue.motionBlur, cue.duration)
+    }
+    if (cue.shake > 0) {
+      this.cameraController.shake(cue.shake, cue.duration * 0.5, true)
+    }
+  }
+
   /**
    * 結果発表時のズームエフェクト
    */
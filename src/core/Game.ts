@@ -4,6 +4,7 @@ import { AudioManager } from './AudioManager'
 import { LayoutManager } from './layout'
 import { CameraController } from './CameraController'
 import { CameraEffectsManager } from './CameraEffectsManager'
+import { GamepadInput } from './GamepadInput'
 import { PostProcessManager } from '../postprocess'
 import { IntroScene } from '../scenes/IntroScene'
 import { GameScene } from '../scenes/GameScene'
@@ -16,6 +17,7 @@ export class Game {
   public audioManager: AudioManager
   public layoutManager: LayoutManager
   public cameraController: CameraController
+  public gamepad: GamepadInput
   public cameraEffects: CameraEffectsManager | null = null
   public postProcessManager: PostProcessManager | null = null
   public clock: THREE.Clock
@@ -30,6 +32,7 @@ export class Game {
     this.audioManager = new AudioManager()
     this.layoutManager = new LayoutManager(this.camera)
     this.cameraController = new CameraController(this.camera)
+    this.gamepad = new GamepadInput()
     this.clock = new THREE.Clock()
   }
 
@@ -116,6 +119,9 @@ export class Game {
     // Update camera controller
     this.cameraController.update(delta)
 
+    // ゲームパッドはイベントがないので毎フレーム読む（シーンの更新より先）
+    this.gamepad.poll()
+
     this.sceneManager.update(delta)
 
     const currentScene = this.sceneManager.getCurrentScene()
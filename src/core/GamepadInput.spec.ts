@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test'
+import { GamepadInput, type GamepadButton, type GamepadSnapshot } from './GamepadInput'
+
+const snapshot = (pressed: number[] = [], axes: number[] = [0, 0, 0, 0]): GamepadSnapshot => ({
+  buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i) })),
+  axes
+})
+
+const record = (input: GamepadInput): GamepadButton[] => {
+  const events: GamepadButton[] = []
+  input.addListener({ onButtonDown: (button) => events.push(button) })
+  return events
+}
+
+describe('GamepadInput', () => {
+  it('notifies a button only on the frame it is pressed', () => {
+    const input = new GamepadInput()
+    const events = record(input)
+
+    input.update(snapshot([0]))
+    input.update(snapshot([0]))
+    input.update(snapshot([]))
+    input.update(snapshot([0, 1]))
+
+    expect(events).toEqual(['confirm', 'confirm', 'cancel'])
+  })
+
+  it('ignores small stick tilts and rescales the rest', () => {
+    const input = new GamepadInput()
+    input.update(snapshot([], [0.1, -0.1, 0, 0]))
+    expect(input.getStick()).toEqual({ x: 0, y: 0 })
+
+    input.update(snapshot([], [1, 0, 0, 0]))
+    expect(input.getStick().x).toBeCloseTo(1)
+  })
+
+  it('treats a pushed stick as a d-pad with hysteresis', () => {
+    const input = new GamepadInput()
+    const events = record(input)
+
+    input.update(snapshot([], [0, 0.7, 0, 0]))
+    input.update(snapshot([], [0, 0.5, 0, 0]))
+    input.update(snapshot([], [0, 0.7, 0, 0]))
+    input.update(snapshot([], [0, 0.2, 0, 0]))
+    input.update(snapshot([], [0, 0.7, 0, 0]))
+
+    expect(events).toEqual(['down', 'down'])
+  })
+
+  it('releases everything when the pad disconnects', () => {
+    const input = new GamepadInput()
+    const events = record(input)
+
+    input.update(snapshot([0], [0.9, 0, 0, 0]))
+    input.update(null)
+    expect(input.connected).toBe(false)
+    expect(input.getStick()).toEqual({ x: 0, y: 0 })
+
+    input.update(snapshot([0]))
+    expect(events).toEqual(['confirm', 'right', 'confirm'])
+  })
+})
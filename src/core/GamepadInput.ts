@@ -0,0 +1,166 @@
+/**
+ * ゲームパッドのボタン（標準配置のボタンを役割にまとめる）
+ * - confirm: A（下のボタン） / cancel: B（右のボタン）
+ * - up / down / left / right: 十字キー。左スティックを大きく倒しても同じ扱い
+ */
+export type GamepadButton = 'confirm' | 'cancel' | 'up' | 'down' | 'left' | 'right'
+
+/**
+ * 押した瞬間の通知先
+ */
+export type GamepadListener = {
+  onButtonDown?: (button: GamepadButton) => void
+}
+
+/**
+ * スティックの傾き（-1〜1、右・下が正。遊びの範囲は0）
+ */
+export type StickState = {
+  readonly x: number
+  readonly y: number
+}
+
+/**
+ * 1フレーム分の入力（ブラウザのGamepadがそのまま渡せる形）
+ */
+export type GamepadSnapshot = {
+  readonly buttons: readonly { readonly pressed: boolean }[]
+  readonly axes: readonly number[]
+}
+
+/** Standard Gamepadの配置でのボタン番号 */
+const BUTTON_INDICES: Record<GamepadButton, readonly number[]> = {
+  confirm: [0],
+  cancel: [1],
+  up: [12],
+  down: [13],
+  left: [14],
+  right: [15]
+}
+const GAMEPAD_BUTTONS = Object.keys(BUTTON_INDICES) as GamepadButton[]
+
+/** スティックの遊び（これ以下の傾きは0） */
+const STICK_DEADZONE = 0.2
+/** スティックを十字キー扱いにする傾きと、戻ったとみなす傾き（連続入力を防ぐ） */
+const STICK_PRESS = 0.6
+const STICK_RELEASE = 0.4
+
+const CENTERED: StickState = { x: 0, y: 0 }
+
+/**
+ * 遊びを除いて0〜1に伸ばし直す（向きは保つ）
+ */
+const applyDeadzone = (x: number, y: number): StickState => {
+  const length = Math.hypot(x, y)
+  if (length <= STICK_DEADZONE) return CENTERED
+  const scale = Math.min(1, (length - STICK_DEADZONE) / (1 - STICK_DEADZONE)) / length
+  return { x: x * scale, y: y * scale }
+}
+
+/**
+ * ゲームパッド入力
+ * Game.animateで毎フレームpollし、ボタンは押した瞬間だけリスナーへ通知する
+ * スティックの傾きは各シーンがgetStickで読む
+ */
+export class GamepadInput {
+  private listeners: Set<GamepadListener> = new Set()
+  private held: Set<GamepadButton> = new Set()
+  private leftStick: StickState = CENTERED
+  private rightStick: StickState = CENTERED
+  private isConnected = false
+
+  addListener(listener: GamepadListener): void {
+    this.listeners.add(listener)
+  }
+
+  removeListener(listener: GamepadListener): void {
+    this.listeners.delete(listener)
+  }
+
+  get connected(): boolean {
+    return this.isConnected
+  }
+
+  /**
+   * 押し続けているか（長押し操作用）
+   */
+  isHeld(button: GamepadButton): boolean {
+    return this.held.has(button)
+  }
+
+  /** 左スティック（狙い） */
+  getStick(): StickState {
+    return this.leftStick
+  }
+
+  /** 右スティック */
+  getRightStick(): StickState {
+    return this.rightStick
+  }
+
+  /**
+   * 接続されている最初のゲームパッドを読む（Gamepad APIがない環境では何もしない）
+   */
+  poll(): void {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return
+    const pad = Array.from(navigator.getGamepads()).find((p) => p?.connected) ?? null
+    this.update(pad)
+  }
+
+  /**
+   * 1フレーム分の入力を反映する
+   * @param pad 未接続ならnull（押していたボタンは離したことにする）
+   */
+  update(pad: GamepadSnapshot | null): void {
+    this.isConnected = pad !== null
+    if (!pad) {
+      this.held.clear()
+      this.leftStick = CENTERED
+      this.rightStick = CENTERED
+      return
+    }
+
+    const rawX = pad.axes[0] ?? 0
+    const rawY = pad.axes[1] ?? 0
+    this.leftStick = applyDeadzone(rawX, rawY)
+    this.rightStick = applyDeadzone(pad.axes[2] ?? 0, pad.axes[3] ?? 0)
+
+    const pressed = new Set<GamepadButton>()
+    for (const button of GAMEPAD_BUTTONS) {
+      if (BUTTON_INDICES[button].some((index) => pad.buttons[index]?.pressed)) {
+        pressed.add(button)
+      }
+    }
+    this.addStickDirections(rawX, rawY, pressed)
+
+    for (const button of GAMEPAD_BUTTONS) {
+      if (pressed.has(button) && !this.held.has(button)) {
+        this.notify(button)
+      }
+    }
+    this.held = pressed
+  }
+
+  /**
+   * 左スティックを大きく倒した向きを十字キーとして加える
+   * 押している間は戻りきるまで（STICK_RELEASE）押したままとみなす
+   */
+  private addStickDirections(x: number, y: number, pressed: Set<GamepadButton>): void {
+    const directions: [GamepadButton, number][] = [
+      ['left', -x],
+      ['right', x],
+      ['up', -y],
+      ['down', y]
+    ]
+    for (const [button, amount] of directions) {
+      const threshold = this.held.has(button) ? STICK_RELEASE : STICK_PRESS
+      if (amount >= threshold) pressed.add(button)
+    }
+  }
+
+  private notify(button: GamepadButton): void {
+    for (const listener of this.listeners) {
+      listener.onButtonDown?.(button)
+    }
+  }
+}
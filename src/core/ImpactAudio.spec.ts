@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test'
+import { getImpactSound, ImpactVoiceLimiter } from './ImpactAudio'
+import type { Impact } from '../types/impact'
+
+const createImpact = (overrides: Partial<Impact> = {}): Impact => ({
+  surfaces: ['mochi', 'sanpo'],
+  speed: 4,
+  mass: 1,
+  position: { x: 0, y: 0, z: 0 },
+  ...overrides
+})
+
+describe('getImpactSound', () => {
+  it('ignores impacts too soft to hear', () => {
+    expect(getImpactSound(createImpact({ speed: 0.3 }))).toBeNull()
+  })
+
+  it('gets louder and brighter with impact speed', () => {
+    const soft = getImpactSound(createImpact({ speed: 1 }))!
+    const hard = getImpactSound(createImpact({ speed: 6 }))!
+
+    expect(hard.volume).toBeGreaterThan(soft.volume)
+    expect(hard.brightness).toBeGreaterThan(soft.brightness)
+  })
+
+  it('lowers the pitch for heavier mochi', () => {
+    const light = getImpactSound(createImpact({ mass: 0.3 }))!
+    const heavy = getImpactSound(createImpact({ mass: 2 }))!
+
+    expect(heavy.frequency).toBeLessThan(light.frequency)
+  })
+
+  it('varies the timbre with the material pair', () => {
+    const ice = getImpactSound(createImpact({ surfaces: ['mochi', 'ice'] }))!
+    const tatami = getImpactSound(createImpact({ surfaces: ['mochi', 'tatami'] }))!
+
+    expect(ice.frequency).toBeGreaterThan(tatami.frequency)
+    expect(tatami.noise).toBeGreaterThan(ice.noise)
+  })
+})
+
+describe('ImpactVoiceLimiter', () => {
+  it('limits bursts and recovers over time', () => {
+    const limiter = new ImpactVoiceLimiter(64)
+    let played = 0
+    for (let i = 0; i < 20; i++) {
+      if (limiter.acquire(1, 0.5, 0.1) !== null) played++
+    }
+    expect(played).toBe(8)
+
+    // 0.1秒で3つぶん回復する
+    expect(limiter.acquire(1.1, 0.5, 0.1)).not.toBeNull()
+  })
+
+  it('steals the quietest voice only for a louder impact', () => {
+    const limiter = new ImpactVoiceLimiter(2)
+    expect(limiter.acquire(0, 0.4, 1)).toBe(0)
+    expect(limiter.acquire(0, 0.1, 1)).toBe(1)
+
+    expect(limiter.acquire(0, 0.05, 1)).toBeNull()
+    expect(limiter.acquire(0, 0.3, 1)).toBe(1)
+  })
+})
@@ -0,0 +1,247 @@
+import type { Impact, ImpactSurface } from '../types/impact'
+
+/**
+ * 材質ごとの音色
+ */
+type ImpactTimbre = {
+  /** 基本の高さ（Hz） */
+  frequency: number
+  waveform: OscillatorType
+  /** 減衰までの時間（秒） */
+  decay: number
+  /** 打撃ノイズの混ざり具合（0-1） */
+  noise: number
+  /** ローパスの上限（Hz、小さいほどこもった音） */
+  brightness: number
+}
+
+const IMPACT_TIMBRES: Record<ImpactSurface, ImpactTimbre> = {
+  mochi: { frequency: 110, waveform: 'sine', decay: 0.18, noise: 0.1, brightness: 600 },
+  fruit: { frequency: 260, waveform: 'triangle', decay: 0.1, noise: 0.2, brightness: 1800 },
+  ornament: { frequency: 520, waveform: 'triangle', decay: 0.06, noise: 0.5, brightness: 3000 },
+  sanpo: { frequency: 330, waveform: 'triangle', decay: 0.12, noise: 0.3, brightness: 2500 },
+  ice: { frequency: 900, waveform: 'sine', decay: 0.25, noise: 0.15, brightness: 6000 },
+  tatami: { frequency: 90, waveform: 'sine', decay: 0.08, noise: 0.6, brightness: 900 },
+  post: { frequency: 240, waveform: 'triangle', decay: 0.1, noise: 0.35, brightness: 2000 },
+  ground: { frequency: 70, waveform: 'sine', decay: 0.2, noise: 0.4, brightness: 500 }
+}
+
+/** この速度で音が鳴り始め、MAXで最大音量になる（m/s） */
+const MIN_AUDIBLE_SPEED = 0.3
+const MAX_IMPACT_SPEED = 8
+const MAX_IMPACT_VOLUME = 0.5
+const MIN_IMPACT_VOLUME = 0.01
+
+/**
+ * 1回の衝突音のパラメータ
+ */
+export type ImpactSoundParams = {
+  frequency: number
+  waveform: OscillatorType
+  duration: number
+  volume: number
+  noise: number
+  brightness: number
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value))
+
+/**
+ * 衝突から音を決める
+ * - 材質の組み合わせ: 高さは2つの幾何平均、こもり具合は柔らかい方に寄せる
+ * - 質量: 重いほど低く大きい
+ * - 衝突速度: 速いほど大きく明るく長い
+ * @returns 聞こえないほど小さい衝突はnull
+ */
+export const getImpactSound = (impact: Impact): ImpactSoundParams | null => {
+  const intensity = clamp(
+    (impact.speed - MIN_AUDIBLE_SPEED) / (MAX_IMPACT_SPEED - MIN_AUDIBLE_SPEED),
+    0,
+    1
+  )
+  const [a, b] = impact.surfaces.map((surface) => IMPACT_TIMBRES[surface])
+  const massPitch = clamp(Math.cbrt(1 / Math.max(impact.mass, 0.01)), 0.6, 1.6)
+  const massVolume = clamp(Math.sqrt(impact.mass), 0.5, 1.3)
+
+  const volume = MAX_IMPACT_VOLUME * intensity ** 0.8 * massVolume
+  if (volume < MIN_IMPACT_VOLUME) return null
+
+  return {
+    frequency: Math.sqrt(a.frequency * b.frequency) * massPitch * (0.9 + 0.2 * intensity),
+    waveform: a.frequency >= b.frequency ? a.waveform : b.waveform,
+    duration: ((a.decay + b.decay) / 2) * (0.7 + 0.6 * intensity),
+    volume,
+    noise: Math.max(a.noise, b.noise),
+    brightness: Math.min(a.brightness, b.brightness) * (0.6 + 0.8 * intensity)
+  }
+}
+
+const VOICE_COUNT = 8
+/** 連続して鳴らせる数と、1秒あたりの回復数（崩落時に音が詰まりすぎないように） */
+const BURST_CAPACITY = 8
+const REFILL_PER_SECOND = 30
+
+type VoiceSlot = {
+  startedAt: number
+  busyUntil: number
+  volume: number
+}
+
+/**
+ * 衝突音の発音数制限
+ * - 一定時間あたりの発音数をトークンで制限する
+ * - 空きボイスがなければ、いま一番小さく鳴っているボイスを奪う（新しい音の方が大きいときだけ）
+ */
+export class ImpactVoiceLimiter {
+  private readonly slots: VoiceSlot[]
+  private tokens = BURST_CAPACITY
+  private lastRefill = 0
+
+  constructor(voiceCount: number = VOICE_COUNT) {
+    this.slots = Array.from({ length: voiceCount }, () => ({
+      startedAt: 0,
+      busyUntil: 0,
+      volume: 0
+    }))
+  }
+
+  /**
+   * ボイスを確保する
+   * @param now 現在時刻（秒）
+   * @returns 使うボイスの番号、鳴らさない場合はnull
+   */
+  acquire(now: number, volume: number, duration: number): number | null {
+    this.tokens = Math.min(
+      BURST_CAPACITY,
+      this.tokens + Math.max(0, now - this.lastRefill) * REFILL_PER_SECOND
+    )
+    this.lastRefill = now
+    if (this.tokens < 1) return null
+
+    let index = this.slots.findIndex((slot) => slot.busyUntil <= now)
+    if (index < 0) {
+      index = this.findQuietest(now)
+      if (this.getCurrentVolume(this.slots[index], now) >= volume) return null
+    }
+
+    this.tokens -= 1
+    this.slots[index] = { startedAt: now, busyUntil: now + duration, volume }
+    return index
+  }
+
+  private findQuietest(now: number): number {
+    let quietest = 0
+    for (let i = 1; i < this.slots.length; i++) {
+      if (this.getCurrentVolume(this.slots[i], now) < this.getCurrentVolume(this.slots[quietest], now)) {
+        quietest = i
+      }
+    }
+    return quietest
+  }
+
+  /** 減衰途中の音量（残り時間に比例すると近似） */
+  private getCurrentVolume(slot: VoiceSlot, now: number): number {
+    if (now >= slot.busyUntil) return 0
+    return (slot.volume * (slot.busyUntil - now)) / (slot.busyUntil - slot.startedAt)
+  }
+}
+
+type Voice = {
+  filter: BiquadFilterNode
+  gain: GainNode
+  sources: AudioScheduledSourceNode[]
+}
+
+/**
+ * 物理の衝突から合成する衝突音
+ * ボイス（フィルタ＋ゲイン）は使い回し、音源だけを毎回作る
+ */
+export class ImpactAudio {
+  private readonly context: AudioContext
+  private readonly voices: Voice[]
+  private readonly limiter = new ImpactVoiceLimiter(VOICE_COUNT)
+  private readonly noiseBuffer: AudioBuffer
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context
+    this.voices = Array.from({ length: VOICE_COUNT }, () => {
+      const filter = context.createBiquadFilter()
+      filter.type = 'lowpass'
+      const gain = context.createGain()
+      gain.gain.value = 0
+      filter.connect(gain)
+      gain.connect(destination)
+      return { filter, gain, sources: [] }
+    })
+    this.noiseBuffer = this.createNoiseBuffer()
+  }
+
+  private createNoiseBuffer(): AudioBuffer {
+    const length = Math.floor(this.context.sampleRate * 0.3)
+    const buffer = this.context.createBuffer(1, length, this.context.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+    return buffer
+  }
+
+  /**
+   * 衝突音を鳴らす（制限を超えた分は鳴らさない）
+   */
+  play(impact: Impact): void {
+    const sound = getImpactSound(impact)
+    if (!sound) return
+
+    const now = this.context.currentTime
+    const index = this.limiter.acquire(now, sound.volume, sound.duration)
+    if (index === null) return
+
+    const voice = this.voices[index]
+    this.stopSources(voice, now)
+
+    voice.filter.frequency.setValueAtTime(sound.brightness, now)
+    voice.gain.gain.cancelScheduledValues(now)
+    voice.gain.gain.setValueAtTime(sound.volume, now)
+    voice.gain.gain.exponentialRampToValueAtTime(0.0001, now + sound.duration)
+
+    const osc = this.context.createOscillator()
+    osc.type = sound.waveform
+    osc.frequency.setValueAtTime(sound.frequency, now)
+    // 当たった瞬間だけ少し高く、すぐ落ち着く
+    osc.frequency.exponentialRampToValueAtTime(sound.frequency * 0.7, now + sound.duration)
+    const toneGain = this.context.createGain()
+    toneGain.gain.value = 1 - sound.noise
+    osc.connect(toneGain)
+    toneGain.connect(voice.filter)
+
+    const noise = this.context.createBufferSource()
+    noise.buffer = this.noiseBuffer
+    const noiseGain = this.context.createGain()
+    noiseGain.gain.value = sound.noise
+    noise.connect(noiseGain)
+    noiseGain.connect(voice.filter)
+
+    voice.sources = [osc, noise]
+    for (const source of voice.sources) {
+      source.start(now)
+      source.stop(now + sound.duration)
+    }
+  }
+
+  /**
+   * 奪ったボイスで鳴っていた音を止める
+   */
+  private stopSources(voice: Voice, now: number): void {
+    for (const source of voice.sources) {
+      try {
+        source.stop(now)
+      } catch {
+        // 既に停止済み
+      }
+      source.disconnect()
+    }
+    voice.sources = []
+  }
+}
@@ -9,6 +9,11 @@ export type SnowEffectOptions = {
   windStrength?: number
 }
 
+/** 風の加速度(m/s²)を雪の流れる速さ(m/s)に換える係数 */
+const WIND_DRIFT_SCALE = 1.5
+/** 風向きが変わったとき、流れが追いつく速さ（1秒あたり） */
+const WIND_DRIFT_EASE = 2
+
 const DEFAULT_OPTIONS: Required<SnowEffectOptions> = {
   count: 250,
   areaWidth: 60,
@@ -25,6 +30,9 @@ export class SnowEffect {
   private velocities: Float32Array
   private options: Required<SnowEffectOptions>
   private time = 0
+  /** ゲームの風による流れ（風向きの表示を兼ねる） */
+  private drift = new THREE.Vector2()
+  private targetDrift = new THREE.Vector2()
 
   constructor(options: SnowEffectOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options }
@@ -64,8 +72,18 @@ export class SnowEffect {
     scene.remove(this.particles)
   }
 
+  /**
+   * ゲームの風を設定（雪が風下へ流れて風向きを示す）
+   * @param x 風のX成分（m/s²）
+   * @param z 風のZ成分（m/s²）
+   */
+  setWind(x: number, z: number) {
+    this.targetDrift.set(x * WIND_DRIFT_SCALE, z * WIND_DRIFT_SCALE)
+  }
+
   update(delta: number) {
     this.time += delta
+    this.drift.lerp(this.targetDrift, Math.min(1, delta * WIND_DRIFT_EASE))
 
     const positions = this.geometry.attributes.position.array as Float32Array
     const { areaWidth, areaHeight, areaDepth, fallSpeed, windStrength } = this.options
@@ -78,8 +96,8 @@ export class SnowEffect {
 
       const windX = Math.sin(this.time * 0.5 + i * 0.1) * windStrength
       const windZ = Math.cos(this.time * 0.3 + i * 0.15) * windStrength * 0.5
-      positions[i3] += windX * delta
-      positions[i3 + 2] += windZ * delta
+      positions[i3] += (windX + this.drift.x) * delta
+      positions[i3 + 2] += (windZ + this.drift.y) * delta
 
       if (positions[i3 + 1] < -2) {
         positions[i3 + 1] = areaHeight
@@ -7,6 +7,7 @@ import { ShockwaveEffect } from '../ShockwaveEffect'
 import type { CameraController } from '../../core/CameraController'
 import type { CameraEffectsManager } from '../../core/CameraEffectsManager'
 import type { ExtrudeTextOptions } from '../../text-builder/types'
+import type { GameMode } from '../../types/game-mode'
 
 export type ScoreTier = 'perfect' | 'excellent' | 'good' | 'average' | 'poor' | 'fail'
 
@@ -14,7 +15,7 @@ export type ScoreRevealConfig = {
   tier: ScoreTier
   score: number
   label: string // "YOUR SCORE" または "MAX HEIGHT" など
-  gameMode: 'normal' | 'endless'
+  gameMode: GameMode
   effectIntensity?: number // 0-1の演出強度（エンドレスモード用）
   displayScore?: string // フォーマット済み表示スコア（エンドレスモード用）
 }
@@ -0,0 +1,61 @@
+import * as THREE from 'three'
+import { SeededRandom } from '../systems/SeededRandom'
+
+const TEXTURE_SIZE = 128
+const CRACK_COUNT = 5
+const CRACK_STEPS = 60
+/** ひびの明るさ（0-255、餅の色に掛かる） */
+const CRACK_SHADE = 90
+
+/**
+ * 文字列から乱数シードを作る（FNV-1a）
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * ひび割れのテクスチャ（白地に暗い線。マテリアルの色に掛けて使う）
+ * キャンバスを使わずに画素を直接描くので、描画のない環境でも作れる
+ * @param key 同じキーからは同じひびになる（餅のIDなど）
+ */
+export const createCrackTexture = (key: string): THREE.DataTexture => {
+  const random = new SeededRandom(hashString(key))
+  const data = new Uint8Array(TEXTURE_SIZE * TEXTURE_SIZE * 4).fill(255)
+
+  const paint = (x: number, y: number) => {
+    // 横方向は回転体のUVなので端でつなげる
+    const px = ((Math.round(x) % TEXTURE_SIZE) + TEXTURE_SIZE) % TEXTURE_SIZE
+    const py = Math.round(y)
+    if (py < 0 || py >= TEXTURE_SIZE) return
+    const i = (py * TEXTURE_SIZE + px) * 4
+    data[i] = data[i + 1] = data[i + 2] = CRACK_SHADE
+  }
+
+  // 上面付近の1点から放射状に折れ線を伸ばす
+  const originX = random.range(0, TEXTURE_SIZE)
+  const originY = random.range(TEXTURE_SIZE * 0.6, TEXTURE_SIZE * 0.9)
+  for (let c = 0; c < CRACK_COUNT; c++) {
+    let x = originX
+    let y = originY
+    let angle = random.range(0, Math.PI * 2)
+    for (let step = 0; step < CRACK_STEPS; step++) {
+      angle += random.spread(0.6)
+      x += Math.cos(angle)
+      y += Math.sin(angle)
+      paint(x, y)
+      paint(x + 1, y)
+    }
+  }
+
+  const texture = new THREE.DataTexture(data, TEXTURE_SIZE, TEXTURE_SIZE)
+  texture.wrapS = THREE.RepeatWrapping
+  texture.colorSpace = THREE.SRGBColorSpace
+  texture.needsUpdate = true
+  return texture
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'bun:test'
+import * as CANNON from 'cannon-es'
+import { DaiPlatform } from './DaiPlatform'
+import { PhysicsContext } from './PhysicsContext'
+import { DAI_POSITION, DAI_SURFACE_Y } from '../scenes/game/trajectory'
+import { DAI_MOTION_CONFIGS } from '../types/dai-motion'
+import {
+  PEDESTAL_CONFIGS,
+  getDistanceOutsideSurface,
+  getSurfaceMargin
+} from '../types/pedestal'
+
+const physics = new PhysicsContext()
+
+describe('DaiPlatform', () => {
+  it('stays a static body when not moving', () => {
+    const dai = new DaiPlatform(physics)
+    dai.update(3)
+
+    expect(dai.isMoving).toBe(false)
+    expect(dai.body.type).toBe(CANNON.Body.STATIC)
+    expect(dai.targetPosition.toArray()).toEqual([DAI_POSITION.x, DAI_SURFACE_Y, DAI_POSITION.z])
+  })
+
+  it('spins a turntable in place', () => {
+    const dai = new DaiPlatform(physics, 'turntable')
+    dai.update(DAI_MOTION_CONFIGS.turntable.period / 4)
+
+    expect(dai.body.type).toBe(CANNON.Body.KINEMATIC)
+    expect(dai.body.angularVelocity.y).toBeGreaterThan(0)
+    expect(dai.position.x).toBeCloseTo(DAI_POSITION.x)
+    const angle = 2 * Math.acos(dai.quaternion.w)
+    expect(angle).toBeCloseTo(Math.PI / 2)
+  })
+
+  it('slides sideways and moves the target with it', () => {
+    const dai = new DaiPlatform(physics, 'slide')
+    const { amplitude, period } = DAI_MOTION_CONFIGS.slide
+    dai.update(period / 4)
+
+    expect(dai.position.x).toBeCloseTo(DAI_POSITION.x + amplitude)
+    expect(dai.targetPosition.x).toBeCloseTo(DAI_POSITION.x + amplitude)
+    expect(dai.footprint.x).toBeCloseTo(DAI_POSITION.x + amplitude)
+    expect(dai.body.velocity.x).toBeCloseTo(0)
+  })
+
+  it('bobs only above its resting height', () => {
+    const dai = new DaiPlatform(physics, 'bob')
+    const { amplitude, period } = DAI_MOTION_CONFIGS.bob
+
+    for (let i = 0; i <= 20; i++) {
+      dai.update((period * i) / 20)
+      expect(dai.position.y).toBeGreaterThanOrEqual(DAI_POSITION.y - 1e-9)
+      expect(dai.position.y).toBeLessThanOrEqual(DAI_POSITION.y + amplitude + 1e-9)
+    }
+  })
+
+  it('builds the shape and surface from the pedestal dimensions', () => {
+    const tatami = new DaiPlatform(physics, 'static', 'tatami')
+    const { height } = PEDESTAL_CONFIGS.tatami
+
+    expect(tatami.body.shapes[0]).toBeInstanceOf(CANNON.Box)
+    // 床に置いたまま高さだけが変わる
+    expect(tatami.surface.y).toBeCloseTo(DAI_SURFACE_Y - PEDESTAL_CONFIGS.sanpo.height + height)
+    expect(tatami.surface.radius).toBeCloseTo(1.2)
+
+    const post = new DaiPlatform(physics, 'static', 'post')
+    expect(post.body.shapes[0]).toBeInstanceOf(CANNON.Cylinder)
+    expect(post.footprint.radius).toBeCloseTo(0.9)
+  })
+
+  it('measures a box pedestal as a rectangle that turns with the dai', () => {
+    const tatami = new DaiPlatform(physics, 'static', 'tatami').surface
+
+    // 長い辺の端近くも上面の中（短い辺の円に縮めない）
+    expect(getSurfaceMargin(tatami, 1.95, 0)).toBeGreaterThan(0)
+    expect(getSurfaceMargin(tatami, 0, 1.3)).toBeLessThan(0)
+    expect(getDistanceOutsideSurface(tatami, 1.5, 0)).toBe(0)
+    expect(getDistanceOutsideSurface(tatami, 2.5, 0)).toBeCloseTo(0.5)
+
+    const turning = new DaiPlatform(physics, 'turntable', 'tatami')
+    turning.update(DAI_MOTION_CONFIGS.turntable.period / 4)
+    expect(getSurfaceMargin(turning.surface, 0, 1.95)).toBeGreaterThan(0)
+    expect(getSurfaceMargin(turning.surface, 1.95, 0)).toBeLessThan(0)
+    expect(turning.footprint.rect).toEqual(turning.surface.rect)
+  })
+
+  it('registers a contact material with the pedestal friction', () => {
+    const ice = new DaiPlatform(physics, 'static', 'ice')
+    const contact = physics.world.getContactMaterial(physics.mochiMaterial, ice.body.material!)
+
+    expect(contact?.friction).toBe(PEDESTAL_CONFIGS.ice.contact.friction)
+  })
+})
@@ -0,0 +1,209 @@
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { DAI_POSITION, DAI_HEIGHT } from '../scenes/game/trajectory'
+import {
+  type DaiMotionConfig,
+  type DaiMotionType,
+  DAI_MOTION_CONFIGS,
+  DEFAULT_DAI_MOTION
+} from '../types/dai-motion'
+import {
+  type PedestalConfig,
+  type PedestalSurface,
+  type PedestalType,
+  PEDESTAL_CONFIGS,
+  DEFAULT_PEDESTAL,
+  getPedestalSurfaceRadius
+} from '../types/pedestal'
+import type { PhysicsContext } from './PhysicsContext'
+import type { SupportFootprint } from './StackStabilityAnalyzer'
+
+const DAI_SEGMENTS = 16
+const MESH_SEGMENTS = 32
+const TRIM_THICKNESS = 0.04
+
+/** 台座を置く床の高さ */
+const FLOOR_Y = DAI_POSITION.y - DAI_HEIGHT / 2
+
+const UP = new CANNON.Vec3(0, 1, 0)
+
+/**
+ * 台座（餅を載せる台）
+ * - 形・見た目・餅との摩擦は台座の種類（PEDESTAL_CONFIGS）で決まる
+ * - 固定台は従来どおり静的ボディ
+ * - 動く台はキネマティックボディにして、姿勢と速度を時刻から毎ステップ決める
+ *   速度も与えるので、載っている餅は摩擦で一緒に運ばれる
+ */
+export class DaiPlatform {
+  public readonly body: CANNON.Body
+  public readonly motion: DaiMotionConfig
+  public readonly pedestal: PedestalConfig
+
+  /** 静止時の中心の高さ（床に置いた位置） */
+  private readonly restY: number
+
+  constructor(
+    physics: PhysicsContext,
+    motion: DaiMotionType = DEFAULT_DAI_MOTION,
+    pedestal: PedestalType = DEFAULT_PEDESTAL
+  ) {
+    this.motion = DAI_MOTION_CONFIGS[motion]
+    this.pedestal = PEDESTAL_CONFIGS[pedestal]
+    this.restY = FLOOR_Y + this.pedestal.height / 2
+    this.body = new CANNON.Body({
+      mass: 0,
+      type: this.isMoving ? CANNON.Body.KINEMATIC : CANNON.Body.STATIC,
+      material: physics.createSurfaceMaterial(`pedestal-${pedestal}`, this.pedestal.contact),
+      shape: this.createShape(),
+      allowSleep: false
+    })
+    this.body.position.set(DAI_POSITION.x, this.restY, DAI_POSITION.z)
+  }
+
+  private createShape(): CANNON.Shape {
+    const { shape, height } = this.pedestal
+    if (shape.kind === 'box') {
+      return new CANNON.Box(new CANNON.Vec3(shape.width / 2, height / 2, shape.depth / 2))
+    }
+    return new CANNON.Cylinder(shape.radiusTop, shape.radiusBottom, height, DAI_SEGMENTS)
+  }
+
+  get isMoving(): boolean {
+    return this.motion.type !== 'static'
+  }
+
+  get position(): THREE.Vector3 {
+    const { x, y, z } = this.body.position
+    return new THREE.Vector3(x, y, z)
+  }
+
+  get quaternion(): THREE.Quaternion {
+    const { x, y, z, w } = this.body.quaternion
+    return new THREE.Quaternion(x, y, z, w)
+  }
+
+  /** 上面の中心（スコアのターゲット） */
+  get targetPosition(): THREE.Vector3 {
+    return this.position.setY(this.body.position.y + this.pedestal.height / 2)
+  }
+
+  /** 上面（スコアと崩壊判定の基準。箱は回転を含めた長方形も持つ） */
+  get surface(): PedestalSurface {
+    const { x, y, z } = this.targetPosition
+    const radius = getPedestalSurfaceRadius(this.pedestal)
+    const { shape } = this.pedestal
+    if (shape.kind === 'cylinder') return { x, y, z, radius }
+
+    const yaw = new THREE.Euler().setFromQuaternion(this.quaternion, 'YXZ').y
+    return {
+      x,
+      y,
+      z,
+      radius,
+      rect: { halfWidth: shape.width / 2, halfDepth: shape.depth / 2, yaw }
+    }
+  }
+
+  /** 上面（安定性解析の支持面） */
+  get footprint(): SupportFootprint {
+    const { x, z, radius, rect } = this.surface
+    return rect ? { x, z, radius, rect } : { x, z, radius }
+  }
+
+  /**
+   * 時刻に応じた姿勢と速度にする（物理ステップの直前に呼ぶ）
+   * @param time シミュレーション時間（秒）
+   */
+  update(time: number): void {
+    if (!this.isMoving) return
+
+    const { amplitude, period } = this.motion
+    const omega = (Math.PI * 2) / period
+    const phase = omega * time
+    const body = this.body
+
+    switch (this.motion.type) {
+      case 'turntable':
+        body.quaternion.setFromAxisAngle(UP, phase)
+        body.angularVelocity.set(0, omega, 0)
+        break
+      case 'slide':
+        body.position.x = DAI_POSITION.x + amplitude * Math.sin(phase)
+        body.velocity.set(amplitude * omega * Math.cos(phase), 0, 0)
+        break
+      case 'bob':
+        // 床にめり込まないよう、元の高さから上にだけ揺れる
+        body.position.y = this.restY + (amplitude * (1 - Math.cos(phase))) / 2
+        body.velocity.set(0, (amplitude * omega * Math.sin(phase)) / 2, 0)
+        break
+    }
+    body.aabbNeedsUpdate = true
+  }
+
+  /**
+   * 描画メッシュを作る（本体＋上面の縁取り）
+   */
+  createMesh(): THREE.Group {
+    const { shape, height, color, trimColor, roughness, metalness, opacity } = this.pedestal
+    const group = new THREE.Group()
+
+    const bodyMaterial = new THREE.MeshStandardMaterial({
+      color,
+      roughness,
+      metalness,
+      transparent: opacity < 1,
+      opacity
+    })
+    const trimMaterial = new THREE.MeshStandardMaterial({
+      color: trimColor,
+      roughness: 0.4,
+      metalness: this.pedestal.type === 'sanpo' ? 0.8 : 0
+    })
+
+    const bodyGeometry =
+      shape.kind === 'box'
+        ? new THREE.BoxGeometry(shape.width, height, shape.depth)
+        : new THREE.CylinderGeometry(shape.radiusTop, shape.radiusBottom, height, MESH_SEGMENTS)
+    const bodyMesh = new THREE.Mesh(bodyGeometry, bodyMaterial)
+    bodyMesh.castShadow = true
+    bodyMesh.receiveShadow = true
+    group.add(bodyMesh)
+
+    const top = height / 2
+    if (shape.kind === 'box') {
+      // 長い辺に沿った縁（畳の縁）
+      const alongX = shape.width >= shape.depth
+      const length = alongX ? shape.width : shape.depth
+      const offset = (alongX ? shape.depth : shape.width) / 2 - TRIM_THICKNESS * 2
+      const trimGeometry = new THREE.BoxGeometry(
+        alongX ? length : TRIM_THICKNESS * 4,
+        TRIM_THICKNESS,
+        alongX ? TRIM_THICKNESS * 4 : length
+      )
+      for (const side of [-1, 1]) {
+        const trim = new THREE.Mesh(trimGeometry, trimMaterial)
+        trim.position.set(alongX ? 0 : side * offset, top, alongX ? side * offset : 0)
+        group.add(trim)
+      }
+    } else {
+      const trim = new THREE.Mesh(
+        new THREE.TorusGeometry(shape.radiusTop, TRIM_THICKNESS, 8, MESH_SEGMENTS * 2),
+        trimMaterial
+      )
+      trim.rotation.x = -Math.PI / 2
+      trim.position.y = top
+      group.add(trim)
+    }
+
+    this.syncObject(group)
+    return group
+  }
+
+  /**
+   * 描画メッシュを物理ボディに合わせる
+   */
+  syncObject(object: THREE.Object3D): void {
+    object.position.copy(this.position)
+    object.quaternion.copy(this.quaternion)
+  }
+}
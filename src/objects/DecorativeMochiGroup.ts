@@ -1,6 +1,8 @@
 import * as THREE from 'three'
 import * as CANNON from 'cannon-es'
-import { MochiObject, MOCHI_CONFIGS } from './MochiObject'
+import type { MochiObject } from './MochiObject'
+import { MOCHI_CONFIGS } from './MochiRegistry'
+import { mochiPool } from './MochiPool'
 import { PhysicsContext } from './PhysicsContext'
 
 export interface DecorativeMochiConfig {
@@ -113,7 +115,7 @@ export class DecorativeMochiGroup {
       this.basePosition.z
     )
 
-    const mochi = new MochiObject(
+    const mochi = mochiPool.acquire(
       config,
       this.physicsContext.mochiMaterial,
       dropPosition
@@ -136,7 +138,7 @@ export class DecorativeMochiGroup {
 
     // メッシュを物理ボディに同期
     for (const mochi of this.mochiList) {
-      mochi.syncMeshWithBody()
+      mochi.syncMeshWithBody(delta)
     }
 
     // 葉をみかんに追従
@@ -174,11 +176,9 @@ export class DecorativeMochiGroup {
       this.physicsContext.removeBody(this.daiBody)
     }
 
+    // 餅はプールに返して次の演出で使い回す
     for (const mochi of this.mochiList) {
-      mochi.mesh.geometry.dispose()
-      if (mochi.mesh.material instanceof THREE.Material) {
-        mochi.mesh.material.dispose()
-      }
+      mochiPool.release(mochi)
     }
 
     if (this.dai) {
@@ -1,12 +1,30 @@
 import * as THREE from 'three'
 import * as CANNON from 'cannon-es'
+import type { MochiObject, MochiType, MochiConfig } from './MochiObject'
+import { getMochiConfig, getFragmentConfig } from './MochiRegistry'
 import {
-  MochiObject,
-  MOCHI_CONFIGS,
-  type MochiType,
-  type MochiConfig
-} from './MochiObject'
+  StackStabilityAnalyzer,
+  DAI_FOOTPRINT,
+  type StabilityReport,
+  type SupportFootprint
+} from './StackStabilityAnalyzer'
+import { type MochiPool, mochiPool } from './MochiPool'
 import type { GameMode } from '../types/game-mode'
+import type { SimulationClock } from '../systems/SimulationClock'
+import { type PhysicsQuality, DEFAULT_PHYSICS_QUALITY } from '../types/quality'
+import type { PedestalSurface } from '../types/pedestal'
+import { DAI_SURFACE_Y } from '../scenes/game/trajectory'
+
+/** これより遅ければ静止しているとみなして固定できる */
+const FREEZE_SPEED_THRESHOLD = 0.05
+
+/** 割れた破片が互いに離れる速さ（m/s） */
+const FRAGMENT_SPREAD_SPEED = 0.6
+/** 生成直後に破片同士が触れないための隙間の割合 */
+const FRAGMENT_GAP_RATIO = 1.02
+
+/** 従来の固定台（三方）の上面 */
+const DEFAULT_DAI_SURFACE: PedestalSurface = { ...DAI_FOOTPRINT, y: DAI_SURFACE_Y }
 
 /**
  * 餅管理クラス
@@ -15,44 +33,54 @@ import type { GameMode } from '../types/game-mode'
  */
 export class MochiManager {
   private mochiList: MochiObject[] = []
+  private mochiByBody: Map<CANNON.Body, MochiObject> = new Map()
   private world: CANNON.World
   private scene: THREE.Scene
   private mochiMaterial: CANNON.Material
   private gameMode: GameMode
+  private clock: SimulationClock | null
+  private nextMochiIndex = 0
+  private physicsQuality: PhysicsQuality = DEFAULT_PHYSICS_QUALITY
+  private stabilityAnalyzer = new StackStabilityAnalyzer()
+  private pool: MochiPool = mochiPool
 
   // スタック判定パラメータ
   private readonly STACK_HEIGHT_THRESHOLD = 0.3 // 最大高さ差
+  private readonly STACK_PENETRATION_TOLERANCE = 0.1 // 重みでめり込んでも載っているとみなす深さ
 
   constructor(
     world: CANNON.World,
     scene: THREE.Scene,
     mochiMaterial: CANNON.Material,
-    gameMode: GameMode = 'normal'
+    gameMode: GameMode = 'normal',
+    clock: SimulationClock | null = null
   ) {
     this.world = world
     this.scene = scene
     this.mochiMaterial = mochiMaterial
     this.gameMode = gameMode
+    this.clock = clock
   }
 
   // --- Factory ---
   createMochi(type: MochiType, position: THREE.Vector3): MochiObject {
-    const config = MOCHI_CONFIGS[type]
-    const mochi = new MochiObject(config, this.mochiMaterial, position)
-    mochi.addToScene(this.scene)
-    mochi.addToWorld(this.world)
-    this.mochiList.push(mochi)
-    return mochi
+    return this.createMochiWithConfig(getMochiConfig(type), position)
   }
 
   createMochiWithConfig(
     config: MochiConfig,
     position: THREE.Vector3
   ): MochiObject {
-    const mochi = new MochiObject(config, this.mochiMaterial, position)
+    // IDは生成順の連番、生成時刻はシミュレーション時間（再現性のため）
+    const mochi = this.pool.acquire(config, this.mochiMaterial, position, {
+      id: `mochi_${this.nextMochiIndex++}`,
+      createdAt: this.clock?.elapsed ?? 0,
+      physicsQuality: this.physicsQuality
+    })
     mochi.addToScene(this.scene)
     mochi.addToWorld(this.world)
     this.mochiList.push(mochi)
+    this.mochiByBody.set(mochi.body, mochi)
     return mochi
   }
 
@@ -73,14 +101,24 @@ export class MochiManager {
     return this.mochiList.find((m) => m.id === id)
   }
 
+  /**
+   * 物理ボディから餅を引く（衝突イベント用、O(1)）
+   */
+  getByBody(body: CANNON.Body): MochiObject | undefined {
+    return this.mochiByBody.get(body)
+  }
+
   getCount(): number {
     return this.mochiList.length
   }
 
   // --- Update ---
-  update(): void {
+  /**
+   * @param delta フレーム経過時間（秒）。餅の変形アニメーション用
+   */
+  update(delta: number = 0): void {
     for (const mochi of this.mochiList) {
-      mochi.syncMeshWithBody()
+      mochi.syncMeshWithBody(delta)
     }
     this.updateStackStates()
   }
@@ -94,6 +132,8 @@ export class MochiManager {
 
     for (const mochi of sorted) {
       if (mochi.state === 'flying') continue
+      // 固定済みの下段は動かないので判定し直さない
+      if (mochi.isFrozen) continue
 
       const below = this.findMochiBelow(mochi)
 
@@ -117,9 +157,8 @@ export class MochiManager {
 
     for (const candidate of this.mochiList) {
       if (candidate === target) continue
-      if (candidate.topY >= target.bottomY) continue
-
       const heightDiff = target.bottomY - candidate.topY
+      if (heightDiff < -this.STACK_PENETRATION_TOLERANCE) continue
       if (heightDiff > this.STACK_HEIGHT_THRESHOLD) continue
 
       const dx = targetPos.x - candidate.position.x
@@ -139,7 +178,7 @@ export class MochiManager {
 
   /**
    * 地面または台座の上にあるか
-   * DAI_SURFACE_Y = -1.5 付近
+   * 床(-2)から一番高い台座（杭）の上面(-1)までを含む
    */
   private isOnGround(mochi: MochiObject): boolean {
     return mochi.bottomY < 0 && mochi.bottomY > -3
@@ -157,6 +196,37 @@ export class MochiManager {
     return Math.max(...stacked.map((m) => m.topY))
   }
 
+  // --- Stability ---
+  /**
+   * 積み上げの安定性を解析（各餅より上の塔の重心と支持面を比較）
+   * @param groundSupport 台座の上面（動く台用。省略時は固定位置）
+   */
+  analyzeStability(groundSupport?: SupportFootprint): StabilityReport {
+    return this.stabilityAnalyzer.analyze(this.mochiList, groundSupport)
+  }
+
+  // --- Freezing ---
+  /**
+   * 最上段から一定段数より下で静止している餅を固定する
+   * 高い塔でも計算量が段数に比例して増えないようにする
+   * @param keepActiveTiers 上から何段を動かせるまま残すか
+   * @returns 新たに固定した数
+   */
+  freezeSettledTiers(keepActiveTiers: number): number {
+    const settled = this.mochiList
+      .filter((m) => m.state !== 'flying')
+      .sort((a, b) => b.height - a.height)
+
+    let frozen = 0
+    for (const mochi of settled.slice(keepActiveTiers)) {
+      if (mochi.isFrozen) continue
+      if (!mochi.isSleeping && mochi.getSpeed() > FREEZE_SPEED_THRESHOLD) continue
+      mochi.freeze()
+      frozen++
+    }
+    return frozen
+  }
+
   // --- Collapse Detection ---
   /**
    * 崩壊を検出（エンドレスモード用 - 旧方式）
@@ -218,24 +288,24 @@ export class MochiManager {
   /**
    * 台から外れた餅を検出（エンドレスモード用）
    * - 地面に到達した餅
-   * - 台座から大きく離れた餅
+   * - 台座に直に載っているはずの高さで、上の塔ごとの重心が上面の外に出た餅（安定性解析）
    * - 宙ぶらりん状態（どこにも載っていない）の餅
-   * @param daiPosition 台座の中心座標
+   * @param dai 台座の上面（支持面と高さの基準。台座の種類で変わる）
    * @param options 検出オプション
    * @returns 台から外れた餅があればその餅を返す、なければnull
    */
   detectFallenFromDai(
-    daiPosition: { x: number; z: number } = { x: 0, z: 0 },
+    dai: PedestalSurface = DEFAULT_DAI_SURFACE,
     options: {
       groundY?: number // 地面Y座標（デフォルト: -2）
-      maxDistFromDai?: number // 台座からの最大許容距離（デフォルト: 2.5）
-      minHeightForDist?: number // 距離判定時の最低高さ（デフォルト: -1.4）
+      minSupportMargin?: number // 台座上面に対する安定余裕の下限（デフォルト: 0 = 重心が縁の外）
+      minHeightForDist?: number // 支持面判定時の最低高さ（デフォルト: 上面+0.1）
     } = {}
   ): MochiObject | null {
     const {
       groundY = -2,
-      maxDistFromDai = 2.5,
-      minHeightForDist = -1.4
+      minSupportMargin = 0,
+      minHeightForDist = dai.y + 0.1
     } = options
 
     for (const mochi of this.mochiList) {
@@ -247,24 +317,87 @@ export class MochiManager {
         return mochi
       }
 
-      // 条件2: 台座から大きく離れた（横に落ちた）
-      const distFromDai = Math.sqrt(
-        (mochi.position.x - daiPosition.x) ** 2 +
-          (mochi.position.z - daiPosition.z) ** 2
-      )
-      if (distFromDai > maxDistFromDai && mochi.bottomY < minHeightForDist) {
+      // 条件2: 台座の高さにあるのに重心が上面の外（横に落ちた・落ちかけている）
+      if (
+        !mochi.stackedOn &&
+        mochi.bottomY < minHeightForDist &&
+        this.stabilityAnalyzer.analyzeMochi(mochi, dai).margin < minSupportMargin
+      ) {
         return mochi
       }
 
       // 条件3: 宙ぶらりん状態で低い位置にある
       // (台座にも他の餅にも載っていない & 台座上面より下)
-      if (mochi.state === 'fallen' && mochi.bottomY < -1.5) {
+      if (mochi.state === 'fallen' && mochi.bottomY < dai.y) {
         return mochi
       }
     }
     return null
   }
 
+  // --- Fracture ---
+  /**
+   * 餅にひびを入れる（割れない種類・既にひびがあるものは何もしない）
+   * @returns 新しくひびが入ったらtrue
+   */
+  crack(mochi: MochiObject): boolean {
+    if (mochi.config.crackSpeed === undefined) return false
+    return mochi.crack()
+  }
+
+  /**
+   * 餅を割って破片に置き換える
+   * - 破片は割れ目に沿って横一列に並べ、元の速度・回転を引き継いで少し離れる
+   * - 元の餅はプールに戻す
+   * @param axis 破片を並べる水平方向（単位ベクトル）
+   * @returns 生成した破片
+   */
+  shatter(mochi: MochiObject, count: number, axis: THREE.Vector3): MochiObject[] {
+    const fragmentConfig = getFragmentConfig(mochi.config, count)
+    const spacing = fragmentConfig.radius * 2 * FRAGMENT_GAP_RATIO
+    const { velocity, angularVelocity, quaternion } = mochi.body
+    const center = mochi.position
+
+    const fragments: MochiObject[] = []
+    for (let i = 0; i < count; i++) {
+      const side = i - (count - 1) / 2
+      const position = center.clone().addScaledVector(axis, side * spacing)
+      const fragment = this.createMochiWithConfig(fragmentConfig, position)
+      fragment.body.quaternion.copy(quaternion)
+      fragment.body.velocity.set(
+        velocity.x + axis.x * side * FRAGMENT_SPREAD_SPEED,
+        velocity.y,
+        velocity.z + axis.z * side * FRAGMENT_SPREAD_SPEED
+      )
+      fragment.body.angularVelocity.copy(angularVelocity)
+      fragment.markAsFragment(mochi.id)
+      fragment.setState(mochi.state === 'flying' ? 'landing' : mochi.state)
+      fragments.push(fragment)
+    }
+
+    this.removeMochi(mochi)
+    return fragments
+  }
+
+  /**
+   * ある餅が割れてできた破片
+   */
+  getFragments(parentId: string): MochiObject[] {
+    return this.mochiList.filter((m) => m.fragmentOf === parentId)
+  }
+
+  // --- Physics Quality ---
+  /**
+   * 以降に生成する餅の当たり判定品質を設定
+   */
+  setPhysicsQuality(quality: PhysicsQuality): void {
+    this.physicsQuality = quality
+  }
+
+  getPhysicsQuality(): PhysicsQuality {
+    return this.physicsQuality
+  }
+
   // --- Game Mode ---
   setGameMode(mode: GameMode): void {
     this.gameMode = mode
@@ -278,16 +411,19 @@ export class MochiManager {
   removeMochi(mochi: MochiObject): void {
     const index = this.mochiList.indexOf(mochi)
     if (index !== -1) {
-      mochi.dispose(this.world, this.scene)
+      this.pool.release(mochi)
       this.mochiList.splice(index, 1)
+      this.mochiByBody.delete(mochi.body)
     }
   }
 
   clear(): void {
     for (const mochi of [...this.mochiList]) {
-      mochi.dispose(this.world, this.scene)
+      this.pool.release(mochi)
     }
     this.mochiList = []
+    this.mochiByBody.clear()
+    this.nextMochiIndex = 0
   }
 
   dispose(): void {
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { MochiObject, createMochiHullShape } from './MochiObject'
+import { MOCHI_CONFIGS } from './MochiRegistry'
+import { PHYSICS_QUALITY_SETTINGS } from '../types/quality'
+
+const material = new CANNON.Material('mochi')
+const origin = new THREE.Vector3(0, 0, 0)
+
+describe('createMochiHullShape', () => {
+  const { radius, height } = MOCHI_CONFIGS.base
+
+  for (const quality of ['medium', 'high'] as const) {
+    describe(quality, () => {
+      const shape = createMochiHullShape(radius, height, PHYSICS_QUALITY_SETTINGS[quality])
+
+      it('is convex with outward facing normals', () => {
+        shape.faces.forEach((face, i) => {
+          const normal = shape.faceNormals[i]!
+          const pointOnFace = shape.vertices[face[0]]
+          for (const vertex of shape.vertices) {
+            expect(vertex.vsub(pointOnFace).dot(normal)).toBeLessThan(1e-6)
+          }
+        })
+      })
+
+      it('spans the same height as the rendered mochi', () => {
+        const ys = shape.vertices.map((v) => v.y)
+        expect(Math.min(...ys)).toBeCloseTo(-height / 2)
+        expect(Math.max(...ys)).toBeCloseTo(height / 2)
+      })
+
+      it('keeps a flat bottom to rest on', () => {
+        const bottom = shape.vertices.filter((v) => Math.abs(v.y + height / 2) < 1e-6)
+        const bottomRadius = Math.max(...bottom.map((v) => Math.hypot(v.x, v.z)))
+        expect(bottomRadius).toBeGreaterThan(radius * 0.9)
+      })
+
+      it('stays within the bulging side radius', () => {
+        for (const v of shape.vertices) {
+          expect(Math.hypot(v.x, v.z)).toBeLessThanOrEqual(radius * 1.02 + 1e-6)
+        }
+      })
+    })
+  }
+
+  it('uses fewer faces at medium quality than at high quality', () => {
+    const medium = createMochiHullShape(radius, height, PHYSICS_QUALITY_SETTINGS.medium)
+    const high = createMochiHullShape(radius, height, PHYSICS_QUALITY_SETTINGS.high)
+    expect(medium.faces.length).toBeLessThan(high.faces.length)
+  })
+})
+
+describe('MochiObject physics shape', () => {
+  it('uses the legacy cylinder at low quality', () => {
+    const mochi = new MochiObject(MOCHI_CONFIGS.base, material, origin, { physicsQuality: 'low' })
+    expect(mochi.body.shapes[0]).toBeInstanceOf(CANNON.Cylinder)
+  })
+
+  it('uses the profile hull at medium quality', () => {
+    const mochi = new MochiObject(MOCHI_CONFIGS.top, material, origin, { physicsQuality: 'medium' })
+    const shape = mochi.body.shapes[0]
+    expect(shape).toBeInstanceOf(CANNON.ConvexPolyhedron)
+    expect(shape).not.toBeInstanceOf(CANNON.Cylinder)
+  })
+
+  it('keeps a sphere for mikan regardless of quality', () => {
+    const mochi = new MochiObject(MOCHI_CONFIGS.mikan, material, origin, { physicsQuality: 'high' })
+    expect(mochi.body.shapes[0]).toBeInstanceOf(CANNON.Sphere)
+  })
+})
@@ -1,59 +1,135 @@
 import * as THREE from 'three'
 import * as CANNON from 'cannon-es'
-
-export type MochiType = 'base' | 'top' | 'mikan'
+import {
+  type PhysicsQuality,
+  type PhysicsQualitySettings,
+  PHYSICS_QUALITY_SETTINGS,
+  DEFAULT_PHYSICS_QUALITY
+} from '../types/quality'
+import { SoftBodyDeformer } from './SoftBodyDeformer'
+import { createCrackTexture } from './CrackTexture'
+
+/** 組み込みのアイテム */
+export type BuiltinMochiType =
+  | 'base'
+  | 'top'
+  | 'mikan'
+  | 'daidai'
+  | 'kushigaki'
+  | 'konbu'
+  | 'urajiro'
+
+/** 積めるアイテムの種類（MochiRegistryに登録されたID） */
+export type MochiType = BuiltinMochiType | (string & {})
 
 /**
  * 餅の状態
  */
 export type MochiState = 'flying' | 'landing' | 'stacked' | 'fallen'
 
+/**
+ * 割れ具合（ひび割れ）
+ * - intact: 無傷
+ * - cracked: 強い衝撃でひびが入った
+ * - fragment: ひびの入った餅がもう一度強くぶつかって割れた破片
+ */
+export type MochiIntegrity = 'intact' | 'cracked' | 'fragment'
+
+/**
+ * くっつきの硬化設定（接触が続くほど強くなる）
+ */
+export type AdhesionCuring = {
+  /** 最大強度に達するまでの時間（秒） */
+  readonly duration: number
+  /** 硬化しきったときのバネ強さの倍率 */
+  readonly stiffnessMultiplier: number
+  /** 硬化しきったときの離脱速度の倍率 */
+  readonly breakVelocityMultiplier: number
+}
+
+/**
+ * くっつき（粘着）の設定
+ * 上に載った側のプロファイルで接続を作る
+ */
+export type AdhesionProfile = {
+  /** バネの強さ */
+  readonly stiffness: number
+  /** 減衰 */
+  readonly damping: number
+  /** 静止時の距離 */
+  readonly restLength: number
+  /** この相対速度（上向き）を超えると離れる */
+  readonly breakVelocity: number
+  /** 最低接触時間（秒）。これより前は離れない */
+  readonly minContactTime: number
+  /** この距離を超えると離れる */
+  readonly maxDistance: number
+  /** 硬化（未指定なら強さは一定） */
+  readonly curing?: AdhesionCuring
+}
+
+/**
+ * 得点計算での役割
+ * - foundation: 台座に載せる土台（通常モードではターゲットで採点）
+ * - tier: 土台の上に重ねる段
+ * - crown: 頂上に載せる飾り（みかん・橙）
+ * - ornament: 間に挟む飾り（通常モードでは採点しない）
+ */
+export type ScoringRole = 'foundation' | 'tier' | 'crown' | 'ornament'
+
+/** 描画ジオメトリの生成（プールで設定ごとに1回だけ呼ばれる） */
+export type MochiGeometryBuilder = (config: MochiConfig) => THREE.BufferGeometry
+
+/** 当たり判定形状の生成（品質設定に応じて作り分けてよい） */
+export type MochiShapeBuilder = (
+  config: MochiConfig,
+  settings: PhysicsQualitySettings
+) => CANNON.Shape
+
 /**
  * 餅の構成パラメータ（不変）
+ * 新しいアイテムはこの形で宣言してMochiRegistryに登録する
  */
 export type MochiConfig = {
   readonly type: MochiType
   readonly displayName: string
+  /** 水平方向の半径（積み上げ判定・安定性解析に使う） */
   readonly radius: number
+  /** 高さ（上面・底面の位置に使う） */
   readonly height: number
   readonly mass: number
   readonly color: number
   readonly roughness: number
+  readonly metalness?: number
+  readonly adhesion: AdhesionProfile
+  readonly scoringRole: ScoringRole
+  /** スカッシュ＆ストレッチで変形するか */
+  readonly deformable: boolean
+  /** この相対速度（m/s）を超える衝突でひびが入り、ひびがあれば割れる（未指定は割れない） */
+  readonly crackSpeed?: number
+  readonly geometry: MochiGeometryBuilder
+  readonly shape: MochiShapeBuilder
 }
 
 /**
- * 餅の定義データ
+ * 餅オブジェクトの生成オプション
  */
-export const MOCHI_CONFIGS: Record<MochiType, MochiConfig> = {
-  base: {
-    type: 'base',
-    displayName: 'ベース餅',
-    radius: 1.5,
-    height: 0.75,
-    mass: 3,
-    color: 0xfff8e7,
-    roughness: 0.9
-  },
-  top: {
-    type: 'top',
-    displayName: '上餅',
-    radius: 1.1,
-    height: 0.55,
-    mass: 2,
-    color: 0xfff8e7,
-    roughness: 0.9
-  },
-  mikan: {
-    type: 'mikan',
-    displayName: 'みかん',
-    radius: 0.5,
-    height: 0.5, // 球体なのでradiusと同じ
-    mass: 0.5,
-    color: 0xff8c00,
-    roughness: 0.8
-  }
+export type MochiObjectOptions = {
+  /** 識別子（未指定時は生成順の連番） */
+  readonly id?: string
+  /** 生成時刻（シミュレーション時間・秒） */
+  readonly createdAt?: number
+  /** 当たり判定の品質（未指定時はDEFAULT_PHYSICS_QUALITY） */
+  readonly physicsQuality?: PhysicsQuality
+  /** 共有ジオメトリ（指定時はdisposeで破棄しない） */
+  readonly geometry?: THREE.BufferGeometry
+  /** 共有マテリアル（指定時はdisposeで破棄しない） */
+  readonly material?: THREE.MeshStandardMaterial
 }
 
+// ID未指定時の連番（Date.now/Math.randomに依存しない）
+let autoIdCounter = 0
+
 type MochiProfile = { r: number; y: number }[]
 
 /**
@@ -120,35 +196,213 @@ export const createMochiGeometry = (
   return new THREE.LatheGeometry(points, 32)
 }
 
+/**
+ * 設定に応じたマテリアルを生成
+ */
+export const createMochiMaterial = (config: MochiConfig): THREE.MeshStandardMaterial => {
+  return new THREE.MeshStandardMaterial({
+    color: config.color,
+    roughness: config.roughness,
+    metalness: config.metalness ?? 0.0,
+    side: THREE.DoubleSide
+  })
+}
+
+/** 同一点・同一平面とみなす許容値 */
+const HULL_EPSILON = 1e-6
+
+/**
+ * プロファイルの凸な外周だけを残す（下から上へ、軸上の点を含む）
+ * 回転させたときに凸多面体になるよう、凹んだ点を取り除く
+ */
+const toConvexProfile = (profile: MochiProfile): MochiProfile => {
+  const hull: MochiProfile = []
+  for (const p of profile) {
+    while (hull.length >= 2) {
+      const o = hull[hull.length - 2]
+      const a = hull[hull.length - 1]
+      const cross = (a.r - o.r) * (p.y - o.y) - (a.y - o.y) * (p.r - o.r)
+      if (cross > HULL_EPSILON) break
+      hull.pop()
+    }
+    hull.push(p)
+  }
+  return hull
+}
+
+/**
+ * 形状への影響が許容誤差未満の点を間引く（面数を減らして衝突判定を軽くする）
+ * 凸な断面から点を除いても凸のまま。底面の縁は平らな接地面を保つため残す
+ */
+const simplifyProfile = (profile: MochiProfile, tolerance: number): MochiProfile => {
+  const points = [...profile]
+  const deviation = (i: number) => {
+    const a = points[i - 1]
+    const p = points[i]
+    const b = points[i + 1]
+    const dr = b.r - a.r
+    const dy = b.y - a.y
+    const length = Math.hypot(dr, dy)
+    return Math.abs(dr * (a.y - p.y) - dy * (a.r - p.r)) / length
+  }
+
+  while (points.length > 3) {
+    let minIndex = -1
+    let minDeviation = tolerance
+    for (let i = 2; i < points.length - 1; i++) {
+      const d = deviation(i)
+      if (d < minDeviation) {
+        minDeviation = d
+        minIndex = i
+      }
+    }
+    if (minIndex === -1) break
+    points.splice(minIndex, 1)
+  }
+  return points
+}
+
+/**
+ * 餅の凸包形状を生成（描画メッシュと同じプロファイルを回転させる）
+ * 面は外側から見て反時計回り（cannon-esの法線規約）
+ */
+export const createMochiHullShape = (
+  radius: number,
+  height: number,
+  settings: Pick<PhysicsQualitySettings, 'radialSegments' | 'profileSegments' | 'profileTolerance'>
+): CANNON.ConvexPolyhedron => {
+  const { radialSegments } = settings
+  const profile = simplifyProfile(
+    toConvexProfile(getMochiProfile(radius, height, settings.profileSegments)),
+    settings.profileTolerance
+  )
+
+  const vertices: CANNON.Vec3[] = []
+  const faces: number[][] = []
+
+  // 軸上の点は極（1頂点）、それ以外は周方向のリング
+  const first = profile[0]
+  const last = profile[profile.length - 1]
+  const rings = profile.filter((p) => p.r > HULL_EPSILON)
+
+  const ringStarts = rings.map((p) => {
+    const start = vertices.length
+    for (let j = 0; j < radialSegments; j++) {
+      const theta = (j / radialSegments) * Math.PI * 2
+      vertices.push(new CANNON.Vec3(p.r * Math.cos(theta), p.y, p.r * Math.sin(theta)))
+    }
+    return start
+  })
+  const ringIndex = (ring: number, j: number) => ringStarts[ring] + (j % radialSegments)
+
+  // 底面: 平らなら多角形1枚、尖っていれば扇形
+  const bottomRing = rings[0]
+  if (first.r <= HULL_EPSILON && Math.abs(bottomRing.y - first.y) > HULL_EPSILON) {
+    const pole = vertices.push(new CANNON.Vec3(0, first.y, 0)) - 1
+    for (let j = 0; j < radialSegments; j++) {
+      faces.push([pole, ringIndex(0, j), ringIndex(0, j + 1)])
+    }
+  } else {
+    faces.push(Array.from({ length: radialSegments }, (_, j) => ringIndex(0, j)))
+  }
+
+  // 側面
+  for (let k = 0; k < rings.length - 1; k++) {
+    for (let j = 0; j < radialSegments; j++) {
+      faces.push([
+        ringIndex(k, j),
+        ringIndex(k + 1, j),
+        ringIndex(k + 1, j + 1),
+        ringIndex(k, j + 1)
+      ])
+    }
+  }
+
+  // 上面
+  const topIndex = rings.length - 1
+  const topRing = rings[topIndex]
+  if (last.r <= HULL_EPSILON && Math.abs(last.y - topRing.y) > HULL_EPSILON) {
+    const pole = vertices.push(new CANNON.Vec3(0, last.y, 0)) - 1
+    for (let j = 0; j < radialSegments; j++) {
+      faces.push([pole, ringIndex(topIndex, j + 1), ringIndex(topIndex, j)])
+    }
+  } else {
+    faces.push(
+      Array.from({ length: radialSegments }, (_, j) => ringIndex(topIndex, radialSegments - j))
+    )
+  }
+
+  const shape = new CANNON.ConvexPolyhedron({ vertices, faces })
+
+  // cannon-esは逆向きの辺を別の軸として残すため、分離軸の判定が倍になる。片方だけ残す
+  shape.uniqueEdges = shape.uniqueEdges.filter(
+    (edge, i, edges) => !edges.slice(0, i).some((other) => other.almostEquals(edge.negate()))
+  )
+  return shape
+}
+
+/**
+ * 餅の当たり判定（品質に応じて凸包か円柱）
+ */
+export const createMochiBodyShape: MochiShapeBuilder = (config, settings) => {
+  if (settings.shape === 'hull') {
+    return createMochiHullShape(config.radius, config.height, settings)
+  }
+
+  // 低品質: 上面を少しすぼめた円柱で近似
+  const topRadius = config.radius * 0.85
+  return new CANNON.Cylinder(topRadius, config.radius, config.height, settings.radialSegments)
+}
+
 /**
  * 餅オブジェクトクラス
  * Three.jsのMeshとCannon-esのBodyを統合管理
  */
 export class MochiObject {
-  public readonly id: string
   public readonly config: MochiConfig
   public readonly mesh: THREE.Mesh
   public readonly body: CANNON.Body
 
+  private _id: string
   private _state: MochiState = 'flying'
   private _stackedOn: MochiObject | null = null
   private _stackedBy: MochiObject[] = []
   private _createdAt: number
+  public readonly physicsQuality: PhysicsQuality
+  private readonly deformer: SoftBodyDeformer | null
+  private _isFrozen = false
+  private _integrity: MochiIntegrity = 'intact'
+  private _fragmentOf: string | null = null
+  /** 共有マテリアル（透明度を変えるまではこれを使う） */
+  private readonly sharedMaterial: THREE.MeshStandardMaterial | null
+  private readonly ownsGeometry: boolean
 
   constructor(
     config: MochiConfig,
     material: CANNON.Material,
-    initialPosition: THREE.Vector3
+    initialPosition: THREE.Vector3,
+    options: MochiObjectOptions = {}
   ) {
-    this.id = `mochi_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+    this._id = options.id ?? `mochi_auto_${++autoIdCounter}`
     this.config = config
-    this._createdAt = Date.now()
-
-    this.mesh = this.createMesh(initialPosition)
+    this._createdAt = options.createdAt ?? 0
+    this.physicsQuality = options.physicsQuality ?? DEFAULT_PHYSICS_QUALITY
+    this.deformer = this.createDeformer()
+    this.sharedMaterial = options.material ?? null
+    this.ownsGeometry = !options.geometry
+
+    this.mesh = this.createMesh(
+      initialPosition,
+      options.geometry ?? config.geometry(config),
+      options.material ?? createMochiMaterial(config)
+    )
     this.body = this.createBody(material, initialPosition)
   }
 
   // --- Getters ---
+  get id(): string {
+    return this._id
+  }
   get state(): MochiState {
     return this._state
   }
@@ -180,6 +434,21 @@ export class MochiObject {
   get createdAt(): number {
     return this._createdAt
   }
+  /** 固定済み（静的ボディ化）か */
+  get isFrozen(): boolean {
+    return this._isFrozen
+  }
+  get integrity(): MochiIntegrity {
+    return this._integrity
+  }
+  /** 破片なら割れる前の餅のID */
+  get fragmentOf(): string | null {
+    return this._fragmentOf
+  }
+  /** 物理ボディが眠っているか */
+  get isSleeping(): boolean {
+    return this.body.sleepState === CANNON.Body.SLEEPING
+  }
 
   // --- State Management ---
   setState(state: MochiState): void {
@@ -210,8 +479,55 @@ export class MochiObject {
     }
   }
 
+  /**
+   * 静的ボディにして物理計算から外す（高い塔の下段用）
+   * 以降は動かず、衝突相手としてだけ働く
+   */
+  freeze(): void {
+    if (this._isFrozen) return
+    this._isFrozen = true
+    this.body.velocity.setZero()
+    this.body.angularVelocity.setZero()
+    this.body.type = CANNON.Body.STATIC
+    this.body.mass = 0
+    this.body.updateMassProperties()
+  }
+
+  // --- Fracture ---
+  /**
+   * ひびを入れる（見た目にひびのテクスチャを貼る）
+   * @returns 新しくひびが入ったらtrue
+   */
+  crack(): boolean {
+    if (this._integrity !== 'intact') return false
+    this._integrity = 'cracked'
+    this.applyCrackTexture()
+    return true
+  }
+
+  /**
+   * 割れた餅の破片にする
+   * @param parentId 割れる前の餅のID
+   */
+  markAsFragment(parentId: string): void {
+    this._integrity = 'fragment'
+    this._fragmentOf = parentId
+    this.applyCrackTexture()
+  }
+
+  private applyCrackTexture(): void {
+    const material = this.getOwnMaterial()
+    material.map?.dispose()
+    material.map = createCrackTexture(this._id)
+    material.needsUpdate = true
+  }
+
   // --- Sync ---
-  syncMeshWithBody(): void {
+  /**
+   * メッシュを物理ボディに合わせる（変形は見た目だけに掛ける）
+   * @param delta フレーム経過時間（秒）。変形の揺れを進めるのに使う
+   */
+  syncMeshWithBody(delta: number = 0): void {
     this.mesh.position.set(
       this.body.position.x,
       this.body.position.y,
@@ -223,6 +539,22 @@ export class MochiObject {
       this.body.quaternion.z,
       this.body.quaternion.w
     )
+
+    if (this.deformer) {
+      this.deformer.setLoad(this.getLoadMass() / this.config.mass)
+      this.deformer.update(delta)
+      this.deformer.apply(this.mesh)
+    }
+  }
+
+  /**
+   * 上に積まれている餅の合計質量
+   */
+  private getLoadMass(): number {
+    return this._stackedBy.reduce(
+      (sum, mochi) => sum + mochi.config.mass + mochi.getLoadMass(),
+      0
+    )
   }
 
   // --- Velocity ---
@@ -246,12 +578,25 @@ export class MochiObject {
   // --- Opacity Control ---
   /**
    * 透明度を設定（ResultScene用）
+   * 共有マテリアルを使っている場合は、この餅専用に複製してから変える
    */
   setOpacity(opacity: number): void {
-    if (this.mesh.material instanceof THREE.MeshStandardMaterial) {
-      this.mesh.material.transparent = opacity < 1
-      this.mesh.material.opacity = opacity
+    if (this.mesh.material === this.sharedMaterial && opacity === this.sharedMaterial.opacity) {
+      return
     }
+    const material = this.getOwnMaterial()
+    material.transparent = opacity < 1
+    material.opacity = opacity
+  }
+
+  /**
+   * この餅専用のマテリアル（共有マテリアルなら複製して差し替える）
+   */
+  private getOwnMaterial(): THREE.MeshStandardMaterial {
+    if (this.sharedMaterial && this.mesh.material === this.sharedMaterial) {
+      this.mesh.material = this.sharedMaterial.clone()
+    }
+    return this.mesh.material as THREE.MeshStandardMaterial
   }
 
   /**
@@ -273,9 +618,11 @@ export class MochiObject {
   }
 
   // --- Creation (Private) ---
-  private createMesh(position: THREE.Vector3): THREE.Mesh {
-    const geometry = this.createGeometry()
-    const material = this.createMaterial()
+  private createMesh(
+    position: THREE.Vector3,
+    geometry: THREE.BufferGeometry,
+    material: THREE.MeshStandardMaterial
+  ): THREE.Mesh {
     const mesh = new THREE.Mesh(geometry, material)
     mesh.castShadow = true
     mesh.receiveShadow = true
@@ -284,20 +631,10 @@ export class MochiObject {
     return mesh
   }
 
-  private createGeometry(): THREE.BufferGeometry {
-    if (this.config.type === 'mikan') {
-      return new THREE.SphereGeometry(this.config.radius, 32, 24)
-    }
-    return createMochiGeometry(this.config.radius, this.config.height)
-  }
-
-  private createMaterial(): THREE.MeshStandardMaterial {
-    return new THREE.MeshStandardMaterial({
-      color: this.config.color,
-      roughness: this.config.roughness,
-      metalness: 0.0,
-      side: THREE.DoubleSide
-    })
+  private createDeformer(): SoftBodyDeformer | null {
+    if (!this.config.deformable) return null
+    if (!PHYSICS_QUALITY_SETTINGS[this.physicsQuality].softBody) return null
+    return new SoftBodyDeformer(this.config.height)
   }
 
   private createBody(
@@ -309,26 +646,27 @@ export class MochiObject {
       mass: this.config.mass,
       material,
       linearDamping: 0.4,
-      angularDamping: 0.6
+      angularDamping: 0.6,
+      // 着地後に静止したら眠らせる
+      sleepSpeedLimit: 0.15,
+      sleepTimeLimit: 0.5
     })
     body.addShape(shape)
     body.position.set(position.x, position.y, position.z)
     ;(body as CANNON.Body & { userData?: { mochiObject: MochiObject } }).userData =
       { mochiObject: this }
+
+    // 衝突の強さで潰れる
+    if (this.deformer) {
+      body.addEventListener('collide', (event: { contact: CANNON.ContactEquation }) => {
+        this.deformer?.impact(Math.abs(event.contact.getImpactVelocityAlongNormal()))
+      })
+    }
     return body
   }
 
   private createPhysicsShape(): CANNON.Shape {
-    if (this.config.type === 'mikan') {
-      return new CANNON.Sphere(this.config.radius)
-    }
-    const topRadius = this.config.radius * 0.85
-    return new CANNON.Cylinder(
-      topRadius,
-      this.config.radius,
-      this.config.height,
-      12
-    )
+    return this.config.shape(this.config, PHYSICS_QUALITY_SETTINGS[this.physicsQuality])
   }
 
   // --- Scene Management ---
@@ -348,20 +686,109 @@ export class MochiObject {
     world.removeBody(this.body)
   }
 
-  // --- Cleanup ---
-  dispose(world: CANNON.World, scene: THREE.Scene): void {
-    this.removeFromWorld(world)
-    this.removeFromScene(scene)
-    this.mesh.geometry.dispose()
-    if (this.mesh.material instanceof THREE.Material) {
+  // --- Pooling ---
+  /**
+   * 再利用のため生成直後の状態に戻す（MochiPool用）
+   * 物理マテリアルはワールドごとに違うので付け替える
+   */
+  reset(
+    material: CANNON.Material,
+    position: THREE.Vector3,
+    options: Pick<MochiObjectOptions, 'id' | 'createdAt'> = {}
+  ): void {
+    this._id = options.id ?? `mochi_auto_${++autoIdCounter}`
+    this._createdAt = options.createdAt ?? 0
+    this._state = 'flying'
+    this._integrity = 'intact'
+    this._fragmentOf = null
+    this.unlinkStack()
+    this.restoreMaterial()
+    this.deformer?.reset()
+
+    const body = this.body
+    if (this._isFrozen) {
+      this._isFrozen = false
+      body.type = CANNON.Body.DYNAMIC
+      body.mass = this.config.mass
+      body.updateMassProperties()
+    }
+    body.material = material
+    body.position.set(position.x, position.y, position.z)
+    body.previousPosition.copy(body.position)
+    body.interpolatedPosition.copy(body.position)
+    body.initPosition.copy(body.position)
+    body.quaternion.set(0, 0, 0, 1)
+    body.previousQuaternion.copy(body.quaternion)
+    body.interpolatedQuaternion.copy(body.quaternion)
+    body.initQuaternion.copy(body.quaternion)
+    body.velocity.setZero()
+    body.angularVelocity.setZero()
+    body.force.setZero()
+    body.torque.setZero()
+    body.wakeUp()
+    body.timeLastSleepy = 0
+    body.aabbNeedsUpdate = true
+    body.updateInertiaWorld(true)
+
+    this.mesh.position.copy(position)
+    this.mesh.quaternion.identity()
+    this.mesh.scale.set(1, 1, 1)
+  }
+
+  /**
+   * ワールド・シーンから外し、積み上げ関係を切る（リソースは残す）
+   */
+  detach(): void {
+    this.body.world?.removeBody(this.body)
+    this.mesh.removeFromParent()
+    this.unlinkStack()
+  }
+
+  /**
+   * 透明度変更・ひびで複製したマテリアルを捨て、共有マテリアルに戻す
+   */
+  private restoreMaterial(): void {
+    if (!this.sharedMaterial || this.mesh.material === this.sharedMaterial) return
+    if (this.mesh.material instanceof THREE.MeshStandardMaterial) {
+      this.mesh.material.map?.dispose()
       this.mesh.material.dispose()
     }
+    this.mesh.material = this.sharedMaterial
+  }
+
+  private unlinkStack(): void {
     if (this._stackedOn) {
       this._stackedOn._removeStackedBy(this)
+      this._stackedOn = null
     }
     this._stackedBy.forEach((mochi) => {
       mochi._stackedOn = null
     })
     this._stackedBy = []
   }
+
+  // --- Cleanup ---
+  /**
+   * 破棄する（共有ジオメトリ・マテリアルは残す）
+   */
+  dispose(world: CANNON.World, scene: THREE.Scene): void {
+    this.removeFromWorld(world)
+    this.removeFromScene(scene)
+    this.disposeResources()
+    this.unlinkStack()
+  }
+
+  /**
+   * この餅専用のジオメトリ・マテリアルだけを破棄する
+   */
+  disposeResources(): void {
+    if (this.ownsGeometry) {
+      this.mesh.geometry.dispose()
+    }
+    this.restoreMaterial()
+    if (!this.sharedMaterial && this.mesh.material instanceof THREE.MeshStandardMaterial) {
+      this.mesh.material.map?.dispose()
+      this.mesh.material.dispose()
+    }
+  }
 }
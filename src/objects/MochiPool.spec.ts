@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import type { BuiltinMochiType } from './MochiObject'
+import { MOCHI_CONFIGS } from './MochiRegistry'
+import { MochiPool } from './MochiPool'
+
+const material = new CANNON.Material('mochi')
+const origin = new THREE.Vector3(0, 0, 0)
+const TYPES: BuiltinMochiType[] = ['base', 'top', 'mikan']
+
+describe('MochiPool', () => {
+  it('shares geometry and material per config', () => {
+    const pool = new MochiPool()
+    const a = pool.acquire(MOCHI_CONFIGS.base, material, origin)
+    const b = pool.acquire(MOCHI_CONFIGS.base, material, origin)
+    const c = pool.acquire(MOCHI_CONFIGS.top, material, origin)
+
+    expect(a.mesh.geometry).toBe(b.mesh.geometry)
+    expect(a.mesh.material).toBe(b.mesh.material)
+    expect(c.mesh.geometry).not.toBe(a.mesh.geometry)
+    expect(pool.getStats().geometriesCreated).toBe(2)
+  })
+
+  it('keeps allocation flat over repeated 100-mochi runs', () => {
+    const pool = new MochiPool()
+    const world = new CANNON.World()
+
+    for (let run = 0; run < 3; run++) {
+      const mochi = Array.from({ length: 100 }, (_, i) => {
+        const m = pool.acquire(MOCHI_CONFIGS[TYPES[i % TYPES.length]], material, origin)
+        world.addBody(m.body)
+        return m
+      })
+      mochi.forEach((m) => pool.release(m))
+    }
+
+    const stats = pool.getStats()
+    expect(stats.geometriesCreated).toBe(3)
+    expect(stats.materialsCreated).toBe(3)
+    expect(stats.mochiCreated).toBe(100)
+    expect(stats.acquired).toBe(300)
+    expect(stats.reused).toBe(200)
+    expect(world.bodies).toHaveLength(0)
+  })
+
+  it('resets recycled mochi to a fresh dynamic state', () => {
+    const pool = new MochiPool()
+    const mochi = pool.acquire(MOCHI_CONFIGS.top, material, origin, { id: 'first' })
+    mochi.setState('stacked')
+    mochi.setVelocity(new THREE.Vector3(1, 2, 3))
+    mochi.freeze()
+    mochi.setOpacity(0.5)
+    pool.release(mochi)
+
+    const otherMaterial = new CANNON.Material('other')
+    const position = new THREE.Vector3(1, 5, -2)
+    const recycled = pool.acquire(MOCHI_CONFIGS.top, otherMaterial, position, { id: 'second' })
+
+    expect(recycled).toBe(mochi)
+    expect(recycled.id).toBe('second')
+    expect(recycled.state).toBe('flying')
+    expect(recycled.isFrozen).toBe(false)
+    expect(recycled.body.type).toBe(CANNON.Body.DYNAMIC)
+    expect(recycled.body.mass).toBe(MOCHI_CONFIGS.top.mass)
+    expect(recycled.body.material).toBe(otherMaterial)
+    expect(recycled.getSpeed()).toBe(0)
+    expect(recycled.position.toArray()).toEqual(position.toArray())
+    expect(recycled.getOpacity()).toBe(1)
+  })
+
+  it('does not recycle across physics qualities', () => {
+    const pool = new MochiPool()
+    const low = pool.acquire(MOCHI_CONFIGS.base, material, origin, { physicsQuality: 'low' })
+    pool.release(low)
+
+    const medium = pool.acquire(MOCHI_CONFIGS.base, material, origin, { physicsQuality: 'medium' })
+    expect(medium).not.toBe(low)
+    expect(medium.physicsQuality).toBe('medium')
+  })
+
+  it('clones the shared material only when opacity changes', () => {
+    const pool = new MochiPool()
+    const a = pool.acquire(MOCHI_CONFIGS.base, material, origin)
+    const b = pool.acquire(MOCHI_CONFIGS.base, material, origin)
+
+    a.setOpacity(0.3)
+    expect(a.getOpacity()).toBeCloseTo(0.3)
+    expect(b.getOpacity()).toBe(1)
+    expect(a.mesh.material).not.toBe(b.mesh.material)
+  })
+})
@@ -0,0 +1,156 @@
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import {
+  MochiObject,
+  createMochiMaterial,
+  type MochiConfig,
+  type MochiObjectOptions
+} from './MochiObject'
+import { type PhysicsQuality, DEFAULT_PHYSICS_QUALITY } from '../types/quality'
+
+/** 1種類・1品質あたりに取っておく餅の上限 */
+const MAX_IDLE_PER_KEY = 64
+
+/**
+ * プールの利用状況
+ * 長いプレイでも生成数が増え続けていないかの確認用
+ */
+export type MochiPoolStats = {
+  /** 生成した共有ジオメトリの数 */
+  geometriesCreated: number
+  /** 生成した共有マテリアルの数 */
+  materialsCreated: number
+  /** 生成した餅（メッシュ＋物理ボディ）の数 */
+  mochiCreated: number
+  /** 取り出した回数 */
+  acquired: number
+  /** そのうち再利用できた回数 */
+  reused: number
+  /** 返却された回数 */
+  released: number
+  /** 現在プールで待機している数 */
+  idle: number
+}
+
+/**
+ * MochiConfigごとの共有リソース
+ */
+type PoolEntry = {
+  geometry: THREE.BufferGeometry
+  material: THREE.MeshStandardMaterial
+  /** 当たり判定の形が品質で変わるので品質ごとに分けて持つ */
+  idle: Map<PhysicsQuality, MochiObject[]>
+}
+
+/**
+ * 餅オブジェクトのプール
+ * - ジオメトリ・マテリアルはMochiConfigごとに1つを共有する
+ * - 返却された餅はメッシュ・物理ボディごと取っておき、次の取り出しで使い回す
+ * 生成・破棄によるGCの引っかかりを、長いエンドレスや演出の繰り返しで起こさないため
+ */
+export class MochiPool {
+  private entries: Map<MochiConfig, PoolEntry> = new Map()
+  private stats: Omit<MochiPoolStats, 'idle'> = {
+    geometriesCreated: 0,
+    materialsCreated: 0,
+    mochiCreated: 0,
+    acquired: 0,
+    reused: 0,
+    released: 0
+  }
+
+  /**
+   * 餅を取り出す（ワールド・シーンには追加しない）
+   */
+  acquire(
+    config: MochiConfig,
+    material: CANNON.Material,
+    position: THREE.Vector3,
+    options: Pick<MochiObjectOptions, 'id' | 'createdAt' | 'physicsQuality'> = {}
+  ): MochiObject {
+    const quality = options.physicsQuality ?? DEFAULT_PHYSICS_QUALITY
+    const entry = this.getEntry(config)
+    this.stats.acquired++
+
+    const recycled = entry.idle.get(quality)?.pop()
+    if (recycled) {
+      this.stats.reused++
+      recycled.reset(material, position, options)
+      return recycled
+    }
+
+    this.stats.mochiCreated++
+    return new MochiObject(config, material, position, {
+      ...options,
+      physicsQuality: quality,
+      geometry: entry.geometry,
+      material: entry.material
+    })
+  }
+
+  /**
+   * 餅を返却する（ワールド・シーンからは外される）
+   * このプールから取り出していない餅は破棄する
+   */
+  release(mochi: MochiObject): void {
+    mochi.detach()
+
+    const entry = this.entries.get(mochi.config)
+    if (!entry || mochi.mesh.geometry !== entry.geometry) {
+      mochi.disposeResources()
+      return
+    }
+
+    const idle = entry.idle.get(mochi.physicsQuality) ?? []
+    entry.idle.set(mochi.physicsQuality, idle)
+    if (idle.includes(mochi)) return
+
+    this.stats.released++
+    // 上限を超えた分はそのまま手放す（共有リソースは残る）
+    if (idle.length < MAX_IDLE_PER_KEY) {
+      idle.push(mochi)
+    }
+  }
+
+  getStats(): MochiPoolStats {
+    let idle = 0
+    for (const entry of this.entries.values()) {
+      for (const list of entry.idle.values()) {
+        idle += list.length
+      }
+    }
+    return { ...this.stats, idle }
+  }
+
+  /**
+   * 待機中の餅と共有リソースをすべて破棄する
+   */
+  dispose(): void {
+    for (const entry of this.entries.values()) {
+      for (const list of entry.idle.values()) {
+        list.forEach((mochi) => mochi.disposeResources())
+      }
+      entry.geometry.dispose()
+      entry.material.dispose()
+    }
+    this.entries.clear()
+  }
+
+  private getEntry(config: MochiConfig): PoolEntry {
+    let entry = this.entries.get(config)
+    if (!entry) {
+      entry = {
+        geometry: config.geometry(config),
+        material: createMochiMaterial(config),
+        idle: new Map()
+      }
+      this.entries.set(config, entry)
+      this.stats.geometriesCreated++
+      this.stats.materialsCreated++
+    }
+    return entry
+  }
+}
+
+/** ゲーム全体で共有するプール（シーンをまたいで使い回す） */
+export const mochiPool = new MochiPool()
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { MochiObject } from './MochiObject'
+import {
+  MOCHI_CONFIGS,
+  findMochiConfig,
+  getFragmentConfig,
+  getMochiConfig,
+  getRegisteredMochiTypes,
+  isMochiType,
+  registerMochiType
+} from './MochiRegistry'
+import { PHYSICS_QUALITY_SETTINGS } from '../types/quality'
+
+const material = new CANNON.Material('mochi')
+const origin = new THREE.Vector3(0, 0, 0)
+
+describe('MochiRegistry', () => {
+  it('registers every built-in item', () => {
+    expect(getRegisteredMochiTypes()).toEqual(
+      expect.arrayContaining(['base', 'top', 'mikan', 'daidai', 'kushigaki', 'konbu', 'urajiro'])
+    )
+    expect(isMochiType('konbu')).toBe(true)
+    expect(isMochiType('kagami')).toBe(false)
+    expect(findMochiConfig('kagami')).toBeNull()
+  })
+
+  it('falls back to the base mochi for unknown types', () => {
+    expect(getMochiConfig('kagami')).toBe(MOCHI_CONFIGS.base)
+  })
+
+  it('accepts custom items', () => {
+    registerMochiType({ ...MOCHI_CONFIGS.daidai, type: 'test-kinkan', radius: 0.3, height: 0.3 })
+    expect(isMochiType('test-kinkan')).toBe(true)
+    expect(getMochiConfig('test-kinkan').radius).toBe(0.3)
+  })
+
+  it('derives cached fragment configs that split the mass', () => {
+    const fragment = getFragmentConfig(MOCHI_CONFIGS.base, 2)
+
+    expect(getFragmentConfig(MOCHI_CONFIGS.base, 2)).toBe(fragment)
+    expect(fragment.mass).toBeCloseTo(MOCHI_CONFIGS.base.mass / 2)
+    expect(fragment.radius).toBeLessThan(MOCHI_CONFIGS.base.radius)
+    expect(fragment.crackSpeed).toBeUndefined()
+  })
+
+  it('sizes the collision box of flat ornaments from their rendered bounds', () => {
+    for (const type of ['kushigaki', 'konbu', 'urajiro'] as const) {
+      const config = MOCHI_CONFIGS[type]
+      const geometry = config.geometry(config)
+      geometry.computeBoundingBox()
+      const size = geometry.boundingBox!.getSize(new THREE.Vector3())
+      const shape = config.shape(config, PHYSICS_QUALITY_SETTINGS.high)
+
+      expect(shape).toBeInstanceOf(CANNON.Box)
+      const { halfExtents } = shape as CANNON.Box
+      expect(halfExtents.x).toBeCloseTo(size.x / 2)
+      expect(halfExtents.y).toBeCloseTo(size.y / 2)
+      expect(halfExtents.z).toBeCloseTo(size.z / 2)
+    }
+    // 串柿は干し柿の丸みの分だけ奥行きがある
+    const kushigaki = MOCHI_CONFIGS.kushigaki
+    const box = kushigaki.shape(kushigaki, PHYSICS_QUALITY_SETTINGS.high) as CANNON.Box
+    expect(box.halfExtents.z).toBeGreaterThan(0.19)
+  })
+
+  for (const config of Object.values(MOCHI_CONFIGS)) {
+    describe(config.type, () => {
+      it('builds geometry matching its declared size', () => {
+        const geometry = config.geometry(config)
+        geometry.computeBoundingBox()
+        const size = geometry.boundingBox!.getSize(new THREE.Vector3())
+
+        // 球の果物はheightにradiusを入れる慣例なので、直径まで許す
+        expect(size.y).toBeGreaterThan(config.height * 0.95)
+        expect(size.y).toBeLessThan(config.height * 2.05)
+        expect(Math.max(size.x, size.z) / 2).toBeGreaterThan(config.radius * 0.9)
+        expect(Math.max(size.x, size.z) / 2).toBeLessThan(config.radius * 1.1)
+      })
+
+      it('builds a physics body at every quality', () => {
+        for (const quality of ['low', 'medium', 'high'] as const) {
+          const mochi = new MochiObject(config, material, origin, { physicsQuality: quality })
+          expect(mochi.body.shapes).toHaveLength(1)
+          expect(mochi.body.mass).toBe(config.mass)
+          expect(mochi.config.shape(config, PHYSICS_QUALITY_SETTINGS[quality])).toBeInstanceOf(
+            CANNON.Shape
+          )
+        }
+      })
+    })
+  }
+})
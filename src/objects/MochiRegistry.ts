@@ -0,0 +1,323 @@
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import {
+  createMochiGeometry,
+  createMochiBodyShape,
+  type AdhesionProfile,
+  type BuiltinMochiType,
+  type MochiConfig,
+  type MochiGeometryBuilder,
+  type MochiShapeBuilder,
+  type MochiType
+} from './MochiObject'
+
+/** 餅同士のくっつき */
+const MOCHI_ADHESION: AdhesionProfile = {
+  stiffness: 50,
+  damping: 5,
+  restLength: 0.1,
+  breakVelocity: 8,
+  minContactTime: 0.3,
+  maxDistance: 2.0,
+  curing: {
+    duration: 2,
+    stiffnessMultiplier: 1.6,
+    breakVelocityMultiplier: 1.5
+  }
+}
+
+/** 果物（皮の上に載るだけなので弱く、硬化もしない） */
+const FRUIT_ADHESION: AdhesionProfile = {
+  stiffness: 15,
+  damping: 2,
+  restLength: 0.1,
+  breakVelocity: 5,
+  minContactTime: 0.3,
+  maxDistance: 1.2
+}
+
+/** 薄い飾り（挟まれて張り付く程度） */
+const ORNAMENT_ADHESION: AdhesionProfile = {
+  stiffness: 25,
+  damping: 3,
+  restLength: 0.05,
+  breakVelocity: 6,
+  minContactTime: 0.3,
+  maxDistance: 1.0
+}
+
+// --- Builders ---
+const buildMochiGeometry: MochiGeometryBuilder = (config) =>
+  createMochiGeometry(config.radius, config.height)
+
+const buildSphereGeometry: MochiGeometryBuilder = (config) =>
+  new THREE.SphereGeometry(config.radius, 32, 24)
+
+const buildSphereShape: MochiShapeBuilder = (config) => new CANNON.Sphere(config.radius)
+
+/**
+ * 直方体の当たり判定（見た目の形状を包む箱。形状は原点が中心になるよう作る）
+ */
+const buildBoundingBoxShape: MochiShapeBuilder = (config) => {
+  const geometry = config.geometry(config)
+  geometry.computeBoundingBox()
+  const size = (geometry.boundingBox ?? new THREE.Box3()).getSize(new THREE.Vector3())
+  geometry.dispose()
+  return new CANNON.Box(new CANNON.Vec3(size.x / 2, size.y / 2, size.z / 2))
+}
+
+const KUSHIGAKI_FRUIT_COUNT = 5
+const KONBU_HALF_DEPTH = 0.55
+const URAJIRO_HALF_DEPTH = 0.35
+
+/**
+ * 串柿: 竹串に干し柿を並べる
+ */
+const buildKushigakiGeometry: MochiGeometryBuilder = (config) => {
+  const length = config.radius * 2
+  const stick = new THREE.CylinderGeometry(0.035, 0.035, length, 8)
+  stick.rotateZ(Math.PI / 2)
+
+  // 干して平たくなった柿（高さがconfig.heightになるよう潰す）
+  const fruitRadius = config.height / 2 / 0.7
+  const fruits = Array.from({ length: KUSHIGAKI_FRUIT_COUNT }, (_, i) => {
+    const fruit = new THREE.SphereGeometry(fruitRadius, 16, 12)
+    fruit.scale(1, 0.7, 1)
+    const spacing = (length * 0.8) / (KUSHIGAKI_FRUIT_COUNT - 1)
+    fruit.translate(-length * 0.4 + spacing * i, 0, 0)
+    return fruit
+  })
+
+  const parts = [stick, ...fruits]
+  const merged = mergeGeometries(parts)
+  parts.forEach((part) => part.dispose())
+  return merged ?? stick
+}
+
+/**
+ * 昆布: 薄い板
+ */
+const buildKonbuGeometry: MochiGeometryBuilder = (config) =>
+  new THREE.BoxGeometry(config.radius * 2, config.height, KONBU_HALF_DEPTH * 2)
+
+/**
+ * 裏白: 左右に広がる一対のシダの葉（ギザギザの縁）
+ */
+const buildUrajiroGeometry: MochiGeometryBuilder = (config) => {
+  const length = config.radius
+  const width = URAJIRO_HALF_DEPTH
+  const teeth = 7
+
+  const frond = new THREE.Shape()
+  frond.moveTo(0, 0)
+  for (let i = 1; i <= teeth; i++) {
+    const t = i / teeth
+    const w = width * Math.sin(Math.PI * t) + 0.02
+    frond.lineTo(length * (t - 0.5 / teeth), w)
+    frond.lineTo(length * t, w * 0.6)
+  }
+  for (let i = teeth; i >= 1; i--) {
+    const t = i / teeth
+    const w = width * Math.sin(Math.PI * t) + 0.02
+    frond.lineTo(length * t, -w * 0.6)
+    frond.lineTo(length * (t - 0.5 / teeth), -w)
+  }
+  frond.lineTo(0, 0)
+
+  const extrude = { depth: config.height, bevelEnabled: false }
+  const right = new THREE.ExtrudeGeometry(frond, extrude)
+  const left = new THREE.ExtrudeGeometry(frond, extrude)
+  left.rotateZ(Math.PI)
+
+  const merged = mergeGeometries([right, left]) ?? right
+  if (merged !== right) right.dispose()
+  left.dispose()
+
+  // XY平面の葉を寝かせ、厚みの中心を原点に合わせる
+  merged.translate(0, 0, -config.height / 2)
+  merged.rotateX(-Math.PI / 2)
+  return merged
+}
+
+/**
+ * 組み込みアイテムの定義
+ */
+export const MOCHI_CONFIGS: Record<BuiltinMochiType, MochiConfig> = {
+  base: {
+    type: 'base',
+    displayName: 'ベース餅',
+    radius: 1.5,
+    height: 0.75,
+    mass: 3,
+    color: 0xfff8e7,
+    roughness: 0.9,
+    adhesion: MOCHI_ADHESION,
+    scoringRole: 'foundation',
+    deformable: true,
+    crackSpeed: 8,
+    geometry: buildMochiGeometry,
+    shape: createMochiBodyShape
+  },
+  top: {
+    type: 'top',
+    displayName: '上餅',
+    radius: 1.1,
+    height: 0.55,
+    mass: 2,
+    color: 0xfff8e7,
+    roughness: 0.9,
+    adhesion: MOCHI_ADHESION,
+    scoringRole: 'tier',
+    deformable: true,
+    crackSpeed: 9,
+    geometry: buildMochiGeometry,
+    shape: createMochiBodyShape
+  },
+  mikan: {
+    type: 'mikan',
+    displayName: 'みかん',
+    radius: 0.5,
+    height: 0.5, // 球体なのでradiusと同じ
+    mass: 0.5,
+    color: 0xff8c00,
+    roughness: 0.8,
+    adhesion: FRUIT_ADHESION,
+    scoringRole: 'crown',
+    deformable: false,
+    geometry: buildSphereGeometry,
+    shape: buildSphereShape
+  },
+  daidai: {
+    type: 'daidai',
+    displayName: '橙',
+    radius: 0.6,
+    height: 0.6, // みかんと同じくradiusと同じ
+    mass: 0.7,
+    color: 0xff6a00,
+    roughness: 0.7,
+    adhesion: FRUIT_ADHESION,
+    scoringRole: 'crown',
+    deformable: false,
+    geometry: buildSphereGeometry,
+    shape: buildSphereShape
+  },
+  kushigaki: {
+    type: 'kushigaki',
+    displayName: '串柿',
+    radius: 1.0, // 串の長さの半分
+    height: 0.28,
+    mass: 0.4,
+    color: 0x9c4a1a,
+    roughness: 0.85,
+    adhesion: ORNAMENT_ADHESION,
+    scoringRole: 'ornament',
+    deformable: false,
+    geometry: buildKushigakiGeometry,
+    shape: buildBoundingBoxShape
+  },
+  konbu: {
+    type: 'konbu',
+    displayName: '昆布',
+    radius: 0.8,
+    height: 0.06,
+    mass: 0.3,
+    color: 0x2e3a1e,
+    roughness: 0.5,
+    metalness: 0.1,
+    adhesion: ORNAMENT_ADHESION,
+    scoringRole: 'ornament',
+    deformable: false,
+    geometry: buildKonbuGeometry,
+    shape: buildBoundingBoxShape
+  },
+  urajiro: {
+    type: 'urajiro',
+    displayName: '裏白',
+    radius: 0.9, // 葉1枚の長さ
+    height: 0.04,
+    mass: 0.15,
+    color: 0x3f7f2f,
+    roughness: 0.7,
+    adhesion: ORNAMENT_ADHESION,
+    scoringRole: 'ornament',
+    deformable: false,
+    geometry: buildUrajiroGeometry,
+    shape: buildBoundingBoxShape
+  }
+}
+
+const registry: Map<MochiType, MochiConfig> = new Map(
+  Object.values(MOCHI_CONFIGS).map((config) => [config.type, config])
+)
+
+/**
+ * アイテムを登録（同じIDがあれば置き換える）
+ */
+export const registerMochiType = (config: MochiConfig): void => {
+  if (registry.has(config.type)) {
+    console.warn(`Mochi type "${config.type}" is already registered; replacing it`)
+  }
+  registry.set(config.type, config)
+}
+
+/**
+ * 登録済みのアイテム定義を引く（未登録ならnull）
+ */
+export const findMochiConfig = (type: MochiType): MochiConfig | null =>
+  registry.get(type) ?? null
+
+/**
+ * 登録済みのアイテム定義を取得（未登録ならベース餅で代用）
+ */
+export const getMochiConfig = (type: MochiType): MochiConfig => {
+  const config = registry.get(type)
+  if (!config) {
+    console.warn(`Unknown mochi type "${type}"; falling back to base`)
+    return MOCHI_CONFIGS.base
+  }
+  return config
+}
+
+/**
+ * 型ガード: 登録済みのアイテムIDか判定
+ */
+export const isMochiType = (value: unknown): value is MochiType =>
+  typeof value === 'string' && registry.has(value)
+
+/**
+ * 登録済みのアイテムID一覧（登録順）
+ */
+export const getRegisteredMochiTypes = (): MochiType[] => [...registry.keys()]
+
+/** 破片の高さ（元の餅に対する割合。割れ目で少し低くなる） */
+const FRAGMENT_HEIGHT_RATIO = 0.9
+
+// 破片の設定は元の設定と個数ごとに1つだけ作る（プールのキーになるため）
+const fragmentConfigs: Map<MochiConfig, Map<number, MochiConfig>> = new Map()
+
+/**
+ * 割れた餅の破片の設定
+ * - 元の餅の幅に横一列で収まる半径、質量は等分
+ * - 種類・得点での役割は元の餅のまま（破片はもう割れない）
+ */
+export const getFragmentConfig = (config: MochiConfig, count: number): MochiConfig => {
+  let byCount = fragmentConfigs.get(config)
+  if (!byCount) {
+    byCount = new Map()
+    fragmentConfigs.set(config, byCount)
+  }
+  let fragment = byCount.get(count)
+  if (!fragment) {
+    fragment = {
+      ...config,
+      displayName: `${config.displayName}の破片`,
+      radius: config.radius / count,
+      height: config.height * FRAGMENT_HEIGHT_RATIO,
+      mass: config.mass / count,
+      crackSpeed: undefined
+    }
+    byCount.set(count, fragment)
+  }
+  return fragment
+}
@@ -1,9 +1,12 @@
 import * as CANNON from 'cannon-es'
+import { SimulationClock } from '../systems/SimulationClock'
 
 export interface PhysicsContextConfig {
   gravity?: CANNON.Vec3
   stepRate?: number
   substeps?: number
+  /** 静止したボディを眠らせて計算を省く（デフォルト: true） */
+  allowSleep?: boolean
 }
 
 /**
@@ -14,9 +17,8 @@ export class PhysicsContext {
   public readonly world: CANNON.World
   public readonly mochiMaterial: CANNON.Material
   public readonly groundMaterial: CANNON.Material
+  public readonly clock: SimulationClock
 
-  private readonly stepRate: number
-  private readonly substeps: number
   private bodies: Set<CANNON.Body> = new Set()
 
   constructor(config?: PhysicsContextConfig) {
@@ -26,10 +28,15 @@ export class PhysicsContext {
       config?.gravity?.y ?? -9.8,
       config?.gravity?.z ?? 0
     )
-    this.world.broadphase = new CANNON.NaiveBroadphase()
+    // 軸ソート方式の空間ブロードフェーズ（ボディ数が多くても候補ペアを絞れる）
+    this.world.broadphase = new CANNON.SAPBroadphase(this.world)
+    this.world.allowSleep = config?.allowSleep ?? true
 
-    this.stepRate = config?.stepRate ?? 1 / 60
-    this.substeps = config?.substeps ?? 3
+    // 固定ステップ時計（フレームレートに依存しない再現可能なステップ）
+    this.clock = new SimulationClock({
+      timeStep: config?.stepRate,
+      maxStepsPerFrame: config?.substeps
+    })
 
     // マテリアル設定
     this.mochiMaterial = new CANNON.Material('mochi')
@@ -52,11 +59,26 @@ export class PhysicsContext {
     )
   }
 
+  /**
+   * 餅との接触設定を持つ表面マテリアルを作る（台座ごとの摩擦・反発）
+   */
+  createSurfaceMaterial(
+    name: string,
+    contact: { friction: number; restitution: number }
+  ): CANNON.Material {
+    const material = new CANNON.Material(name)
+    this.world.addContactMaterial(
+      new CANNON.ContactMaterial(this.mochiMaterial, material, contact)
+    )
+    return material
+  }
+
   /**
    * 物理ステップを進める
+   * @returns 実行した固定ステップ数
    */
-  step(delta: number): void {
-    this.world.step(this.stepRate, delta, this.substeps)
+  step(delta: number): number {
+    return this.clock.advance(delta, (dt) => this.world.step(dt))
   }
 
   /**
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { SoftBodyDeformer } from './SoftBodyDeformer'
+
+const run = (deformer: SoftBodyDeformer, seconds: number) => {
+  for (let t = 0; t < seconds; t += 1 / 60) {
+    deformer.update(1 / 60)
+  }
+}
+
+describe('SoftBodyDeformer', () => {
+  it('squashes on impact and wobbles back to rest', () => {
+    const deformer = new SoftBodyDeformer(0.75)
+    deformer.impact(6)
+    deformer.update(1 / 30)
+    expect(deformer.amount).toBeGreaterThan(0)
+
+    // 揺れ戻りで一度は伸びる
+    let minAmount = Infinity
+    for (let i = 0; i < 60; i++) {
+      deformer.update(1 / 60)
+      minAmount = Math.min(minAmount, deformer.amount)
+    }
+    expect(minAmount).toBeLessThan(0)
+
+    run(deformer, 3)
+    expect(Math.abs(deformer.amount)).toBeLessThan(0.001)
+  })
+
+  it('squashes more for faster impacts', () => {
+    const peak = (speed: number) => {
+      const deformer = new SoftBodyDeformer(0.75)
+      deformer.impact(speed)
+      let max = 0
+      for (let i = 0; i < 30; i++) {
+        deformer.update(1 / 60)
+        max = Math.max(max, deformer.amount)
+      }
+      return max
+    }
+    expect(peak(6)).toBeGreaterThan(peak(2))
+  })
+
+  it('ignores resting contacts', () => {
+    const deformer = new SoftBodyDeformer(0.75)
+    deformer.impact(0.1)
+    run(deformer, 0.5)
+    expect(deformer.amount).toBe(0)
+  })
+
+  it('sags under load', () => {
+    const deformer = new SoftBodyDeformer(0.75)
+    deformer.setLoad(1)
+    run(deformer, 3)
+    expect(deformer.amount).toBeGreaterThan(0.01)
+
+    deformer.setLoad(0)
+    run(deformer, 3)
+    expect(Math.abs(deformer.amount)).toBeLessThan(0.001)
+  })
+
+  it('keeps the bottom of the mesh in place', () => {
+    const height = 0.75
+    const deformer = new SoftBodyDeformer(height)
+    deformer.setLoad(2)
+    run(deformer, 3)
+
+    const mesh = new THREE.Mesh()
+    deformer.apply(mesh)
+
+    const bottom = mesh.position.y - (height / 2) * mesh.scale.y
+    expect(bottom).toBeCloseTo(-height / 2)
+    expect(mesh.scale.x).toBeGreaterThan(1)
+    expect(mesh.scale.y).toBeLessThan(1)
+  })
+})
@@ -0,0 +1,105 @@
+import * as THREE from 'three'
+
+/** 揺れ戻りのバネ定数（大きいほど速く震える） */
+const STIFFNESS = 260
+/** 減衰（大きいほど早く収まる） */
+const DAMPING = 9
+/** 衝突速度1m/sあたりに与える潰れ速度 */
+const IMPACT_GAIN = 0.9
+/** この衝突速度未満は無視する（接地中の微小な接触） */
+const MIN_IMPACT_SPEED = 0.8
+/** 潰れ・伸びの上限 */
+const MAX_SQUASH = 0.35
+const MAX_STRETCH = 0.2
+/** 自重比1あたりのたわみ */
+const SAG_PER_LOAD = 0.06
+const MAX_SAG = 0.15
+/** バネ計算の内部ステップ（フレームレートに依存しないように分割） */
+const INTERNAL_STEP = 1 / 120
+const MAX_DELTA = 1 / 15
+
+const UP = new THREE.Vector3(0, 1, 0)
+
+/**
+ * 餅の見た目の変形（スカッシュ＆ストレッチ）
+ * - 衝突で潰れ、ゼリーのように揺れ戻る
+ * - 上に載った重さで持続的にたわむ
+ * 物理ボディには影響せず、同期後のメッシュにスケールを掛けるだけ
+ */
+export class SoftBodyDeformer {
+  private readonly height: number
+  /** 正で潰れ（低く広く）、負で伸び */
+  private squash = 0
+  private velocity = 0
+  private sag = 0
+
+  constructor(height: number) {
+    this.height = height
+  }
+
+  /** 現在の潰れ量 */
+  get amount(): number {
+    return this.squash
+  }
+
+  /**
+   * 衝突を受けて潰れ始める
+   * @param speed 接触法線方向の衝突速度（m/s）
+   */
+  impact(speed: number): void {
+    if (speed < MIN_IMPACT_SPEED) return
+    this.velocity += speed * IMPACT_GAIN
+  }
+
+  /**
+   * 上に載っている重さを設定
+   * @param loadRatio 上に載っている質量 / 自分の質量
+   */
+  setLoad(loadRatio: number): void {
+    this.sag = Math.min(MAX_SAG, Math.max(0, loadRatio) * SAG_PER_LOAD)
+  }
+
+  /**
+   * 揺れを進める
+   */
+  update(delta: number): void {
+    let remaining = Math.min(Math.max(0, delta), MAX_DELTA)
+    while (remaining > 0) {
+      const dt = Math.min(INTERNAL_STEP, remaining)
+      const accel = -STIFFNESS * (this.squash - this.sag) - DAMPING * this.velocity
+      this.velocity += accel * dt
+      this.squash += this.velocity * dt
+      remaining -= dt
+    }
+
+    // 上限に達したら跳ね返さずに止める
+    if (this.squash > MAX_SQUASH || this.squash < -MAX_STRETCH) {
+      this.squash = THREE.MathUtils.clamp(this.squash, -MAX_STRETCH, MAX_SQUASH)
+      this.velocity = 0
+    }
+  }
+
+  /**
+   * 物理ボディに同期済みのメッシュに変形を掛ける
+   * 体積がおおよそ保たれるよう横に広げ、底面が沈まないよう下にずらす
+   */
+  apply(mesh: THREE.Mesh): void {
+    const vertical = 1 - this.squash
+    const horizontal = 1 / Math.sqrt(vertical)
+    mesh.scale.set(horizontal, vertical, horizontal)
+
+    const offset = UP.clone()
+      .applyQuaternion(mesh.quaternion)
+      .multiplyScalar((-this.height / 2) * this.squash)
+    mesh.position.add(offset)
+  }
+
+  /**
+   * 変形をなくす
+   */
+  reset(): void {
+    this.squash = 0
+    this.velocity = 0
+    this.sag = 0
+  }
+}
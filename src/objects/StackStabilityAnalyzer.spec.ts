@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { MochiObject, type BuiltinMochiType } from './MochiObject'
+import { MOCHI_CONFIGS } from './MochiRegistry'
+import { StackStabilityAnalyzer, DAI_FOOTPRINT } from './StackStabilityAnalyzer'
+
+const material = new CANNON.Material('mochi')
+
+const createMochi = (type: BuiltinMochiType, x: number, y: number, z = 0) => {
+  const mochi = new MochiObject(MOCHI_CONFIGS[type], material, new THREE.Vector3(x, y, z), {
+    physicsQuality: 'low'
+  })
+  mochi.setState('stacked')
+  return mochi
+}
+
+describe('StackStabilityAnalyzer', () => {
+  const analyzer = new StackStabilityAnalyzer()
+
+  it('reports full margin for a centered tower', () => {
+    const base = createMochi('base', 0, -1.1)
+    const top = createMochi('top', 0, -0.5)
+    top.setStackedOn(base)
+
+    const report = analyzer.analyze([base, top])
+    expect(report.entries).toHaveLength(2)
+    expect(report.minMargin).toBeCloseTo(1)
+    expect(report.weakest?.tippingDirection).toBeNull()
+  })
+
+  it('combines the tower above into the center of mass', () => {
+    const base = createMochi('base', 0, -1.1)
+    const top = createMochi('top', 1, -0.5)
+    top.setStackedOn(base)
+
+    const baseStability = analyzer.analyzeMochi(base)
+    const expectedX = (MOCHI_CONFIGS.top.mass * 1) / (MOCHI_CONFIGS.base.mass + MOCHI_CONFIGS.top.mass)
+    expect(baseStability.towerMass).toBe(MOCHI_CONFIGS.base.mass + MOCHI_CONFIGS.top.mass)
+    expect(baseStability.centerOfMass.x).toBeCloseTo(expectedX)
+    expect(baseStability.support).toEqual(DAI_FOOTPRINT)
+  })
+
+  it('predicts tipping when the center of mass leaves the support', () => {
+    const base = createMochi('base', 0, -1.1)
+    const top = createMochi('top', 0, -0.5, -1.2)
+    top.setStackedOn(base)
+
+    const report = analyzer.analyze([base, top])
+    expect(report.weakest?.mochi).toBe(top)
+    expect(report.minMargin).toBeLessThan(0)
+    expect(report.weakest?.tippingDirection?.z).toBeCloseTo(-1)
+  })
+
+  it('ignores flying mochi', () => {
+    const base = createMochi('base', 0, -1.1)
+    const flying = createMochi('top', 5, 3)
+    flying.setState('flying')
+
+    expect(analyzer.analyze([base, flying]).entries).toHaveLength(1)
+  })
+
+  it('returns a safe report when nothing is stacked', () => {
+    const report = analyzer.analyze([])
+    expect(report.weakest).toBeNull()
+    expect(report.minMargin).toBe(1)
+  })
+})
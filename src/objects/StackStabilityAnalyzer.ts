@@ -0,0 +1,158 @@
+import * as THREE from 'three'
+import type { MochiObject } from './MochiObject'
+import { type PedestalSurfaceRect, getSurfaceMargin } from '../types/pedestal'
+
+/**
+ * 支持面（水平な円。箱の台座は長方形も持つ）
+ */
+export type SupportFootprint = {
+  x: number
+  z: number
+  radius: number
+  rect?: PedestalSurfaceRect
+}
+
+/**
+ * 1つの餅についての安定性
+ * この餅から上の塔全体の重心を、この餅を支えている面と比べる
+ */
+export type MochiStability = {
+  mochi: MochiObject
+  /** この餅から上の塔の合計質量 */
+  towerMass: number
+  /** 塔の重心（ワールド座標） */
+  centerOfMass: THREE.Vector3
+  /** 支えている面（下の餅の上面、なければ台座） */
+  support: SupportFootprint
+  /** 重心と支持面中心との水平距離 */
+  offset: number
+  /** 安定余裕（1: 中心、0: 縁、負: 縁の外＝倒れる） */
+  margin: number
+  /** 倒れそうな向き（水平の単位ベクトル、中心ならnull） */
+  tippingDirection: THREE.Vector3 | null
+}
+
+/**
+ * 積み上げ全体の安定性
+ */
+export type StabilityReport = {
+  entries: MochiStability[]
+  /** 最も不安定な餅（なければnull） */
+  weakest: MochiStability | null
+  /** 最小の安定余裕（餅がなければ1） */
+  minMargin: number
+}
+
+/** 台座上面（trajectory.tsのDAI_POSITIONと台座の上面半径） */
+export const DAI_FOOTPRINT: SupportFootprint = { x: 0, z: 0, radius: 1.8 }
+
+/** 餅の上面のうち支えとして効く割合（ドームの平らな部分） */
+const TOP_SUPPORT_RATIO = 0.5
+
+/** 中心とみなす水平距離 */
+const CENTER_EPSILON = 1e-4
+
+/**
+ * 積み上げの安定性解析
+ * - stackedOn/stackedByの関係から、各餅より上の部分塔の合成重心を求める
+ * - 合成重心が支持面の外に出ていれば、その方向へ倒れると予測する
+ */
+export class StackStabilityAnalyzer {
+  private readonly groundSupport: SupportFootprint
+
+  constructor(groundSupport: SupportFootprint = DAI_FOOTPRINT) {
+    this.groundSupport = groundSupport
+  }
+
+  /**
+   * 飛行中以外の餅について安定性を解析
+   * 固定済みの下段は倒れないので対象外（上の塔の重さには含まれる）
+   */
+  analyze(
+    mochiList: readonly MochiObject[],
+    groundSupport: SupportFootprint = this.groundSupport
+  ): StabilityReport {
+    const entries = mochiList
+      .filter((mochi) => mochi.state !== 'flying' && !mochi.isFrozen)
+      .map((mochi) => this.analyzeMochi(mochi, groundSupport))
+
+    let weakest: MochiStability | null = null
+    for (const entry of entries) {
+      if (!weakest || entry.margin < weakest.margin) {
+        weakest = entry
+      }
+    }
+
+    return {
+      entries,
+      weakest,
+      minMargin: weakest?.margin ?? 1
+    }
+  }
+
+  /**
+   * 1つの餅（とその上の塔）を解析
+   */
+  analyzeMochi(
+    mochi: MochiObject,
+    groundSupport: SupportFootprint = this.groundSupport
+  ): MochiStability {
+    const { mass, centerOfMass } = this.getTowerMass(mochi, new Set())
+    const support = this.getSupport(mochi, groundSupport)
+
+    const dx = centerOfMass.x - support.x
+    const dz = centerOfMass.z - support.z
+    const offset = Math.sqrt(dx ** 2 + dz ** 2)
+
+    const tippingDirection =
+      offset > CENTER_EPSILON ? new THREE.Vector3(dx / offset, 0, dz / offset) : null
+
+    return {
+      mochi,
+      towerMass: mass,
+      centerOfMass,
+      support,
+      offset,
+      margin: getSurfaceMargin(support, centerOfMass.x, centerOfMass.z),
+      tippingDirection
+    }
+  }
+
+  /**
+   * この餅から上の塔の合計質量と合成重心
+   */
+  private getTowerMass(
+    mochi: MochiObject,
+    visited: Set<MochiObject>
+  ): { mass: number; centerOfMass: THREE.Vector3 } {
+    visited.add(mochi)
+
+    let mass = mochi.config.mass
+    const weighted = mochi.position.multiplyScalar(mochi.config.mass)
+
+    for (const above of mochi.stackedBy) {
+      // 同じ餅が複数の経路に現れても1回だけ数える
+      if (visited.has(above)) continue
+      const tower = this.getTowerMass(above, visited)
+      mass += tower.mass
+      weighted.addScaledVector(tower.centerOfMass, tower.mass)
+    }
+
+    return { mass, centerOfMass: weighted.divideScalar(mass) }
+  }
+
+  /**
+   * この餅を支えている面
+   */
+  private getSupport(mochi: MochiObject, groundSupport: SupportFootprint): SupportFootprint {
+    const below = mochi.stackedOn
+    if (!below) return groundSupport
+
+    const position = below.position
+    return {
+      x: position.x,
+      z: position.z,
+      radius: below.config.radius * TOP_SUPPORT_RATIO
+    }
+  }
+}
@@ -2,16 +2,43 @@
 export {
   MochiObject,
   createMochiGeometry,
-  MOCHI_CONFIGS,
+  createMochiMaterial,
+  createMochiBodyShape,
   type MochiType,
+  type BuiltinMochiType,
   type MochiState,
-  type MochiConfig
+  type MochiIntegrity,
+  type MochiConfig,
+  type MochiObjectOptions,
+  type AdhesionProfile,
+  type AdhesionCuring,
+  type ScoringRole,
+  type MochiGeometryBuilder,
+  type MochiShapeBuilder
 } from './MochiObject'
+export {
+  MOCHI_CONFIGS,
+  registerMochiType,
+  findMochiConfig,
+  getMochiConfig,
+  isMochiType,
+  getRegisteredMochiTypes,
+  getFragmentConfig
+} from './MochiRegistry'
 
 export { MochiManager } from './MochiManager'
+export { MochiPool, mochiPool, type MochiPoolStats } from './MochiPool'
+export {
+  StackStabilityAnalyzer,
+  DAI_FOOTPRINT,
+  type SupportFootprint,
+  type MochiStability,
+  type StabilityReport
+} from './StackStabilityAnalyzer'
 
 // 物理・装飾関連
 export { PhysicsContext, type PhysicsContextConfig } from './PhysicsContext'
+export { DaiPlatform } from './DaiPlatform'
 export {
   DecorativeMochiGroup,
   type DecorativeMochiConfig
@@ -79,7 +79,8 @@ export abstract class BaseScene {
     while (this.scene.children.length > 0) {
       const child = this.scene.children[0]
       this.scene.remove(child)
-      if (child instanceof THREE.Mesh) {
+      // 餅はプールの共有リソースを使うので破棄しない
+      if (child instanceof THREE.Mesh && !child.userData.mochiObject) {
         child.geometry?.dispose()
         if (Array.isArray(child.material)) {
           child.material.forEach(m => m.dispose())
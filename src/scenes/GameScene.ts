@@ -1,26 +1,26 @@
 import * as THREE from 'three'
-import * as CANNON from 'cannon-es'
 import { gsap } from 'gsap'
 import { BaseScene } from './BaseScene'
 import type { Game } from '../core/Game'
 import type { LayoutInfo } from '../core/layout'
 import { calculateLayoutScale } from '../core/layout'
 import {
-  MochiManager,
-  createMochiGeometry,
   type MochiType,
   type MochiObject,
-  MOCHI_CONFIGS
+  type ScoringRole,
+  getMochiConfig
 } from '../objects'
-import { ScoreSystem } from '../systems/ScoreSystem'
 import type { GameMode } from '../types/game-mode'
-import { ENDLESS_MODE_CONFIG } from '../types/game-mode'
-import type { NormalResultData, EndlessResultData } from '../types/scene-data'
+import { getGameModeConfig } from '../types/game-mode'
+import { type Wind, getWindArrow, getWindStrength } from '../types/wind'
+import type { NormalResultData, EndlessResultData, GameToResultData } from '../types/scene-data'
 import {
   calculateTrajectory,
   getTrajectoryColor,
   createTrajectoryLine,
   updateTrajectoryLine,
+  createImpactMarker,
+  updateImpactMarker,
   createTargetMarker,
   DAI_POSITION
 } from './game/trajectory'
@@ -28,16 +28,23 @@ import {
   type LaunchParameters,
   createDefaultLaunchParameters,
   calculateInitialVelocity,
-  degreesToRadians
+  degreesToRadians,
+  gaugeToSpin,
+  getLauncherPosition,
+  getLauncherYaw
 } from '../types/launch'
 import {
   type GaugeGroup,
   createHorizontalGauge,
   createVerticalGauge,
   createPowerGauge,
+  createSpinGauge,
+  createLauncherGauge,
   updateDirectionGauge,
   updateElevationGauge,
   updatePowerGauge,
+  updateSpinGauge,
+  updateLauncherGauge,
   resetPowerGauge,
   updateGaugeContainerPosition
 } from './game/gauge'
@@ -46,78 +53,158 @@ import {
   updateUITextSprite,
   updateUIContainerPosition
 } from './game/text-sprite'
+import {
+  SLINGSHOT_FULL_PULL,
+  adjustSlingshotElevation,
+  createSlingshotBand,
+  getPouchPosition,
+  getSlingshotPull,
+  pullToAim,
+  updateSlingshotBand
+} from './game/slingshot'
+import { advanceGauge } from './game/gauge-motion'
+import { type GhostShot, createGhostShot, updateGhostShot } from './game/ghost-shot'
 import { EffectManager, SceneLighting } from '../effects'
-import { StickinessManager } from './game/stickiness-manager'
 import { SkyGradient } from '../effects/SkyGradient'
 import { SnowEffect } from '../effects/SnowEffect'
 import { MountainFuji } from '../objects/MountainFuji'
-
-type GamePhase = 'direction' | 'elevation' | 'power' | 'flying' | 'landed' | 'complete'
+import { createRandomSeed } from '../systems/SeededRandom'
+import { StackingSimulation } from '../systems/StackingSimulation'
+import { GameProgressManager } from '../systems/GameProgressManager'
+import { SlowMotionDirector, type SlowMotionListener } from '../systems/SlowMotionDirector'
+import type { GamepadListener } from '../core/GamepadInput'
+import type { PhysicsQuality } from '../types/quality'
+import { type DaiMotionType, DEFAULT_DAI_MOTION } from '../types/dai-motion'
+import { type PedestalType, DEFAULT_PEDESTAL } from '../types/pedestal'
+import { type ControlScheme, DEFAULT_CONTROL_SCHEME } from '../types/control-scheme'
+import { type AssistSettings, DEFAULT_ASSIST_SETTINGS, isAssistActive } from '../types/assist'
+import { isSwitchKey } from '../ui/switch-scanner'
+import type { ImpactListener } from '../types/impact'
+import type { StickinessListener, StickyBond } from './game/stickiness-manager'
+import { ReplayRecorder, ReplayPlayer } from '../systems/ReplayRecorder'
+import {
+  type ReplayDocument,
+  type ReplayShot,
+  createReplayShot,
+  toLaunchParameters
+} from '../types/replay'
+import { evaluateShotOutcome } from '../types/shot-history'
+
+type GaugePhase = 'position' | 'direction' | 'elevation' | 'power' | 'spin'
+type GamePhase =
+  | GaugePhase
+  | 'sling'
+  | 'flying'
+  | 'landed'
+  | 'complete'
+type DangerLevel = 'safe' | 'caution' | 'danger'
 
 const TRAJECTORY_POINTS = 50
-const LANDING_TIMEOUT_SECONDS = 8
-const LANDING_SPEED_THRESHOLD = 0.5
-const LANDING_SPEED_SOFT_THRESHOLD = 1.5
-const LANDING_HEIGHT_THRESHOLD = 3
-const LANDING_HEIGHT_SOFT_THRESHOLD = 2
+const MIKAN_SETTLE_TIMEOUT_SECONDS = 3
+// 安定余裕（1: 重心が中心、0: 支持面の縁）がこれを下回ると警告
+const CAUTION_MARGIN = 0.4
+const DANGER_MARGIN = 0.15
+/** ゲージごとの案内（操作の言葉を前に付ける） */
+const GAUGE_INSTRUCTIONS: Record<GaugePhase, string> = {
+  position: '発射位置を決定！',
+  direction: '方向を決定！',
+  elevation: '角度を決定！',
+  power: 'パワーを決定！',
+  spin: 'スピンを決定！'
+}
+/** 長押しアシストで、押し続けてから決定するまでの時間（秒） */
+const HOLD_CONFIRM_SECONDS = 0.6
+/** キャンセル（ゲームパッドのB）で戻る1つ前のゲージ */
+const PREVIOUS_GAUGE_PHASES: Partial<Record<GamePhase, GaugePhase>> = {
+  direction: 'position',
+  elevation: 'direction',
+  power: 'elevation',
+  spin: 'power',
+  sling: 'position'
+}
+/** 右スティックを倒しきったときの仰角の変化（スリングショットの角度の段数/秒） */
+const STICK_ELEVATION_RATE = 10
+/** 発射台の向きに合わせてカメラ配置を回す軸 */
+const Y_AXIS = new THREE.Vector3(0, 1, 0)
 
 export class GameScene extends BaseScene {
-  private world: CANNON.World | null = null
-  private groundBody: CANNON.Body | null = null
-  private daiBody: CANNON.Body | null = null
+  // 物理・餅・スコア計算（描画に依存しない部分）
+  private simulation: StackingSimulation | null = null
+  private seed = 0
+  private physicsQuality: PhysicsQuality = 'medium'
+  private daiMotion: DaiMotionType = DEFAULT_DAI_MOTION
+  private pedestal: PedestalType = DEFAULT_PEDESTAL
+  private controlScheme: ControlScheme = DEFAULT_CONTROL_SCHEME
+
+  // リプレイ（記録は常時、再生はreplay指定時のみ）
+  private replayRecorder: ReplayRecorder | null = null
+  private replayPlayer: ReplayPlayer | null = null
 
-  private mochiMaterial: CANNON.Material | null = null
-  private groundMaterial: CANNON.Material | null = null
-  private stickinessManager: StickinessManager | null = null
-
-  private flyingStartTime = 0
-
-  // MochiManager統合
-  private mochiManager: MochiManager | null = null
   private currentMochi: MochiObject | null = null
   private currentType: MochiType = 'base'
 
-  // ScoreSystem統合
-  private scoreSystem: ScoreSystem | null = null
-
   private phase: GamePhase = 'direction'
   private launchParams: LaunchParameters = createDefaultLaunchParameters()
 
   private gaugeValue = 50
-  private gaugeDirection = 1
-  private gaugeSpeed = 120
+  private gaugeDirection: 1 | -1 = 1
+  private gaugePause = 0
+  /** ゲージ操作のアシスト（スリングショット操作・リプレイ再生では使わない） */
+  private assist: AssistSettings = DEFAULT_ASSIST_SETTINGS
+  // 長押しアシスト: 押している入力、押し続けた時間、決定した後に離すのを待っているか
+  private heldInputs: Set<'key' | 'pointer'> = new Set()
+  private holdTime = 0
+  private holdConsumed = false
 
   // ゲームモード関連
   private gameMode: GameMode = 'normal'
-  private endlessMochiIndex = 0
+  private sequenceIndex = 0 // mochiSequence上の位置（エンドレスでは循環）
   private maxStackHeight = 0
-  private gameStartTime = 0
+  private gameStartTime = 0 // シミュレーション時間（秒）
   private isCollapsed = false
 
   // エンドレスモードのフェーズ管理
   private endlessPhase: 'stacking' | 'mikan' | 'ending' = 'stacking'
   private mikanAttempted = false
+  private mikanAttemptedAt = 0 // シミュレーション時間（秒）
 
   private aimArrow: THREE.Group | null = null
 
-  private dai: THREE.Mesh | null = null
+  private dai: THREE.Group | null = null
 
   private directionGauge: GaugeGroup | null = null
   private elevationGauge: GaugeGroup | null = null
   private powerGauge: GaugeGroup | null = null
+  private spinGauge: GaugeGroup | null = null
+  private positionGauge: GaugeGroup | null = null
   private gaugeContainer: THREE.Group | null = null
 
   private trajectoryLine: THREE.Line | null = null
+  private impactMarker: THREE.Group | null = null
+  /** 自己ベストの1発（狙っている間だけ表示） */
+  private ghostShot: GhostShot | null = null
+  /** 着地を待っている1発（着地したら結果と一緒に履歴へ残す） */
+  private pendingShot: { shot: ReplayShot; wind: Wind } | null = null
+  // スリングショット操作（引っぱり始めた画面上の位置、引いていないときはnull）
+  private slingshotBand: THREE.Line | null = null
+  private slingStart: { x: number; y: number } | null = null
+  /** ゲームパッドの左スティックで引いているか */
+  private stickPulling = false
   private targetMarker: THREE.Mesh | null = null
 
   private phaseSprite: THREE.Sprite | null = null
   private instructionSprite: THREE.Sprite | null = null
+  private dangerSprite: THREE.Sprite | null = null
+  private windSprite: THREE.Sprite | null = null
+  private dangerText = ''
   private uiContainer: THREE.Group | null = null
 
   private previewMesh: THREE.Mesh | null = null
 
   private effectManager: EffectManager | null = null
   private timeScale = 1
+  /** 見せ場の自動スローモーション（timeScaleに重ねて掛ける） */
+  private slowMotion = new SlowMotionDirector()
 
   // お正月演出
   private skyGradient: SkyGradient | null = null
@@ -128,12 +215,54 @@ export class GameScene extends BaseScene {
 
   constructor(game: Game) {
     super(game)
+    this.slowMotion.addListener(this.slowMotionListener)
+  }
+
+  /**
+   * ゲームパッド（A: 決定・発射 / B: 1つ前のゲージへ戻る）
+   */
+  private gamepadListener: GamepadListener = {
+    onButtonDown: (button) => {
+      if (this.isReplayPlaying()) return
+      if (button === 'confirm') {
+        // 長押しアシストでは押している時間をupdateHoldToStopで見る
+        if (!this.assist.holdToStop || this.phase === 'sling') this.confirmPhase()
+      } else if (button === 'cancel') {
+        this.cancelPhase()
+      }
+    }
   }
 
   async enter(data?: Record<string, unknown>) {
+    // リプレイ指定時は記録されたモード・シードで再生する
+    const replay = data?.replay as ReplayDocument | undefined
+    this.replayPlayer = replay ? new ReplayPlayer(replay) : null
+
     // ゲームモードを取得
-    this.gameMode = (data?.mode as GameMode) ?? 'normal'
-    this.gameStartTime = Date.now()
+    this.gameMode = replay?.mode ?? (data?.mode as GameMode) ?? 'normal'
+    // シード指定があれば同じ乱数列・同じ物理結果を再現する
+    this.seed = replay?.seed ?? (data?.seed as number | undefined) ?? createRandomSeed()
+    // 当たり判定の形状も結果に影響するため、リプレイは記録時の品質で再生する
+    this.physicsQuality =
+      replay?.physicsQuality ??
+      (data?.physicsQuality as PhysicsQuality | undefined) ??
+      GameProgressManager.getInstance().getPhysicsQuality()
+    this.daiMotion =
+      replay?.daiMotion ?? (data?.daiMotion as DaiMotionType | undefined) ?? DEFAULT_DAI_MOTION
+    // 台座の記録がない古いリプレイは三方で再生する
+    this.pedestal = replay
+      ? replay.pedestal ?? DEFAULT_PEDESTAL
+      : (data?.pedestal as PedestalType | undefined) ??
+        GameProgressManager.getInstance().getPedestal(this.gameMode)
+    // リプレイは記録時の操作方法で表示する（発射は記録から行うので結果は変わらない）
+    this.controlScheme = replay
+      ? replay.controlScheme ?? DEFAULT_CONTROL_SCHEME
+      : (data?.controlScheme as ControlScheme | undefined) ??
+        GameProgressManager.getInstance().getControlScheme()
+    this.assist =
+      replay || this.controlScheme !== 'gauge'
+        ? DEFAULT_ASSIST_SETTINGS
+        : GameProgressManager.getInstance().getAssistSettings()
 
     this.resetState()
     this.setupPhysics()
@@ -146,6 +275,9 @@ export class GameScene extends BaseScene {
     this.createPreviewMesh()
     this.registerLayoutListener()
     this.effectManager = new EffectManager(this.scene)
+    this.prepareLauncher()
+    this.showReplayPreview()
+    this.animateCameraToStart()
   }
 
   async exit() {
@@ -159,17 +291,11 @@ export class GameScene extends BaseScene {
     // カメラ追従を停止
     this.game.cameraController.stopFollow()
 
-    // MochiManagerのクリーンアップ
-    this.mochiManager?.dispose()
-    this.mochiManager = null
+    // シミュレーションのクリーンアップ
+    this.simulation?.dispose()
+    this.simulation = null
     this.currentMochi = null
-
-    // ScoreSystemのクリーンアップ
-    this.scoreSystem = null
-
-    // 粘性マネージャーのクリーンアップ
-    this.stickinessManager?.dispose()
-    this.stickinessManager = null
+    this.replayPlayer = null
 
     // お正月演出のクリーンアップ
     this.skyGradient?.dispose()
@@ -182,17 +308,19 @@ export class GameScene extends BaseScene {
     this.sceneLighting = null
 
     this.clearScene()
-    this.world = null
   }
 
   update(delta: number) {
-    const scaledDelta = delta * this.timeScale
+    this.slowMotion.update(delta, this.simulation ?? undefined)
+    const scaledDelta = delta * this.timeScale * this.slowMotion.timeScale
     this.updatePhysics(scaledDelta)
-    this.syncMeshesWithBodies()
+    this.syncMeshesWithBodies(scaledDelta)
     this.updateAimArrowIfNeeded()
     this.updateGaugePositionIfVisible()
     this.updateUIPositionIfVisible()
-    this.updateGaugeOscillation(delta)
+    if (!this.applyGamepadAim(delta) && !this.updateHoldToStop(delta)) {
+      this.updateGaugeOscillation(delta)
+    }
     this.checkLandingCondition()
     this.effectManager?.update(delta)
 
@@ -203,7 +331,9 @@ export class GameScene extends BaseScene {
     // エンドレスモード: 最大高度の追跡と崩壊チェック
     if (this.gameMode === 'endless' && !this.isCollapsed) {
       this.updateMaxHeight()
+      this.updateDangerIndicator()
       this.checkCollapse()
+      this.checkMikanTimeout()
     }
   }
 
@@ -211,13 +341,43 @@ export class GameScene extends BaseScene {
    * 現在のスタック最大高度を更新
    */
   private updateMaxHeight(): void {
-    if (!this.mochiManager) return
-    const currentMaxHeight = this.mochiManager.getMaxHeight() - DAI_POSITION.y
+    if (!this.simulation) return
+    const currentMaxHeight =
+      this.simulation.mochiManager.getMaxHeight() - this.simulation.dai.position.y
     if (currentMaxHeight > this.maxStackHeight) {
       this.maxStackHeight = currentMaxHeight
     }
   }
 
+  /**
+   * 積み上げが倒れそうなら警告を表示（エンドレスモード用）
+   */
+  private updateDangerIndicator(): void {
+    if (!this.dangerSprite || !this.simulation) return
+
+    const { weakest } = this.simulation.analyzeStability()
+    const margin = weakest?.margin ?? 1
+    const level: DangerLevel =
+      margin < DANGER_MARGIN ? 'danger' : margin < CAUTION_MARGIN ? 'caution' : 'safe'
+
+    // 倒れそうな向きを画面の左右で示す
+    const dirX = weakest?.tippingDirection?.x ?? 0
+    const arrow = dirX < -0.5 ? '←' : dirX > 0.5 ? '→' : ''
+    const text =
+      level === 'danger' ? `${arrow}危険！崩れそう！${arrow}`
+        : level === 'caution' ? `${arrow}グラグラ…${arrow}`
+          : ''
+
+    // テクスチャの再生成は表示が変わったときだけ
+    if (text === this.dangerText) return
+    this.dangerText = text
+
+    this.dangerSprite.visible = level !== 'safe'
+    if (level !== 'safe') {
+      updateUITextSprite(this.dangerSprite, text, 60, level === 'danger' ? '#FF4444' : '#FFCC00')
+    }
+  }
+
   /**
    * 崩壊を検出（エンドレスモード用）
    * 飛行中も検出する（他の餅が崩れる場合があるため）
@@ -226,7 +386,8 @@ export class GameScene extends BaseScene {
   private checkCollapse(): void {
     // 着地直後は判定しない（安定化待ち）
     if (this.phase === 'landed') return
-    if (!this.mochiManager || this.mochiManager.getCount() === 0) return
+    const mochiManager = this.simulation?.mochiManager
+    if (!mochiManager || mochiManager.getCount() === 0) return
 
     // みかんフェーズ中は別判定
     if (this.endlessPhase === 'mikan') {
@@ -235,7 +396,7 @@ export class GameScene extends BaseScene {
     }
 
     // 台から外れた餅を検出（地面到達・横に落ちた・宙ぶらりん状態）
-    const fallenMochi = this.mochiManager.detectFallenFromDai()
+    const fallenMochi = this.simulation!.detectFallen()
     if (fallenMochi) {
       this.transitionToMikanPhase()
     }
@@ -264,7 +425,7 @@ export class GameScene extends BaseScene {
     if (!this.mikanAttempted) return
     if (this.phase === 'flying' || this.phase === 'landed') return
 
-    const mikans = this.mochiManager?.getByType('mikan')
+    const mikans = this.simulation?.mochiManager.getByType('mikan')
     const mikan = mikans && mikans.length > 0 ? mikans[0] : null
     if (!mikan) return
 
@@ -280,6 +441,18 @@ export class GameScene extends BaseScene {
     }
   }
 
+  /**
+   * みかん着地から一定時間経過したら成功扱いで終了
+   */
+  private checkMikanTimeout(): void {
+    if (!this.mikanAttempted || !this.simulation) return
+
+    const elapsed = this.simulation.elapsed - this.mikanAttemptedAt
+    if (elapsed > MIKAN_SETTLE_TIMEOUT_SECONDS) {
+      this.onGameEnd(true)
+    }
+  }
+
   /**
    * ゲーム終了処理（エンドレスモード）
    */
@@ -297,41 +470,105 @@ export class GameScene extends BaseScene {
     }
 
     this.effectManager?.showCutIn(cutInText, this.game.camera, () => {
-      const survivalTime = (Date.now() - this.gameStartTime) / 1000
+      const survivalTime = (this.simulation?.elapsed ?? 0) - this.gameStartTime
 
       // ScoreSystemで計算
-      const scoreResult = this.scoreSystem?.calculateEndless(
-        this.mochiManager!,
-        mikanSuccess
-      )
+      const scoreResult = this.simulation?.calculateEndlessScore(mikanSuccess)
 
       const resultData: EndlessResultData = {
         mode: 'endless',
         maxHeight: Math.round(this.maxStackHeight * 10) / 10,
-        mochiCount: this.mochiManager?.getCount() ?? 0,
+        mochiCount: this.simulation?.mochiManager.getCount() ?? 0,
         survivalTime: Math.round(survivalTime),
         mikanSuccess,
         rawScore: scoreResult?.rawScore ?? 0,
         displayScore: scoreResult?.displayScore ?? '0',
-        effectIntensity: scoreResult?.effectIntensity ?? 0.5
+        effectIntensity: scoreResult?.effectIntensity ?? 0.5,
+        assisted: this.isAssistedRun(),
+        replay: this.getReplayDocument()
       }
+      this.recordPlayStats(resultData)
       this.game.sceneManager.switchTo('result', resultData)
     })
   }
 
   private updatePhysics(delta: number) {
-    this.world?.step(1 / 60, delta, 3)
-    this.stickinessManager?.update()
+    // 描画フレームではなくシミュレーション時計の固定ステップで進める
+    this.simulation?.advance(delta, () => this.fireDueReplayShot())
   }
 
-  private syncMeshesWithBodies() {
+  /**
+   * リプレイ再生中か（操作をロックする）
+   */
+  private isReplayPlaying(): boolean {
+    return this.replayPlayer !== null && !this.replayPlayer.isFinished
+  }
+
+  /**
+   * 記録されたステップに達したら発射（物理ステップの直前に呼ぶ）
+   */
+  private fireDueReplayShot(): void {
+    if (!this.replayPlayer || !this.isAimingPhase()) return
+
+    const shot = this.replayPlayer.takeDue(this.simulation!.stepCount)
+    if (!shot) return
+
+    this.currentType = shot.mochiType
+    this.launchParams = toLaunchParameters(shot)
+    this.launch()
+  }
+
+  /**
+   * リプレイ再生中は次の発射の狙いを表示し、ゲージを隠す
+   */
+  private showReplayPreview(): void {
+    if (!this.isReplayPlaying()) return
+
+    const shot = this.replayPlayer!.peek()
+    if (shot) {
+      this.launchParams = toLaunchParameters(shot)
+      this.placeLauncher(this.launchParams.launchPosition)
+    }
+
+    this.gaugeContainer!.visible = false
+    this.trajectoryLine!.visible = true
+    this.updateAimArrow()
+    this.updateTrajectoryDisplay()
+    updateUITextSprite(this.instructionSprite!, 'リプレイ再生中', 60, '#FFD700')
+  }
+
+  /**
+   * このプレイの記録（リプレイ再生時は元の記録）
+   */
+  private getReplayDocument(): ReplayDocument | undefined {
+    return this.replayPlayer?.replay ?? this.replayRecorder?.toDocument()
+  }
+
+  private syncMeshesWithBodies(delta: number) {
     // MochiManagerが自動的にメッシュと物理ボディを同期
-    this.mochiManager?.update()
+    this.simulation?.mochiManager.update(delta)
+
+    // 動く台座とターゲットマーカーを追従させる
+    const dai = this.simulation?.dai
+    if (dai?.isMoving) {
+      if (this.dai) dai.syncObject(this.dai)
+      this.targetMarker?.position.copy(dai.targetPosition)
+    }
+  }
+
+  private isAimingPhase(): boolean {
+    return (
+      this.phase === 'position' ||
+      this.phase === 'direction' ||
+      this.phase === 'elevation' ||
+      this.phase === 'power' ||
+      this.phase === 'spin' ||
+      this.phase === 'sling'
+    )
   }
 
   private updateAimArrowIfNeeded() {
-    const isGaugePhase = this.phase === 'direction' || this.phase === 'elevation' || this.phase === 'power'
-    if (this.aimArrow && isGaugePhase) {
+    if (this.aimArrow && this.isAimingPhase()) {
       this.updateAimArrow()
     }
   }
@@ -349,56 +586,137 @@ export class GameScene extends BaseScene {
   }
 
   private updateGaugeOscillation(delta: number) {
-    const isGaugePhase = this.phase === 'direction' || this.phase === 'elevation' || this.phase === 'power'
-    if (!isGaugePhase) return
+    if (!this.isAimingPhase() || this.phase === 'sling' || this.isReplayPlaying()) return
+
+    const motion = advanceGauge(
+      { value: this.gaugeValue, direction: this.gaugeDirection, pause: this.gaugePause },
+      delta,
+      this.assist
+    )
+    this.gaugeValue = motion.value
+    this.gaugeDirection = motion.direction
+    this.gaugePause = motion.pause
 
-    this.gaugeValue += this.gaugeDirection * this.gaugeSpeed * delta
+    this.updateCurrentGauge()
+    this.updateTrajectoryDisplay()
+  }
 
-    if (this.gaugeValue >= 100) {
-      this.gaugeValue = 100
-      this.gaugeDirection = -1
-    } else if (this.gaugeValue <= 0) {
-      this.gaugeValue = 0
-      this.gaugeDirection = 1
+  /**
+   * ゲームパッドのスティックで狙う
+   * - ゲージ: 倒している間は往復を止め、傾きでゲージの値を直接決める
+   * - スリングショット: 左スティックで引っぱり、右スティックの上下で角度
+   * @returns スティックで操作した（ゲージの往復を止める）
+   */
+  private applyGamepadAim(delta: number): boolean {
+    if (!this.isAimingPhase() || this.isReplayPlaying()) return false
+
+    const stick = this.game.gamepad.getStick()
+    const tilted = stick.x !== 0 || stick.y !== 0
+
+    if (this.phase === 'sling') {
+      const elevation = this.game.gamepad.getRightStick().y
+      if (elevation !== 0) {
+        this.adjustSlingElevation(-elevation * STICK_ELEVATION_RATE * delta)
+      }
+      // スティックを戻したら引きを取り消す（発射はAボタン）
+      if (!tilted && !this.stickPulling) return false
+      this.stickPulling = tilted
+      const aim = tilted
+        ? pullToAim({ x: stick.x * SLINGSHOT_FULL_PULL, y: stick.y * SLINGSHOT_FULL_PULL })
+        : null
+      Object.assign(this.launchParams, aim ?? { angleH: 0, power: 0 })
+      this.updateSlingshot(aim !== null)
+      return true
     }
 
+    if (!tilted) return false
+    const horizontal =
+      this.phase === 'position' || this.phase === 'direction' || this.phase === 'spin'
+    this.gaugeValue = horizontal ? 50 + stick.x * 50 : 50 - stick.y * 50
     this.updateCurrentGauge()
     this.updateTrajectoryDisplay()
+    return true
+  }
+
+  /**
+   * 長押しアシスト: 押している間はゲージを止め、押し続けると決定する
+   * 決定した後は一度離すまで次のゲージは止めない
+   * @returns ゲージを止めている
+   */
+  private updateHoldToStop(delta: number): boolean {
+    if (!this.assist.holdToStop || !this.isGaugeInputPhase()) return false
+
+    const held = this.heldInputs.size > 0 || this.game.gamepad.isHeld('confirm')
+    if (!held) {
+      this.holdTime = 0
+      this.holdConsumed = false
+      return false
+    }
+    if (this.holdConsumed) return false
+
+    this.holdTime += delta
+    if (this.holdTime >= HOLD_CONFIRM_SECONDS) {
+      this.holdTime = 0
+      this.holdConsumed = true
+      this.confirmPhase()
+    }
+    return true
+  }
+
+  /**
+   * ゲージで値を決めるフェーズか（スリングショットを除く）
+   */
+  private isGaugeInputPhase(): boolean {
+    return this.isAimingPhase() && this.phase !== 'sling' && !this.isReplayPlaying()
+  }
+
+  private getGaugeInstruction(phase: GaugePhase): string {
+    if (this.assist.holdToStop) return `長押しで${GAUGE_INSTRUCTIONS[phase]}`
+    if (this.assist.singleSwitch) return `スイッチで${GAUGE_INSTRUCTIONS[phase]}`
+    return `タップで${GAUGE_INSTRUCTIONS[phase]}`
   }
 
   private updateCurrentGauge() {
-    if (this.phase === 'direction' && this.directionGauge) {
+    if (this.phase === 'position' && this.positionGauge) {
+      this.placeLauncher(
+        getLauncherPosition(updateLauncherGauge(this.positionGauge, this.gaugeValue))
+      )
+    } else if (this.phase === 'direction' && this.directionGauge) {
       this.launchParams.angleH = updateDirectionGauge(this.directionGauge, this.gaugeValue)
     } else if (this.phase === 'elevation' && this.elevationGauge) {
       this.launchParams.angleV = updateElevationGauge(this.elevationGauge, this.gaugeValue)
     } else if (this.phase === 'power' && this.powerGauge) {
       updatePowerGauge(this.powerGauge, this.gaugeValue)
+    } else if (this.phase === 'spin' && this.spinGauge) {
+      Object.assign(this.launchParams, updateSpinGauge(this.spinGauge, this.gaugeValue))
     }
   }
 
   private checkLandingCondition() {
-    if (this.phase !== 'flying' || !this.currentMochi) return
-
-    const speed = this.currentMochi.getSpeed()
-    const yPos = this.currentMochi.height
-    const timeSinceLaunch = (Date.now() - this.flyingStartTime) / 1000
+    // 着地の判定と着地状態への切り替えはシミュレーションが毎ステップ行う
+    const landed = this.simulation?.takeLanded()
+    if (this.phase !== 'flying' || !this.currentMochi || !landed) return
 
-    const isSlowEnough = speed < LANDING_SPEED_THRESHOLD
-    const isNearGround = yPos < LANDING_HEIGHT_THRESHOLD
-    const hasLandedOnSomething = yPos < LANDING_HEIGHT_SOFT_THRESHOLD && speed < LANDING_SPEED_SOFT_THRESHOLD
-    const timeoutReached = timeSinceLaunch > LANDING_TIMEOUT_SECONDS
-
-    if ((isSlowEnough && isNearGround) || hasLandedOnSomething || timeoutReached) {
-      this.onObjectLanded()
-    }
+    this.onObjectLanded()
   }
 
   private setupTrajectory() {
     this.trajectoryLine = createTrajectoryLine(TRAJECTORY_POINTS)
     this.scene.add(this.trajectoryLine)
 
-    this.targetMarker = createTargetMarker()
+    this.impactMarker = createImpactMarker()
+    this.scene.add(this.impactMarker)
+
+    this.ghostShot = createGhostShot(TRAJECTORY_POINTS)
+    this.scene.add(this.ghostShot.group)
+
+    const dai = this.simulation?.dai
+    this.targetMarker = createTargetMarker(dai?.surface.radius)
+    if (dai) this.targetMarker.position.copy(dai.targetPosition)
     this.scene.add(this.targetMarker)
+
+    this.slingshotBand = createSlingshotBand()
+    this.scene.add(this.slingshotBand)
   }
 
   private updateTrajectoryDisplay() {
@@ -410,13 +728,23 @@ export class GameScene extends BaseScene {
     const result = calculateTrajectory(
       {
         ...this.launchParams,
-        power: currentPower
+        power: currentPower,
+        wind: this.simulation?.upcomingWind,
+        target: this.simulation?.dai.targetPosition,
+        obstacles: this.simulation?.getTrajectoryObstacles(),
+        projectile: {
+          radius: getMochiConfig(this.currentType).radius,
+          halfHeight: getMochiConfig(this.currentType).height / 2
+        }
       },
       TRAJECTORY_POINTS
     )
 
-    const color = getTrajectoryColor(result.landingDistance)
+    const color = getTrajectoryColor(result.landingDistance, result.contact)
     updateTrajectoryLine(this.trajectoryLine, result.points, color)
+    if (this.impactMarker) {
+      updateImpactMarker(this.impactMarker, this.trajectoryLine.visible ? result.contact : null)
+    }
   }
 
   private setupCamera() {
@@ -430,6 +758,12 @@ export class GameScene extends BaseScene {
 
     const gaugeScale = 0.3
 
+    this.positionGauge = createLauncherGauge()
+    this.positionGauge.group.scale.setScalar(gaugeScale)
+    this.positionGauge.group.position.set(0, 0, 0)
+    this.positionGauge.group.visible = false
+    this.gaugeContainer.add(this.positionGauge.group)
+
     this.directionGauge = createHorizontalGauge()
     this.directionGauge.group.scale.setScalar(gaugeScale)
     this.directionGauge.group.position.set(0, 0, 0)
@@ -446,120 +780,118 @@ export class GameScene extends BaseScene {
     this.powerGauge.group.position.set(0, 0, 0)
     this.powerGauge.group.visible = false
     this.gaugeContainer.add(this.powerGauge.group)
+
+    this.spinGauge = createSpinGauge()
+    this.spinGauge.group.scale.setScalar(gaugeScale)
+    this.spinGauge.group.position.set(0, 0, 0)
+    this.spinGauge.group.visible = false
+    this.gaugeContainer.add(this.spinGauge.group)
   }
 
   private resetState() {
-    // MochiManagerをクリア（setupPhysicsで再作成）
-    this.mochiManager?.dispose()
-    this.mochiManager = null
+    // シミュレーションを破棄（setupPhysicsで再作成）
+    this.simulation?.dispose()
+    this.simulation = null
     this.currentMochi = null
-    this.currentType = 'base'
+    this.pendingShot = null
+    this.currentType = getGameModeConfig(this.gameMode).mochiSequence[0]
     this.phase = 'direction'
     this.launchParams = createDefaultLaunchParameters()
     this.gaugeValue = 50
     this.gaugeDirection = 1
+    this.gaugePause = 0
     this.timeScale = 1
+    this.slowMotion.reset()
+    this.slowMotion.setEnabled(GameProgressManager.getInstance().isSlowMotionEnabled())
     this.skyTime = 0
-    this.stickinessManager?.dispose()
-
-    // ScoreSystemを初期化
-    this.scoreSystem = new ScoreSystem(this.gameMode)
+    this.gameStartTime = 0
 
     // エンドレスモード用のリセット
-    this.endlessMochiIndex = 0
+    this.sequenceIndex = 0
     this.maxStackHeight = 0
     this.isCollapsed = false
     this.endlessPhase = 'stacking'
     this.mikanAttempted = false
+    this.mikanAttemptedAt = 0
   }
 
   private setupPhysics() {
-    this.world = new CANNON.World()
-    this.world.gravity.set(0, -9.8, 0)
-    this.world.broadphase = new CANNON.NaiveBroadphase()
-
-    this.mochiMaterial = new CANNON.Material('mochi')
-    this.groundMaterial = new CANNON.Material('ground')
-
-    this.setupGroundBody()
-    this.setupDaiBody()
-    this.setupContactMaterials()
-
-    // MochiManagerの初期化
-    this.mochiManager = new MochiManager(
-      this.world!,
-      this.scene,
-      this.mochiMaterial!,
-      this.gameMode
+    // 乱数・時計・物理ワールドをシードから初期化
+    this.simulation = new StackingSimulation({
+      seed: this.seed,
+      mode: this.gameMode,
+      physicsQuality: this.physicsQuality,
+      daiMotion: this.daiMotion,
+      pedestal: this.pedestal,
+      scene: this.scene
+    })
+    this.gameStartTime = this.simulation.elapsed
+    this.simulation.stickinessManager.addListener(this.stickinessListener)
+    this.simulation.addImpactListener(this.impactListener)
+
+    // 発射記録を初期化
+    this.replayRecorder = new ReplayRecorder(
+      this.gameMode,
+      this.seed,
+      this.physicsQuality,
+      this.simulation.clock.timeStep,
+      this.daiMotion,
+      this.pedestal,
+      this.controlScheme,
+      isAssistActive(this.assist)
     )
-
-    // 粘性マネージャーの初期化
-    this.stickinessManager = new StickinessManager(this.world!)
-    this.setupCollisionListeners()
   }
 
-  private setupGroundBody() {
-    const groundShape = new CANNON.Plane()
-    this.groundBody = new CANNON.Body({ mass: 0, material: this.groundMaterial! })
-    this.groundBody.addShape(groundShape)
-    this.groundBody.quaternion.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2)
-    this.groundBody.position.set(0, -2, 0)
-    this.world!.addBody(this.groundBody)
+  /**
+   * くっつき・離脱の演出
+   */
+  private stickinessListener: StickinessListener = {
+    onConnect: (bond) => {
+      this.game.audioManager.playStick()
+      this.effectManager?.emitDust(this.getBondPosition(bond), 0.3)
+    },
+    onBreak: (event) => {
+      this.game.audioManager.playUnstick()
+      this.effectManager?.emitDust(this.getBondPosition(event), 0.2)
+    }
   }
 
-  private setupDaiBody() {
-    const daiShape = new CANNON.Cylinder(1.8, 2, 0.5, 16)
-    this.daiBody = new CANNON.Body({ mass: 0, material: this.groundMaterial! })
-    this.daiBody.addShape(daiShape)
-    this.daiBody.position.set(DAI_POSITION.x, DAI_POSITION.y, DAI_POSITION.z)
-    this.world!.addBody(this.daiBody)
+  /**
+   * 餅・台座・床の衝突音（崩落時は連続して鳴る）とひび割れの演出
+   */
+  private impactListener: ImpactListener = {
+    onImpact: (impact) => this.game.audioManager.playImpact(impact),
+    onCrack: (mochi) => {
+      this.game.audioManager.playCrack()
+      this.effectManager?.emitDust(mochi.position, 0.4)
+    },
+    onShatter: (event) => {
+      this.game.audioManager.playShatter()
+      const { x, y, z } = event.position
+      this.effectManager?.emitDust(new THREE.Vector3(x, y, z), 1)
+      this.game.cameraEffects?.triggerLandingEffect(0.5)
+      // 飛行中の餅が割れたら最初の破片を追いかける
+      const current = this.simulation?.getCurrentMochi()
+      if (this.currentMochi && current && this.currentMochi.id === event.parentId) {
+        this.currentMochi = current
+      }
+    }
   }
 
-  private setupContactMaterials() {
-    const mochiGroundContact = new CANNON.ContactMaterial(this.mochiMaterial!, this.groundMaterial!, {
-      friction: 1.2,
-      restitution: 0.02
-    })
-    this.world!.addContactMaterial(mochiGroundContact)
-
-    const mochiMochiContact = new CANNON.ContactMaterial(this.mochiMaterial!, this.mochiMaterial!, {
-      friction: 1.5,
-      restitution: 0.01
-    })
-    this.world!.addContactMaterial(mochiMochiContact)
+  /**
+   * スローモーションに合わせたカメラ・ポストエフェクト
+   */
+  private slowMotionListener: SlowMotionListener = {
+    onMomentStart: (moment) => this.game.cameraEffects?.triggerSlowMotionEffect(moment)
   }
 
-  private setupCollisionListeners(): void {
-    // 餅オブジェクト同士の衝突を検出
-    this.world!.addEventListener(
-      'beginContact',
-      (event: { bodyA: CANNON.Body; bodyB: CANNON.Body }) => {
-        const { bodyA, bodyB } = event
-        if (!this.mochiManager) return
-
-        // 両方が餅オブジェクト（地面・台座ではない）かをチェック
-        const allMochi = this.mochiManager.getAll()
-        const isMochiA = allMochi.some((m) => m.body === bodyA)
-        const isMochiB = allMochi.some((m) => m.body === bodyB)
-
-        if (!isMochiA || !isMochiB) return
-
-        // 接触法線を取得
-        const contact = this.world!.contacts.find(
-          (c) =>
-            (c.bi === bodyA && c.bj === bodyB) ||
-            (c.bi === bodyB && c.bj === bodyA)
-        )
-
-        if (contact) {
-          const normal = contact.ni.clone()
-          // 法線の向きを正規化（常に下から上への向き）
-          if (contact.bi === bodyB) normal.negate()
-
-          this.stickinessManager?.onCollision(bodyA, bodyB, normal)
-        }
-      }
-    )
+  /**
+   * 接続部分（上の餅の底面中心）
+   */
+  private getBondPosition(bond: StickyBond): THREE.Vector3 {
+    const position = bond.upper.position
+    position.y = bond.upper.bottomY
+    return position
   }
 
   private setupScene() {
@@ -605,16 +937,8 @@ export class GameScene extends BaseScene {
   }
 
   private setupDai() {
-    const daiGeometry = new THREE.CylinderGeometry(1.8, 2, 0.5, 32)
-    const daiMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b4513,
-      roughness: 0.6,
-      metalness: 0.2
-    })
-    this.dai = new THREE.Mesh(daiGeometry, daiMaterial)
-    this.dai.position.set(DAI_POSITION.x, DAI_POSITION.y, DAI_POSITION.z)
-    this.dai.castShadow = true
-    this.dai.receiveShadow = true
+    if (!this.simulation) return
+    this.dai = this.simulation.dai.createMesh()
     this.scene.add(this.dai)
   }
 
@@ -645,15 +969,16 @@ export class GameScene extends BaseScene {
     const hRad = degreesToRadians(this.launchParams.angleH)
     const vRad = degreesToRadians(this.launchParams.angleV)
 
-    this.aimArrow.rotation.y = -hRad
+    // 発射台の向き（台座の中心）からの相対角度
+    this.aimArrow.rotation.y = getLauncherYaw(this.launchParams.launchPosition) - hRad
     this.aimArrow.rotation.x = vRad
   }
 
   private createPreviewMesh() {
     this.removePreviewMesh()
 
-    const config = MOCHI_CONFIGS[this.currentType]
-    const geometry = this.createPreviewGeometry(config)
+    const config = getMochiConfig(this.currentType)
+    const geometry = config.geometry(config)
     const material = new THREE.MeshStandardMaterial({
       color: config.color,
       roughness: config.roughness,
@@ -668,13 +993,6 @@ export class GameScene extends BaseScene {
     this.scene.add(this.previewMesh)
   }
 
-  private createPreviewGeometry(config: typeof MOCHI_CONFIGS[MochiType]): THREE.BufferGeometry {
-    if (config.type === 'mikan') {
-      return new THREE.SphereGeometry(config.radius, 32, 24)
-    }
-    return createMochiGeometry(config.radius, config.height)
-  }
-
   private removePreviewMesh() {
     if (!this.previewMesh) return
 
@@ -694,13 +1012,49 @@ export class GameScene extends BaseScene {
     this.phaseSprite.position.set(0, 1.6, 0)
     this.uiContainer.add(this.phaseSprite)
 
-    this.instructionSprite = createUITextSprite('タップで方向を決定！', 60, '#FFFFFF')
+    this.instructionSprite = createUITextSprite(
+      this.getGaugeInstruction('direction'),
+      60,
+      '#FFFFFF'
+    )
     this.instructionSprite.position.set(0, 0.7, 0)
     this.uiContainer.add(this.instructionSprite)
+
+    this.windSprite = createUITextSprite('', 50, '#CCEEFF')
+    this.windSprite.position.set(0, -0.7, 0)
+    // 風のないモードでは表示しない
+    this.windSprite.visible = (this.simulation?.windStrength ?? 0) > 0
+    this.uiContainer.add(this.windSprite)
+    this.updateWindIndicator()
+
+    // エンドレスモードでは積み上げの安定性を警告する
+    this.dangerSprite = null
+    if (this.gameMode === 'endless') {
+      this.dangerSprite = createUITextSprite('', 60, '#FFCC00')
+      this.dangerSprite.position.set(0, -0.2, 0)
+      this.dangerSprite.visible = false
+      this.dangerText = ''
+      this.uiContainer.add(this.dangerSprite)
+    }
+  }
+
+  /**
+   * 次の発射で受ける風を表示し、雪の流れにも反映する
+   */
+  private updateWindIndicator(): void {
+    const wind = this.simulation?.upcomingWind
+    if (!wind) return
+
+    const arrow = getWindArrow(wind)
+    const text = arrow ? `風 ${arrow} ${getWindStrength(wind).toFixed(1)}` : '無風'
+    if (this.windSprite) {
+      updateUITextSprite(this.windSprite, text, 50, '#CCEEFF')
+    }
+    this.snowEffect?.setWind(wind.x, wind.z)
   }
 
   private getPhaseText(): string {
-    const config = MOCHI_CONFIGS[this.currentType]
+    const config = getMochiConfig(this.currentType)
     return `${config.displayName} を発射！`
   }
 
@@ -708,39 +1062,212 @@ export class GameScene extends BaseScene {
     window.addEventListener('touchend', this.onConfirmGauge)
     window.addEventListener('click', this.onConfirmGauge)
     window.addEventListener('keydown', this.onKeyDown)
+    window.addEventListener('keyup', this.onKeyUp)
+    window.addEventListener('pointerdown', this.onHoldPointerDown)
+    window.addEventListener('pointerup', this.onHoldPointerUp)
+    window.addEventListener('pointercancel', this.onHoldPointerUp)
+    window.addEventListener('pointerdown', this.onSlingPointerDown)
+    window.addEventListener('pointermove', this.onSlingPointerMove)
+    window.addEventListener('pointerup', this.onSlingPointerUp)
+    window.addEventListener('wheel', this.onSlingWheel)
+    this.game.gamepad.addListener(this.gamepadListener)
   }
 
   private removeEventListeners() {
     window.removeEventListener('touchend', this.onConfirmGauge)
     window.removeEventListener('click', this.onConfirmGauge)
     window.removeEventListener('keydown', this.onKeyDown)
+    window.removeEventListener('keyup', this.onKeyUp)
+    window.removeEventListener('pointerdown', this.onHoldPointerDown)
+    window.removeEventListener('pointerup', this.onHoldPointerUp)
+    window.removeEventListener('pointercancel', this.onHoldPointerUp)
+    window.removeEventListener('pointerdown', this.onSlingPointerDown)
+    window.removeEventListener('pointermove', this.onSlingPointerMove)
+    window.removeEventListener('pointerup', this.onSlingPointerUp)
+    window.removeEventListener('wheel', this.onSlingWheel)
+    this.game.gamepad.removeListener(this.gamepadListener)
+    this.slingStart = null
+    this.stickPulling = false
+    this.heldInputs.clear()
   }
 
   private onConfirmGauge = (e: Event) => {
     e.preventDefault()
+    if (this.isReplayPlaying()) return
+    // スリングショットは離したときに発射する（タップでは何もしない）
+    if (this.phase === 'sling') return
+    // 長押しアシストではタップで決定しない
+    if (this.assist.holdToStop) return
 
-    const phaseHandlers: Record<string, () => void> = {
-      direction: () => this.confirmDirection(),
-      elevation: () => this.confirmElevation(),
-      power: () => this.confirmPowerAndLaunch()
-    }
-
-    phaseHandlers[this.phase]?.()
+    this.confirmPhase()
   }
 
   private onKeyDown = (e: KeyboardEvent) => {
-    if (e.key !== ' ' && e.key !== 'Enter') return
+    if (this.phase === 'sling' && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault()
+      this.adjustSlingElevation(e.key === 'ArrowUp' ? 1 : -1)
+      return
+    }
+    if (!this.assist.singleSwitch && (e.key === 'g' || e.key === 'G')) {
+      this.toggleGhostShot()
+      return
+    }
+    // 1スイッチのアシストではどのキーも決定キーとして扱う
+    if (!isSwitchKey(e.key, this.assist.singleSwitch)) return
 
     e.preventDefault()
+    if (this.isReplayPlaying()) return
+    if (this.assist.holdToStop) {
+      this.heldInputs.add('key')
+      return
+    }
+    // 1スイッチでは押しっぱなしのキーリピートで次々に決定しない
+    if (this.assist.singleSwitch && e.repeat) return
+    this.confirmPhase()
+  }
+
+  private onKeyUp = () => {
+    this.heldInputs.delete('key')
+  }
+
+  private onHoldPointerDown = () => {
+    if (this.assist.holdToStop) this.heldInputs.add('pointer')
+  }
+
+  private onHoldPointerUp = () => {
+    this.heldInputs.delete('pointer')
+  }
+
+  /**
+   * 今のフェーズを決定する（スリングショットは引いていれば発射）
+   */
+  private confirmPhase() {
     const phaseHandlers: Record<string, () => void> = {
+      position: () => this.confirmLauncherPosition(),
       direction: () => this.confirmDirection(),
       elevation: () => this.confirmElevation(),
-      power: () => this.confirmPowerAndLaunch()
+      power: () => this.confirmPower(),
+      spin: () => this.confirmSpinAndLaunch(),
+      sling: () => {
+        if (this.launchParams.power > 0) this.launch()
+      }
     }
 
     phaseHandlers[this.phase]?.()
   }
 
+  /**
+   * 1つ前のゲージへ戻る（発射台を動かせないモードでは位置決めには戻らない）
+   * スリングショットで戻る先がなければ引きを取り消す
+   */
+  private cancelPhase() {
+    const previous = PREVIOUS_GAUGE_PHASES[this.phase]
+    const canReposition = getGameModeConfig(this.gameMode).launcher === 'free'
+    if (previous && (previous !== 'position' || canReposition)) {
+      this.returnToGaugePhase(previous)
+    } else if (this.phase === 'sling') {
+      this.slingStart = null
+      Object.assign(this.launchParams, { angleH: 0, power: 0 })
+      this.updateSlingshot(false)
+    }
+  }
+
+  private returnToGaugePhase(phase: GaugePhase) {
+    const gauges: Record<GaugePhase, GaugeGroup | null> = {
+      position: this.positionGauge,
+      direction: this.directionGauge,
+      elevation: this.elevationGauge,
+      power: this.powerGauge,
+      spin: this.spinGauge
+    }
+    for (const [gaugePhase, gauge] of Object.entries(gauges)) {
+      if (gauge) gauge.group.visible = gaugePhase === phase
+    }
+
+    // スリングショットから戻るときは引いた餅とゴムを戻す
+    if (this.phase === 'sling') {
+      this.slingStart = null
+      this.stickPulling = false
+      this.slingshotBand!.visible = false
+      this.trajectoryLine!.visible = true
+      this.placeLauncher(this.launchParams.launchPosition)
+    }
+
+    this.phase = phase
+    this.gaugeValue = phase === 'power' ? 0 : 50
+    this.gaugeDirection = 1
+    this.gaugePause = 0
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction(phase), 60, '#FFFFFF')
+  }
+
+  private confirmLauncherPosition() {
+    this.game.audioManager.playLand()
+
+    this.positionGauge!.group.visible = false
+    this.beginAiming()
+    this.animateCameraToStart()
+  }
+
+  /**
+   * 発射台が決まったら狙いを付け始める（操作方法によってゲージかスリングショット）
+   */
+  private beginAiming() {
+    this.gaugeValue = 50
+    this.gaugeDirection = 1
+    this.gaugePause = 0
+
+    if (this.controlScheme === 'slingshot') {
+      this.phase = 'sling'
+      this.launchParams.power = 0
+      this.slingStart = null
+      this.stickPulling = false
+      this.directionGauge!.group.visible = false
+      this.updateSlingshot(false)
+      updateUITextSprite(this.instructionSprite!, '引っぱって離すと発射！ ↑↓で角度', 60, '#FFFFFF')
+      return
+    }
+
+    this.phase = 'direction'
+    this.directionGauge!.group.visible = true
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction('direction'), 60, '#FFFFFF')
+  }
+
+  /**
+   * 発射台の位置を決める（モードに応じて正面固定・プレイヤーが動かす・毎回ランダム）
+   */
+  private prepareLauncher() {
+    this.showGhostShot()
+    const launcher = getGameModeConfig(this.gameMode).launcher
+    if (launcher === 'random') {
+      this.placeLauncher(this.simulation!.rollLauncherPosition())
+    } else {
+      this.placeLauncher(this.launchParams.launchPosition)
+    }
+    // 1スイッチのアシストでは発射位置を選ばず正面から撃つ
+    if (launcher !== 'free' || this.assist.singleSwitch) {
+      this.beginAiming()
+      return
+    }
+
+    this.phase = 'position'
+    this.gaugeValue = 50
+    this.gaugeDirection = 1
+    this.gaugePause = 0
+    this.directionGauge!.group.visible = false
+    this.positionGauge!.group.visible = true
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction('position'), 60, '#FFFFFF')
+  }
+
+  /**
+   * 発射台を動かし、プレビューの餅と狙いの矢印を付いて行かせる
+   */
+  private placeLauncher(position: THREE.Vector3) {
+    this.launchParams.launchPosition = position.clone()
+    this.previewMesh?.position.copy(position)
+    this.aimArrow?.position.copy(position)
+    this.updateAimArrow()
+  }
+
   private confirmDirection() {
     this.launchParams.angleH = (this.gaugeValue - 50) * 1.2
     this.game.audioManager.playLand()
@@ -750,9 +1277,10 @@ export class GameScene extends BaseScene {
 
     this.gaugeValue = 50
     this.gaugeDirection = 1
+    this.gaugePause = 0
     this.phase = 'elevation'
 
-    updateUITextSprite(this.instructionSprite!, 'タップで角度を決定！', 60, '#FFFFFF')
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction('elevation'), 60, '#FFFFFF')
   }
 
   private confirmElevation() {
@@ -764,19 +1292,108 @@ export class GameScene extends BaseScene {
 
     this.gaugeValue = 0
     this.gaugeDirection = 1
+    this.gaugePause = 0
     this.phase = 'power'
 
-    updateUITextSprite(this.instructionSprite!, 'タップでパワーを決定！', 60, '#FFFFFF')
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction('power'), 60, '#FFFFFF')
   }
 
-  private confirmPowerAndLaunch() {
+  private confirmPower() {
     this.launchParams.power = this.gaugeValue
+    this.game.audioManager.playLand()
+
+    // 1スイッチのアシストは方向・角度・パワーの3回で発射する（スピンなし）
+    if (this.assist.singleSwitch) {
+      this.powerGauge!.group.visible = false
+      this.launch()
+      return
+    }
+
+    this.powerGauge!.group.visible = false
+    this.spinGauge!.group.visible = true
+
+    this.gaugeValue = 50
+    this.gaugeDirection = 1
+    this.gaugePause = 0
+    this.phase = 'spin'
+
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction('spin'), 60, '#FFFFFF')
+  }
+
+  private confirmSpinAndLaunch() {
+    Object.assign(this.launchParams, gaugeToSpin(this.gaugeValue))
     this.launch()
   }
 
+  private onSlingPointerDown = (e: PointerEvent) => {
+    if (this.phase !== 'sling' || this.isReplayPlaying()) return
+    this.slingStart = { x: e.clientX, y: e.clientY }
+  }
+
+  private onSlingPointerMove = (e: PointerEvent) => {
+    if (this.phase !== 'sling' || !this.slingStart) return
+
+    const aim = pullToAim(
+      getSlingshotPull(this.slingStart, { x: e.clientX, y: e.clientY }, window.innerHeight)
+    )
+    Object.assign(this.launchParams, aim ?? { angleH: 0, power: 0 })
+    this.updateSlingshot(aim !== null)
+  }
+
+  /**
+   * 離したら発射（引きが短すぎるときは取り消して引き直せる）
+   */
+  private onSlingPointerUp = (e: PointerEvent) => {
+    if (this.phase !== 'sling' || !this.slingStart) return
+
+    const aim = pullToAim(
+      getSlingshotPull(this.slingStart, { x: e.clientX, y: e.clientY }, window.innerHeight)
+    )
+    this.slingStart = null
+    if (!aim) {
+      Object.assign(this.launchParams, { angleH: 0, power: 0 })
+      this.updateSlingshot(false)
+      return
+    }
+
+    Object.assign(this.launchParams, aim)
+    this.launch()
+  }
+
+  private onSlingWheel = (e: WheelEvent) => {
+    if (this.phase !== 'sling' || e.deltaY === 0) return
+    this.adjustSlingElevation(e.deltaY < 0 ? 1 : -1)
+  }
+
+  private adjustSlingElevation(steps: number) {
+    if (this.isReplayPlaying()) return
+    this.launchParams.angleV = adjustSlingshotElevation(this.launchParams.angleV, steps)
+    this.updateSlingshot(this.launchParams.power > 0)
+  }
+
+  /**
+   * 引いた餅・ゴム・軌道の表示を今の狙いに合わせる
+   * @param pulling 発射できるだけ引いているか（引いている間だけゴムと軌道を出す）
+   */
+  private updateSlingshot(pulling: boolean) {
+    const pouch = getPouchPosition(this.launchParams)
+    this.previewMesh?.position.copy(pouch)
+    if (this.slingshotBand) {
+      updateSlingshotBand(this.slingshotBand, this.launchParams.launchPosition, pouch)
+      this.slingshotBand.visible = pulling
+    }
+    this.trajectoryLine!.visible = pulling
+    this.updateAimArrow()
+    this.updateTrajectoryDisplay()
+  }
+
   private launch() {
     this.phase = 'flying'
-    this.flyingStartTime = Date.now()
+    this.replayRecorder?.recordShot(
+      this.currentType,
+      this.launchParams,
+      this.simulation!.stepCount
+    )
     this.game.audioManager.playLaunch()
 
     this.removePreviewMesh()
@@ -784,17 +1401,22 @@ export class GameScene extends BaseScene {
     this.gaugeContainer!.visible = false
     this.aimArrow!.visible = false
     this.trajectoryLine!.visible = false
+    if (this.impactMarker) this.impactMarker.visible = false
+    if (this.ghostShot) this.ghostShot.group.visible = false
+    if (this.slingshotBand) this.slingshotBand.visible = false
 
     updateUITextSprite(this.instructionSprite!, '飛んでいます...', 60, '#FFFFFF')
 
-    // MochiManagerで餅を作成
-    const mochi = this.mochiManager!.createMochi(
-      this.currentType,
-      this.launchParams.launchPosition
-    )
-    this.currentMochi = mochi
+    // 風は発射で次の分に入れ替わるので、先に控えておく
+    this.pendingShot = this.replayPlayer
+      ? null
+      : {
+          shot: createReplayShot(this.currentType, this.launchParams, this.simulation!.stepCount),
+          wind: this.simulation!.upcomingWind
+        }
 
-    this.applyLaunchVelocity(mochi)
+    // 餅を作成して発射（初速のばらつきはシード乱数）
+    this.currentMochi = this.simulation!.launch(this.currentType, this.launchParams)
 
     const launchDirection = calculateInitialVelocity(this.launchParams).normalize()
     this.effectManager?.emitSmoke(this.launchParams.launchPosition, launchDirection)
@@ -802,34 +1424,17 @@ export class GameScene extends BaseScene {
     this.animateCameraForFlight()
   }
 
-  private applyLaunchVelocity(mochi: MochiObject) {
-    const velocity = calculateInitialVelocity(this.launchParams)
-
-    const randomX = (Math.random() - 0.5) * 2
-    const randomZ = (Math.random() - 0.5) * 1
-
-    mochi.setVelocity(new THREE.Vector3(
-      velocity.x + randomX,
-      velocity.y,
-      velocity.z + randomZ
-    ))
-
-    mochi.setAngularVelocity(new THREE.Vector3(
-      (Math.random() - 0.5) * 5,
-      (Math.random() - 0.5) * 5,
-      (Math.random() - 0.5) * 5
-    ))
-  }
-
   private animateCameraForFlight() {
     const hRad = degreesToRadians(this.launchParams.angleH)
+    const yaw = getLauncherYaw(this.launchParams.launchPosition)
 
+    // 正面の発射台からの配置を、発射台の向きに合わせて回す
     const targetPos = new THREE.Vector3(
       Math.sin(hRad) * 3,
       10,
       18
-    )
-    const targetLookAt = new THREE.Vector3(0, 0, 3)
+    ).applyAxisAngle(Y_AXIS, yaw)
+    const targetLookAt = new THREE.Vector3(0, 0, 3).applyAxisAngle(Y_AXIS, yaw)
 
     // 初期位置へアニメーション後、餅を追従開始
     this.game.cameraController.animateTo(targetPos, targetLookAt, {
@@ -839,7 +1444,7 @@ export class GameScene extends BaseScene {
         // 飛行中の餅を追従（ゆるやかに）
         if (this.currentMochi && this.phase === 'flying') {
           this.game.cameraController.startFollow(this.currentMochi.mesh, {
-            offset: new THREE.Vector3(0, 5, 12),
+            offset: new THREE.Vector3(0, 5, 12).applyAxisAngle(Y_AXIS, yaw),
             lookAtOffset: new THREE.Vector3(0, 0, 0),
             smoothness: 0.92, // ゆるやかな追従
             bounds: {
@@ -854,13 +1459,13 @@ export class GameScene extends BaseScene {
 
   private onObjectLanded() {
     this.phase = 'landed'
-    this.currentMochi!.setState('landing')
     this.game.cameraController.stopFollow()
 
     const landingPos = this.currentMochi!.position
+    this.recordShotOutcome(landingPos)
 
     // === 瞬間の同時発火（桜井政博的演出） ===
-    this.game.audioManager.playLand()
+    // 着地音は接触の瞬間に衝突音として鳴っている
     this.effectManager?.triggerShockwave(landingPos)
     this.effectManager?.emitDust(landingPos, 1)
     this.game.cameraEffects?.triggerLandingEffect(0.8)
@@ -889,13 +1494,9 @@ export class GameScene extends BaseScene {
           onComplete: () => {
             // みかんフェーズの場合は特別処理
             if (this.gameMode === 'endless' && this.endlessPhase === 'mikan') {
+              // 一定時間後にタイムアウト（成功扱い）→ checkMikanTimeout
               this.mikanAttempted = true
-              // 3秒後にタイムアウト（成功扱い）
-              setTimeout(() => {
-                if (!this.isCollapsed) {
-                  this.onGameEnd(true)
-                }
-              }, 3000)
+              this.mikanAttemptedAt = this.simulation!.elapsed
               return
             }
             this.proceedToNextObject()
@@ -906,53 +1507,35 @@ export class GameScene extends BaseScene {
   }
 
   private proceedToNextObject() {
-    if (this.gameMode === 'endless') {
-      // エンドレスモード: base → top → base → top ... のループ
-      this.endlessMochiIndex++
-      const sequence = ENDLESS_MODE_CONFIG.mochiSequence
-      this.currentType = sequence[this.endlessMochiIndex % sequence.length] as MochiType
-      this.resetForNextLaunch()
-      this.createPreviewMesh()
-      return
-    }
-
-    // 通常モード: base → top → mikan → 終了
-    const nextType = this.getNextMochiType(this.currentType)
+    // モード設定のmochiSequenceを順に進める（エンドレスは循環、通常は最後で終了）
+    const { mochiSequence, isLooping } = getGameModeConfig(this.gameMode)
+    this.sequenceIndex++
 
-    if (!nextType) {
+    if (!isLooping && this.sequenceIndex >= mochiSequence.length) {
       this.phase = 'complete'
       this.calculateAndShowResult()
       return
     }
 
-    this.currentType = nextType
+    this.currentType = mochiSequence[this.sequenceIndex % mochiSequence.length]
     this.resetForNextLaunch()
     this.createPreviewMesh()
   }
 
-  /**
-   * 通常モードの餅シーケンス
-   */
-  private getNextMochiType(current: MochiType): MochiType | null {
-    const sequence: Record<MochiType, MochiType | null> = {
-      base: 'top',
-      top: 'mikan',
-      mikan: null
-    }
-    return sequence[current]
-  }
-
   private resetForNextLaunch() {
     this.phase = 'direction'
     this.launchParams = createDefaultLaunchParameters()
     this.gaugeValue = 50
     this.gaugeDirection = 1
+    this.gaugePause = 0
 
     this.gaugeContainer!.visible = true
     this.trajectoryLine!.visible = true
     this.directionGauge!.group.visible = true
     this.elevationGauge!.group.visible = false
     this.powerGauge!.group.visible = false
+    this.spinGauge!.group.visible = false
+    this.positionGauge!.group.visible = false
 
     if (this.powerGauge) {
       resetPowerGauge(this.powerGauge)
@@ -962,23 +1545,29 @@ export class GameScene extends BaseScene {
     this.aimArrow!.rotation.set(0, 0, 0)
 
     updateUITextSprite(this.phaseSprite!, this.getPhaseText(), 80, '#FFD700')
-    updateUITextSprite(this.instructionSprite!, 'タップで方向を決定！', 60, '#FFFFFF')
+    updateUITextSprite(this.instructionSprite!, this.getGaugeInstruction('direction'), 60, '#FFFFFF')
+    this.updateWindIndicator()
+
+    this.prepareLauncher()
 
     // 空の時間を進める（餅の種類に応じて）
     this.transitionSky()
 
+    this.showReplayPreview()
     this.animateCameraToStart()
   }
 
   private transitionSky() {
-    // 餅の種類に応じた目標時刻
-    const targetSkyTimes: Record<MochiType, number> = {
-      base: 0.0,   // 夜空
-      top: 0.4,    // 薄明
-      mikan: 0.8   // 朝焼け
+    // 積む役割に応じた目標時刻（飾りでは空を変えない）
+    const targetSkyTimes: Record<ScoringRole, number | null> = {
+      foundation: 0.0, // 夜空
+      tier: 0.4,       // 薄明
+      crown: 0.8,      // 朝焼け
+      ornament: null
     }
 
-    const targetTime = targetSkyTimes[this.currentType]
+    const targetTime = targetSkyTimes[getMochiConfig(this.currentType).scoringRole]
+    if (targetTime === null) return
 
     gsap.to(this, {
       skyTime: targetTime,
@@ -999,19 +1588,24 @@ export class GameScene extends BaseScene {
   }
 
   private animateCameraToStart() {
-    // game-defaultプリセットの位置へ戻る
+    // game-defaultプリセットの位置へ戻る（発射台の向きに合わせて台座の周りを回す）
     const preset = this.game.cameraController.getPreset('game-default')
     if (preset) {
-      this.game.cameraController.animateTo(preset.position, preset.lookAt, {
-        duration: 0.5,
-        ease: 'power2.out'
-      })
+      const yaw = getLauncherYaw(this.launchParams.launchPosition)
+      this.game.cameraController.animateTo(
+        preset.position.clone().applyAxisAngle(Y_AXIS, yaw),
+        preset.lookAt.clone().applyAxisAngle(Y_AXIS, yaw),
+        {
+          duration: 0.5,
+          ease: 'power2.out'
+        }
+      )
     }
   }
 
   private calculateAndShowResult() {
     // ScoreSystemを使ってスコア計算
-    const scoreResult = this.scoreSystem?.calculate(this.mochiManager!) ?? {
+    const scoreResult = this.simulation?.calculateScore() ?? {
       total: 0,
       breakdown: [],
       maxHeight: 0,
@@ -1044,9 +1638,12 @@ export class GameScene extends BaseScene {
 
             setTimeout(() => {
               const resultData: NormalResultData = {
-                mode: 'normal',
-                score: scoreResult.total
+                mode: this.gameMode === 'decorated' ? 'decorated' : 'normal',
+                score: scoreResult.total,
+                assisted: this.isAssistedRun(),
+                replay: this.getReplayDocument()
               }
+              this.recordPlayStats(resultData)
               this.game.sceneManager.switchTo('result', resultData)
             }, 100)
           }
@@ -1055,6 +1652,61 @@ export class GameScene extends BaseScene {
     })
   }
 
+  /**
+   * 今の餅の種類・モードの自己ベストを重ねて表示する（リプレイ再生中・無効時は隠す）
+   */
+  private showGhostShot() {
+    if (!this.ghostShot) return
+    const progress = GameProgressManager.getInstance()
+    const record =
+      this.replayPlayer || !progress.isGhostEnabled()
+        ? null
+        : progress.getBestShot(this.gameMode, this.currentType)
+    updateGhostShot(
+      this.ghostShot,
+      record,
+      TRAJECTORY_POINTS,
+      this.simulation?.getTrajectoryObstacles()
+    )
+  }
+
+  /**
+   * 自己ベストの表示を切り替える（設定は記憶する）
+   */
+  private toggleGhostShot() {
+    const progress = GameProgressManager.getInstance()
+    progress.setGhostEnabled(!progress.isGhostEnabled())
+    if (this.isAimingPhase()) this.showGhostShot()
+  }
+
+  /**
+   * 着地した1発を発射パラメータと一緒に履歴へ残す
+   */
+  private recordShotOutcome(landing: THREE.Vector3) {
+    if (!this.pendingShot) return
+    GameProgressManager.getInstance().recordShot(this.gameMode, {
+      ...this.pendingShot,
+      outcome: evaluateShotOutcome(landing, this.simulation!.dai.surface)
+    })
+    this.pendingShot = null
+  }
+
+  /**
+   * アシストを使ったプレイか（リプレイは記録時の値）
+   */
+  private isAssistedRun(): boolean {
+    if (this.replayPlayer) return this.replayPlayer.replay.assisted ?? false
+    return isAssistActive(this.assist)
+  }
+
+  /**
+   * 操作方法ごとの成績に加える（リプレイ再生は数えない）
+   */
+  private recordPlayStats(result: GameToResultData) {
+    if (this.replayPlayer) return
+    GameProgressManager.getInstance().recordControlSchemePlay(this.controlScheme, result)
+  }
+
   /**
    * レイアウト変更時の調整
    */
@@ -6,6 +6,12 @@ import type { LayoutInfo } from '../core/layout'
 import { redistributeParticles, calculateLayoutScale } from '../core/layout'
 import { createTextSprite } from '../ui/text-sprite'
 import { ExtrudedButton3D } from '../ui/extruded-button-3d'
+import { Button3D } from '../ui/button-3d'
+import { MenuNavigator } from '../ui/menu-navigator'
+import { SWITCH_SCAN_INTERVAL, SwitchScanner, isSwitchKey } from '../ui/switch-scanner'
+import type { Slider3D } from '../ui/slider-3d'
+import { SettingsPanel } from './intro/settings-panel'
+import type { GamepadListener } from '../core/GamepadInput'
 import { PhysicsContext, DecorativeMochiGroup } from '../objects'
 import { SkyGradient } from '../effects/SkyGradient'
 import { SceneLighting } from '../effects/SceneLighting'
@@ -15,7 +21,16 @@ import { GameProgressManager } from '../systems/GameProgressManager'
 import { Kadomatsu } from '../objects/Kadomatsu'
 import { MountainFuji } from '../objects/MountainFuji'
 import { ExtrudedText, TEXT_PATH_DATA } from '../text-builder'
-import type { GameMode } from '../types/game-mode'
+import { type GameMode, DECORATED_MODE_CONFIG } from '../types/game-mode'
+import type { IntroToGameData } from '../types/scene-data'
+import { isPhysicsQuality } from '../types/quality'
+import { isDaiMotionType } from '../types/dai-motion'
+import { isPedestalType } from '../types/pedestal'
+import { isControlScheme } from '../types/control-scheme'
+import { parseAssistParam } from '../types/assist'
+import { SHARE_CODE_PARAM, decodeShareCode } from '../types/share-code'
+
+type InteractiveButton = ExtrudedButton3D | Button3D
 
 // タイトル用の金ピカ赤フチどり設定
 // 構成: 金(本体) → 赤(側面ふち) → 黒(外側ふち)
@@ -55,13 +70,38 @@ export class IntroScene extends BaseScene {
   private subtitleSprite: THREE.Sprite | null = null
   private instructionSprite: THREE.Sprite | null = null
   private normalModeButton: ExtrudedButton3D | null = null
+  private decoratedModeButton: Button3D | null = null
   private endlessModeButton: ExtrudedButton3D | null = null
+  private shareCodeButton: Button3D | null = null
+  private settingsButton: Button3D | null = null
+  private settingsPanel: SettingsPanel | null = null
+  private draggingSlider: Slider3D | null = null
 
   // Raycaster
   private raycaster = new THREE.Raycaster()
   private mouse = new THREE.Vector2()
-  private hoveredButton: ExtrudedButton3D | null = null
-  private activeButton: ExtrudedButton3D | null = null
+  private hoveredButton: InteractiveButton | null = null
+  private activeButton: InteractiveButton | null = null
+
+  // ゲームパッドの十字キーでボタンを選び、Aボタンで押す（Bで設定を閉じる）
+  private menuNavigator = new MenuNavigator<InteractiveButton>(() => this.getInteractiveButtons())
+  private gamepadListener: GamepadListener = {
+    onButtonDown: (button) => {
+      this.switchScanner.stop()
+      if (button === 'confirm') {
+        this.menuNavigator.activate()
+      } else if (button === 'cancel') {
+        if (this.isSettingsOpen()) this.closeSettings()
+      } else {
+        this.menuNavigator.move(button)
+      }
+    }
+  }
+  // どのキーでも1つのスイッチとして走査・決定する（ゲージの速さを落としているほどゆっくり巡る）
+  private switchScanner = new SwitchScanner(
+    this.menuNavigator,
+    () => SWITCH_SCAN_INTERVAL / GameProgressManager.getInstance().getAssistSettings().gaugeSpeed
+  )
 
   // タイトル回転アニメーション用
   private titleRotationIntervalId: ReturnType<typeof setInterval> | null = null
@@ -70,12 +110,14 @@ export class IntroScene extends BaseScene {
   private boundOnPointerMove: (e: PointerEvent) => void
   private boundOnPointerDown: (e: PointerEvent) => void
   private boundOnPointerUp: (e: PointerEvent) => void
+  private boundOnKeyDown: (e: KeyboardEvent) => void
 
   constructor(game: Game) {
     super(game)
     this.boundOnPointerMove = this.onPointerMove.bind(this)
     this.boundOnPointerDown = this.onPointerDown.bind(this)
     this.boundOnPointerUp = this.onPointerUp.bind(this)
+    this.boundOnKeyDown = this.onKeyDown.bind(this)
   }
 
   async enter() {
@@ -91,6 +133,15 @@ export class IntroScene extends BaseScene {
     await this.checkAndShowUnlockCutin()
 
     this.animateIntro()
+
+    // シェアコード付きのURLで開いたら、そのプレイを再生する
+    // （シーン切り替え中は次のシーンへ移れないので、enterが終わってから）
+    const code = this.takeShareCodeFromUrl()
+    if (code !== null) {
+      setTimeout(() => {
+        this.playShareCode(code).catch((e) => console.warn('Failed to play share code:', e))
+      }, 0)
+    }
   }
 
   async exit() {
@@ -125,6 +176,9 @@ export class IntroScene extends BaseScene {
     this.decorativeMochi = null
     this.physicsContext = null
 
+    this.settingsPanel = null
+    this.draggingSlider = null
+
     // 3Dタイトルのクリーンアップ
     this.title3D?.dispose()
     this.titleSub3D?.dispose()
@@ -155,6 +209,8 @@ export class IntroScene extends BaseScene {
       this.decorativeMochi.group.rotation.y += delta * 0.3
     }
 
+    this.switchScanner.update(delta)
+
     // UIをカメラに向ける
     if (this.uiGroup) {
       this.uiGroup.lookAt(this.game.camera.position)
@@ -344,6 +400,19 @@ export class IntroScene extends BaseScene {
       }
     })
 
+    // 本飾りモードボタン（裏白・串柿・昆布・橙まで飾る）
+    this.decoratedModeButton = new Button3D({
+      text: DECORATED_MODE_CONFIG.displayName,
+      width: 3.2,
+      height: 0.6,
+      fontSize: 36,
+      onClick: async () => {
+        this.game.audioManager.playClick()
+        this.game.audioManager.resume().catch(() => {})
+        await this.startGame('decorated')
+      }
+    })
+
     // エンドレスモードボタン（赤ボタン・多重縁取り）
     // 初期状態は非表示（通常モードで100点達成後に解放）
     this.endlessModeButton = new ExtrudedButton3D({
@@ -372,6 +441,46 @@ export class IntroScene extends BaseScene {
     // 初期状態で非表示
     this.endlessModeButton.visible = false
 
+    // 友達のシェアコードを貼り付けて再生する
+    this.shareCodeButton = new Button3D({
+      text: 'コードで再生',
+      width: 2.2,
+      height: 0.5,
+      fontSize: 28,
+      textColor: '#ffffff',
+      backgroundColor: 0x333333,
+      hoverColor: 0x444444,
+      activeColor: 0x222222,
+      borderColor: 0x666666,
+      onClick: async () => {
+        this.game.audioManager.playClick()
+        await this.promptShareCode()
+      }
+    })
+
+    // ゲージの速さ・アシストなどの設定
+    this.settingsButton = new Button3D({
+      text: '設定',
+      width: 2.2,
+      height: 0.5,
+      fontSize: 28,
+      textColor: '#ffffff',
+      backgroundColor: 0x333333,
+      hoverColor: 0x444444,
+      activeColor: 0x222222,
+      borderColor: 0x666666,
+      onClick: () => {
+        this.game.audioManager.playClick()
+        this.openSettings()
+      }
+    })
+    this.settingsPanel = new SettingsPanel({
+      onClick: () => this.game.audioManager.playClick(),
+      onClose: () => this.closeSettings()
+    })
+    this.settingsPanel.position.set(0, 0.3, 0.6)
+    this.settingsPanel.visible = false
+
     // 各要素の高さを取得（3Dテキストはスケール × SVG高さで推定）
     const titleHeight = this.titleContainer ? 1.3 : 0 // 推定値
     const titleSubHeight = this.titleSubContainer ? 0.85 : 0 // 推定値
@@ -380,7 +489,8 @@ export class IntroScene extends BaseScene {
       titleSub: titleSubHeight,
       subtitle: this.subtitleSprite.scale.y,
       instruction: this.instructionSprite.scale.y,
-      modeBtn: modeButtonHeight
+      modeBtn: modeButtonHeight,
+      decoratedBtn: 0.6
     }
 
     // gap設定（ブロック構成: タイトル / メッセージ / ボタン）
@@ -392,7 +502,7 @@ export class IntroScene extends BaseScene {
       subToGreeting: 0.3,    // タイトル→あけおめ（近づける）
       instToNormal: 0.7,     // 説明→ボタン（離す）
       // ボタン間
-      normalToEndless: 0.6   // ボタン間隔（0.4 × 1.5 = 0.6）
+      aroundDecorated: 0.35  // 本飾りボタンの上下（通常とエンドレスの間に挟む）
     }
 
     // 全体の高さを計算
@@ -406,7 +516,9 @@ export class IntroScene extends BaseScene {
       heights.instruction +
       gaps.instToNormal +
       heights.modeBtn +
-      gaps.normalToEndless +
+      gaps.aroundDecorated +
+      heights.decoratedBtn +
+      gaps.aroundDecorated +
       heights.modeBtn
 
     // 中央揃えの基準点（元のレイアウトの中心付近）
@@ -436,10 +548,18 @@ export class IntroScene extends BaseScene {
 
     currentY -= heights.modeBtn / 2
     this.normalModeButton.position.set(0, currentY, 0)
-    currentY -= heights.modeBtn / 2 + gaps.normalToEndless
+    currentY -= heights.modeBtn / 2 + gaps.aroundDecorated
+
+    currentY -= heights.decoratedBtn / 2
+    this.decoratedModeButton.position.set(0, currentY, 0)
+    currentY -= heights.decoratedBtn / 2 + gaps.aroundDecorated
 
     currentY -= heights.modeBtn / 2
     this.endlessModeButton.position.set(0, currentY, 0)
+    // 合計の高さには含めず、エンドレスボタンの下に小さく並べる
+    const smallButtonY = currentY - heights.modeBtn / 2 - 0.55
+    this.shareCodeButton.position.set(-1.2, smallButtonY, 0)
+    this.settingsButton.position.set(1.2, smallButtonY, 0)
 
     // UIグループに追加
     if (this.titleContainer) {
@@ -451,7 +571,11 @@ export class IntroScene extends BaseScene {
     this.uiGroup.add(this.subtitleSprite)
     this.uiGroup.add(this.instructionSprite)
     this.uiGroup.add(this.normalModeButton)
+    this.uiGroup.add(this.decoratedModeButton)
     this.uiGroup.add(this.endlessModeButton)
+    this.uiGroup.add(this.shareCodeButton)
+    this.uiGroup.add(this.settingsButton)
+    this.uiGroup.add(this.settingsPanel)
   }
 
   private setupEventListeners() {
@@ -459,6 +583,8 @@ export class IntroScene extends BaseScene {
     canvas.addEventListener('pointermove', this.boundOnPointerMove)
     canvas.addEventListener('pointerdown', this.boundOnPointerDown)
     canvas.addEventListener('pointerup', this.boundOnPointerUp)
+    window.addEventListener('keydown', this.boundOnKeyDown)
+    this.game.gamepad.addListener(this.gamepadListener)
   }
 
   private removeEventListeners() {
@@ -466,6 +592,10 @@ export class IntroScene extends BaseScene {
     canvas.removeEventListener('pointermove', this.boundOnPointerMove)
     canvas.removeEventListener('pointerdown', this.boundOnPointerDown)
     canvas.removeEventListener('pointerup', this.boundOnPointerUp)
+    window.removeEventListener('keydown', this.boundOnKeyDown)
+    this.game.gamepad.removeListener(this.gamepadListener)
+    this.switchScanner.stop()
+    this.menuNavigator.clear()
   }
 
   private updateMousePosition(e: PointerEvent) {
@@ -474,10 +604,26 @@ export class IntroScene extends BaseScene {
     this.mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1
   }
 
+  private onKeyDown(e: KeyboardEvent) {
+    if (e.repeat) return
+    // 1スイッチのアシストがオフなら、Tab・Escなどでは走査を始めない
+    const { singleSwitch } = GameProgressManager.getInstance().getAssistSettings()
+    if (!isSwitchKey(e.key, singleSwitch)) return
+    e.preventDefault()
+    this.switchScanner.press()
+  }
+
   private onPointerMove(e: PointerEvent) {
+    this.switchScanner.stop()
+    this.menuNavigator.clear()
     this.updateMousePosition(e)
     this.raycaster.setFromCamera(this.mouse, this.game.camera)
 
+    if (this.draggingSlider) {
+      this.dragSlider(this.draggingSlider)
+      return
+    }
+
     // ボタンのホバー処理
     const buttons = this.getInteractiveButtons()
     const intersects = this.raycaster.intersectObjects(buttons.map(b => b.getMesh()))
@@ -489,7 +635,7 @@ export class IntroScene extends BaseScene {
     }
 
     if (intersects.length > 0) {
-      const button = intersects[0].object.userData.button as ExtrudedButton3D | undefined
+      const button = intersects[0].object.userData.button as InteractiveButton | undefined
       if (button) {
         button.setHovered(true)
         this.hoveredButton = button
@@ -504,12 +650,21 @@ export class IntroScene extends BaseScene {
     this.updateMousePosition(e)
     this.raycaster.setFromCamera(this.mouse, this.game.camera)
 
+    // 設定のスライダーはつまんだ位置に合わせ、そのままドラッグできる
+    const slider = this.findSliderUnderPointer()
+    if (slider) {
+      slider.setDragging(true)
+      this.draggingSlider = slider
+      this.dragSlider(slider)
+      return
+    }
+
     // ボタンの押下処理
     const buttons = this.getInteractiveButtons()
     const intersects = this.raycaster.intersectObjects(buttons.map(b => b.getMesh()))
 
     if (intersects.length > 0) {
-      const button = intersects[0].object.userData.button as ExtrudedButton3D | undefined
+      const button = intersects[0].object.userData.button as InteractiveButton | undefined
       if (button) {
         button.setPressed(true)
         this.activeButton = button
@@ -518,6 +673,12 @@ export class IntroScene extends BaseScene {
   }
 
   private onPointerUp(e: PointerEvent) {
+    if (this.draggingSlider) {
+      this.draggingSlider.setDragging(false)
+      this.draggingSlider = null
+      return
+    }
+
     // ボタンのクリック処理（押下時に記録したボタンを使用）
     if (this.activeButton) {
       this.activeButton.setPressed(false)
@@ -536,19 +697,110 @@ export class IntroScene extends BaseScene {
     buttons.forEach(b => b.setPressed(false))
   }
 
-  private getInteractiveButtons(): ExtrudedButton3D[] {
-    const buttons: ExtrudedButton3D[] = []
+  private getInteractiveButtons(): InteractiveButton[] {
+    // 設定を開いている間はパネルの中だけを操作する
+    if (this.settingsPanel && this.isSettingsOpen()) {
+      return this.settingsPanel.getButtons()
+    }
+
+    const buttons: InteractiveButton[] = []
 
     if (this.normalModeButton && this.normalModeButton.visible) {
       buttons.push(this.normalModeButton)
     }
+    if (this.decoratedModeButton) {
+      buttons.push(this.decoratedModeButton)
+    }
     if (this.endlessModeButton && this.endlessModeButton.visible) {
       buttons.push(this.endlessModeButton)
     }
+    if (this.shareCodeButton) {
+      buttons.push(this.shareCodeButton)
+    }
+    if (this.settingsButton) {
+      buttons.push(this.settingsButton)
+    }
 
     return buttons
   }
 
+  private isSettingsOpen(): boolean {
+    return this.settingsPanel?.visible ?? false
+  }
+
+  /**
+   * 設定パネルを開く（後ろのメニューは隠す。スプライトは奥行きに関係なく手前に描かれるため）
+   */
+  private openSettings(): void {
+    if (!this.settingsPanel) return
+    this.settingsPanel.refresh()
+    this.settingsPanel.visible = true
+    this.setMenuVisible(false)
+    this.resetButtonStates()
+  }
+
+  private closeSettings(): void {
+    if (!this.settingsPanel) return
+    this.settingsPanel.visible = false
+    this.setMenuVisible(true)
+    this.resetButtonStates()
+  }
+
+  private setMenuVisible(visible: boolean): void {
+    const items = [
+      this.subtitleSprite,
+      this.instructionSprite,
+      this.normalModeButton,
+      this.decoratedModeButton,
+      this.shareCodeButton,
+      this.settingsButton
+    ]
+    items.forEach((item) => {
+      if (item) item.visible = visible
+    })
+    if (visible) {
+      this.updateEndlessButtonState()
+    } else if (this.endlessModeButton) {
+      this.endlessModeButton.visible = false
+    }
+  }
+
+  /**
+   * 画面が切り替わったときに、ホバー・押下の表示と選択を消す
+   * （走査中なら新しい画面の先頭から巡り直す）
+   */
+  private resetButtonStates(): void {
+    this.hoveredButton?.setHovered(false)
+    this.hoveredButton = null
+    this.activeButton?.setPressed(false)
+    this.activeButton = null
+    this.menuNavigator.clear()
+    if (this.switchScanner.isScanning()) this.menuNavigator.next()
+  }
+
+  private findSliderUnderPointer(): Slider3D | null {
+    if (!this.settingsPanel || !this.isSettingsOpen()) return null
+    for (const slider of this.settingsPanel.getSliders()) {
+      const hits = this.raycaster.intersectObjects([slider.getTrack(), slider.getHandle()])
+      if (hits.length > 0) return slider
+    }
+    return null
+  }
+
+  /**
+   * ポインタの位置（スライダーの面の上）に値を合わせる
+   */
+  private dragSlider(slider: Slider3D): void {
+    if (!this.settingsPanel) return
+    const normal = new THREE.Vector3(0, 0, 1).transformDirection(slider.matrixWorld)
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      normal,
+      slider.getWorldPosition(new THREE.Vector3())
+    )
+    const point = this.raycaster.ray.intersectPlane(plane, new THREE.Vector3())
+    if (point) this.settingsPanel.setSliderFromPoint(slider, point)
+  }
+
   /**
    * エンドレスモードボタンの表示/非表示を更新
    */
@@ -613,11 +865,107 @@ export class IntroScene extends BaseScene {
     })
   }
 
+  /**
+   * URLのシェアコード（?code=KM1-...）を取り出す
+   * タイトルに戻ってきたときに再生し直さないよう、URLからは消しておく
+   */
+  private takeShareCodeFromUrl(): string | null {
+    const url = new URL(window.location.href)
+    const code = url.searchParams.get(SHARE_CODE_PARAM)
+    if (code === null) return null
+
+    url.searchParams.delete(SHARE_CODE_PARAM)
+    window.history.replaceState(null, '', url)
+    return code
+  }
+
+  /**
+   * シェアコードのプレイをリプレイとして再生する
+   * @returns コードが壊れていて再生できなければfalse
+   */
+  private async playShareCode(code: string): Promise<boolean> {
+    const replay = decodeShareCode(code)
+    if (!replay) return false
+
+    const data: IntroToGameData = { mode: replay.mode, replay }
+    await this.game.sceneManager.switchTo('game', data)
+    return true
+  }
+
+  /**
+   * 貼り付けたシェアコードを再生する
+   */
+  private async promptShareCode(): Promise<void> {
+    const code = window.prompt('シェアコードを貼り付けてください（KM1-...）')
+    if (code === null || code.trim() === '') return
+
+    if (!(await this.playShareCode(code))) {
+      window.alert('シェアコードを読み取れませんでした。コピーし直してください。')
+    }
+  }
+
   /**
    * ゲームを開始
    */
   private async startGame(mode: GameMode): Promise<void> {
-    await this.game.sceneManager.switchTo('game', { mode })
+    const data: IntroToGameData = { mode }
+    const urlParams = new URLSearchParams(window.location.search)
+
+    // URLパラメータでシードを固定（?seed=12345、不具合報告の再現用）
+    const seedParam = urlParams.get('seed')
+    if (seedParam !== null && Number.isFinite(Number(seedParam))) {
+      data.seed = Number(seedParam) >>> 0
+    }
+
+    // URLパラメータで当たり判定の品質を切り替える（?quality=low / medium / high）。設定は記憶する
+    const qualityParam = urlParams.get('quality')
+    if (isPhysicsQuality(qualityParam)) {
+      GameProgressManager.getInstance().setPhysicsQuality(qualityParam)
+    }
+    data.physicsQuality = GameProgressManager.getInstance().getPhysicsQuality()
+
+    // URLパラメータで動く台座のステージにする（?dai=turntable / slide / bob）
+    const daiParam = urlParams.get('dai')
+    if (isDaiMotionType(daiParam)) {
+      data.daiMotion = daiParam
+    }
+
+    // URLパラメータで台座を選ぶ（?pedestal=ice）。選んだ台座はモードごとに記憶する
+    const pedestalParam = urlParams.get('pedestal')
+    if (isPedestalType(pedestalParam)) {
+      GameProgressManager.getInstance().setPedestal(mode, pedestalParam)
+    }
+    data.pedestal = GameProgressManager.getInstance().getPedestal(mode)
+
+    // URLパラメータで自動スローモーションを切り替える（?slowmo=off / on）。設定は記憶する
+    const slowMotionParam = urlParams.get('slowmo')
+    if (slowMotionParam === 'off' || slowMotionParam === 'on') {
+      GameProgressManager.getInstance().setSlowMotionEnabled(slowMotionParam === 'on')
+    }
+
+    // URLパラメータで自己ベストの表示を切り替える（?ghost=off / on）。設定は記憶する
+    const ghostParam = urlParams.get('ghost')
+    if (ghostParam === 'off' || ghostParam === 'on') {
+      GameProgressManager.getInstance().setGhostEnabled(ghostParam === 'on')
+    }
+
+    // URLパラメータで操作方法を切り替える（?controls=slingshot / gauge）。設定は記憶する
+    const controlsParam = urlParams.get('controls')
+    if (isControlScheme(controlsParam)) {
+      GameProgressManager.getInstance().setControlScheme(controlsParam)
+    }
+    data.controlScheme = GameProgressManager.getInstance().getControlScheme()
+
+    // URLパラメータでゲージ操作のアシストを設定する（?assist=slow,hold / speed40 / switch / pause / off）。設定は記憶する
+    const assistParam = urlParams.get('assist')
+    const assist = assistParam !== null ? parseAssistParam(assistParam) : null
+    if (assist) {
+      GameProgressManager.getInstance().setAssistSettings(assist)
+    } else if (assistParam !== null) {
+      console.warn('Unknown assist option:', assistParam)
+    }
+
+    await this.game.sceneManager.switchTo('game', data)
   }
 
   /**
@@ -6,6 +6,9 @@ import type { LayoutInfo } from '../core/layout'
 import { redistributeParticles, calculateLayoutScale } from '../core/layout'
 import { createTextSprite } from '../ui/text-sprite'
 import { ExtrudedButton3D } from '../ui/extruded-button-3d'
+import { MenuNavigator } from '../ui/menu-navigator'
+import type { GamepadListener } from '../core/GamepadInput'
+import { Button3D } from '../ui/button-3d'
 import { createConfettiSystem, updateConfetti } from '../ui/confetti'
 import { PhysicsContext, DecorativeMochiGroup } from '../objects'
 import { SceneLighting, ScoreRevealOrchestrator } from '../effects'
@@ -16,6 +19,10 @@ import { MountainFuji } from '../objects/MountainFuji'
 import type { GameMode } from '../types/game-mode'
 import type { NormalResultData, EndlessResultData, GameToResultData } from '../types/scene-data'
 import { GameProgressManager } from '../systems/GameProgressManager'
+import { serializeReplay, type ReplayDocument } from '../types/replay'
+import { createShareUrl } from '../types/share-code'
+
+type InteractiveButton = ExtrudedButton3D | Button3D
 
 type ScoreTier = 'perfect' | 'excellent' | 'good' | 'average' | 'poor' | 'fail'
 
@@ -124,12 +131,29 @@ export class ResultScene extends BaseScene {
   private ratingTextSprite: THREE.Sprite | null = null
   private backButton: ExtrudedButton3D | null = null
   private shareButton: ExtrudedButton3D | null = null
+  private replayButton: Button3D | null = null
+  private saveReplayButton: Button3D | null = null
   private endlessStatsSprite: THREE.Sprite | null = null
 
   // Raycaster
   private raycaster = new THREE.Raycaster()
   private mouse = new THREE.Vector2()
-  private hoveredButton: ExtrudedButton3D | null = null
+  private hoveredButton: InteractiveButton | null = null
+
+  // ゲームパッドの十字キーでボタンを選び、Aボタンで押す
+  private menuNavigator = new MenuNavigator<InteractiveButton>(() => this.getInteractiveButtons())
+  private gamepadListener: GamepadListener = {
+    onButtonDown: (button) => {
+      if (button === 'confirm') {
+        this.menuNavigator.activate()
+      } else if (button === 'cancel') {
+        // Bボタンはタイトルへ戻る
+        this.backButton?.onClick?.()
+      } else {
+        this.menuNavigator.move(button)
+      }
+    }
+  }
 
   // イベントハンドラ
   private boundOnPointerMove: (e: PointerEvent) => void
@@ -151,11 +175,11 @@ export class ResultScene extends BaseScene {
     this.gameMode = (data?.mode as GameMode) ?? 'normal'
     this.resultData = data as GameToResultData | null
 
-    if (this.gameMode === 'normal') {
+    if (this.gameMode !== 'endless') {
       this.score = (data as NormalResultData)?.score ?? 0
 
       // 通常モードで100点達成時にエンドレスモードを解放
-      if (this.score >= 100) {
+      if (this.gameMode === 'normal' && this.score >= 100) {
         const progressManager = GameProgressManager.getInstance()
         progressManager.unlockEndless()
       }
@@ -356,6 +380,19 @@ export class ResultScene extends BaseScene {
       this.buildNormalUI(rating)
     }
 
+    // アシストを使ったプレイは結果に印を付ける
+    if (this.resultData?.assisted) {
+      const assistSprite = createTextSprite({
+        text: 'アシスト使用',
+        fontSize: 28,
+        color: '#AADDFF',
+        shadowColor: 'rgba(0,0,0,0.8)',
+        shadowBlur: 4
+      })
+      assistSprite.position.set(0, -0.8, 0)
+      this.uiGroup.add(assistSprite)
+    }
+
     // シェアボタン（黒ボタン・多重縁取り）
     this.shareButton = new ExtrudedButton3D({
       textKey: 'Xでシェア',
@@ -381,6 +418,13 @@ export class ResultScene extends BaseScene {
     this.shareButton.position.set(0, -1.4, 0)
     this.uiGroup!.add(this.shareButton)
 
+    // リプレイがあればシェアボタンの横に再生ボタンを並べる
+    this.replayButton = null
+    this.saveReplayButton = null
+    if (this.getReplay()) {
+      this.buildReplayButtons()
+    }
+
     // タイトルに戻るボタン（金ボタン・多重縁取り）
     this.backButton = new ExtrudedButton3D({
       textKey: 'タイトルに戻る',
@@ -400,6 +444,44 @@ export class ResultScene extends BaseScene {
     this.uiGroup!.add(this.backButton)
   }
 
+  /**
+   * リプレイ再生・保存ボタン
+   */
+  private buildReplayButtons() {
+    this.shareButton?.position.set(-1.6, -1.4, 0)
+
+    this.replayButton = new Button3D({
+      text: 'リプレイ',
+      width: 2.8,
+      height: 0.7,
+      onClick: () => {
+        this.game.audioManager.playClick()
+        this.playReplay()
+      }
+    })
+    this.replayButton.position.set(1.6, -1.4, 0)
+    this.uiGroup!.add(this.replayButton)
+
+    // 不具合報告に添付するためのJSON保存
+    this.saveReplayButton = new Button3D({
+      text: 'リプレイ保存',
+      width: 2.2,
+      height: 0.5,
+      fontSize: 28,
+      textColor: '#ffffff',
+      backgroundColor: 0x333333,
+      hoverColor: 0x444444,
+      activeColor: 0x222222,
+      borderColor: 0x666666,
+      onClick: () => {
+        this.game.audioManager.playClick()
+        this.downloadReplay()
+      }
+    })
+    this.saveReplayButton.position.set(0, -3.4, 0)
+    this.uiGroup!.add(this.saveReplayButton)
+  }
+
   /**
    * 通常モード用UI
    * スコア表示はScoreRevealOrchestratorが担当
@@ -484,6 +566,7 @@ export class ResultScene extends BaseScene {
     canvas.addEventListener('pointermove', this.boundOnPointerMove)
     canvas.addEventListener('pointerdown', this.boundOnPointerDown)
     canvas.addEventListener('pointerup', this.boundOnPointerUp)
+    this.game.gamepad.addListener(this.gamepadListener)
   }
 
   private removeEventListeners() {
@@ -491,6 +574,8 @@ export class ResultScene extends BaseScene {
     canvas.removeEventListener('pointermove', this.boundOnPointerMove)
     canvas.removeEventListener('pointerdown', this.boundOnPointerDown)
     canvas.removeEventListener('pointerup', this.boundOnPointerUp)
+    this.game.gamepad.removeListener(this.gamepadListener)
+    this.menuNavigator.clear()
   }
 
   private updateMousePosition(e: PointerEvent) {
@@ -500,6 +585,7 @@ export class ResultScene extends BaseScene {
   }
 
   private onPointerMove(e: PointerEvent) {
+    this.menuNavigator.clear()
     this.updateMousePosition(e)
     this.raycaster.setFromCamera(this.mouse, this.game.camera)
 
@@ -513,7 +599,7 @@ export class ResultScene extends BaseScene {
     }
 
     if (intersects.length > 0) {
-      const button = intersects[0].object.userData.button as ExtrudedButton3D | undefined
+      const button = intersects[0].object.userData.button as InteractiveButton | undefined
       if (button) {
         button.setHovered(true)
         this.hoveredButton = button
@@ -532,7 +618,7 @@ export class ResultScene extends BaseScene {
     const intersects = this.raycaster.intersectObjects(buttons.map(b => b.getMesh()))
 
     if (intersects.length > 0) {
-      const button = intersects[0].object.userData.button as ExtrudedButton3D | undefined
+      const button = intersects[0].object.userData.button as InteractiveButton | undefined
       if (button) {
         button.setPressed(true)
       }
@@ -550,20 +636,52 @@ export class ResultScene extends BaseScene {
     buttons.forEach(b => b.setPressed(false))
 
     if (intersects.length > 0) {
-      const button = intersects[0].object.userData.button as ExtrudedButton3D | undefined
+      const button = intersects[0].object.userData.button as InteractiveButton | undefined
       if (button && button.onClick) {
         button.onClick()
       }
     }
   }
 
-  private getInteractiveButtons(): ExtrudedButton3D[] {
-    const buttons: ExtrudedButton3D[] = []
+  private getInteractiveButtons(): InteractiveButton[] {
+    const buttons: InteractiveButton[] = []
     if (this.shareButton) buttons.push(this.shareButton)
+    if (this.replayButton) buttons.push(this.replayButton)
+    if (this.saveReplayButton) buttons.push(this.saveReplayButton)
     if (this.backButton) buttons.push(this.backButton)
     return buttons
   }
 
+  private getReplay(): ReplayDocument | undefined {
+    return this.resultData?.replay
+  }
+
+  /**
+   * 同じシード・同じ入力でゲームシーンを再生
+   */
+  private playReplay() {
+    const replay = this.getReplay()
+    if (!replay) return
+    this.game.sceneManager.switchTo('game', { mode: replay.mode, replay })
+  }
+
+  /**
+   * リプレイをJSONファイルとして保存
+   */
+  private downloadReplay() {
+    const replay = this.getReplay()
+    if (!replay) return
+
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `kagamimochi-replay-${replay.mode}-${replay.seed}.json`
+    link.click()
+    // ダウンロードが始まる前に解放しないよう、次のタスクまで待つ
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+
   private shareToTwitter() {
     const rating = this.getRating()
     let text: string
@@ -579,7 +697,12 @@ export class ResultScene extends BaseScene {
       text = `🎍 鏡餅スタッキングゲーム 🎍\n\nスコア: ${this.score}点\n${rating.emoji} ${rating.text}\n\n#鏡餅スタッキング #あけおめ`
     }
 
-    const url = encodeURIComponent(window.location.href)
+    // リプレイがあればシェアコード付きのURLにして、友達が同じプレイを再生できるようにする
+    const replay = this.getReplay()
+    if (replay) text += `\n\n▶ リンクからこのプレイを再生できます`
+    const url = encodeURIComponent(
+      replay ? createShareUrl(window.location.href, replay) : window.location.href
+    )
     const tweetUrl = `https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${url}`
     window.open(tweetUrl, '_blank')
   }
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test'
+import { advanceGauge, type GaugeMotion } from './gauge-motion'
+import {
+  DEFAULT_ASSIST_SETTINGS,
+  isAssistActive,
+  parseAssistParam,
+  sanitizeAssistSettings
+} from '../../types/assist'
+
+const FRAME = 1 / 60
+
+const run = (motion: GaugeMotion, seconds: number, assist = DEFAULT_ASSIST_SETTINGS) => {
+  let current = motion
+  for (let i = 0; i < Math.round(seconds / FRAME); i++) {
+    current = advanceGauge(current, FRAME, assist)
+  }
+  return current
+}
+
+describe('advanceGauge', () => {
+  it('bounces at the ends at the standard speed', () => {
+    const motion = run({ value: 50, direction: 1, pause: 0 }, 0.5)
+    expect(motion.value).toBeCloseTo(90)
+    expect(motion.direction).toBe(-1)
+    expect(run(motion, 0.5).value).toBeCloseTo(30)
+  })
+
+  it('moves slower with the speed assist', () => {
+    const assist = { ...DEFAULT_ASSIST_SETTINGS, gaugeSpeed: 0.5 }
+    expect(run({ value: 0, direction: 1, pause: 0 }, 0.5, assist).value).toBeCloseTo(30)
+  })
+
+  it('pauses at the center and the ends', () => {
+    const assist = { ...DEFAULT_ASSIST_SETTINGS, pauseAtValues: true }
+    const atCenter = run({ value: 40, direction: 1, pause: 0 }, 0.1, assist)
+    expect(atCenter.value).toBe(50)
+
+    // 止まっている間は動かず、時間が過ぎたら続きから動く
+    expect(run(atCenter, 0.5, assist).value).toBe(50)
+    expect(run(atCenter, 0.7, assist).value).toBeGreaterThan(50)
+  })
+})
+
+describe('assist settings', () => {
+  it('parses combined URL options', () => {
+    expect(parseAssistParam('slow,hold')).toEqual({
+      gaugeSpeed: 0.5,
+      holdToStop: true,
+      singleSwitch: false,
+      pauseAtValues: false
+    })
+    expect(parseAssistParam('speed10,switch,pause')?.gaugeSpeed).toBe(0.25)
+    expect(parseAssistParam('off')).toEqual(DEFAULT_ASSIST_SETTINGS)
+    expect(parseAssistParam('turbo')).toBeNull()
+  })
+
+  it('repairs saved settings and reports whether any assist is on', () => {
+    const repaired = sanitizeAssistSettings({ gaugeSpeed: 'fast', holdToStop: true })
+    expect(repaired.gaugeSpeed).toBe(1)
+    expect(isAssistActive(repaired)).toBe(true)
+    expect(isAssistActive(sanitizeAssistSettings(null))).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+import type { AssistSettings } from '../../types/assist'
+
+/**
+ * 往復するゲージの状態（値は0-100）
+ */
+export type GaugeMotion = {
+  readonly value: number
+  readonly direction: 1 | -1
+  /** 止まっている残り時間（秒） */
+  readonly pause: number
+}
+
+/** 標準の速さ（1秒あたりのゲージ値） */
+export const GAUGE_SPEED = 120
+/** アシストで一時停止する値と、止まる時間 */
+const PAUSE_POINTS = [0, 50, 100] as const
+const PAUSE_SECONDS = 0.6
+
+/**
+ * 往復を始める状態
+ */
+export const createGaugeMotion = (value: number): GaugeMotion => ({
+  value,
+  direction: 1,
+  pause: 0
+})
+
+/**
+ * ゲージを進める（端で折り返す。pauseAtValuesでは端と中央で少し止まる）
+ */
+export const advanceGauge = (
+  motion: GaugeMotion,
+  delta: number,
+  assist: AssistSettings
+): GaugeMotion => {
+  let remaining = delta
+  if (motion.pause > 0) {
+    if (motion.pause > remaining) return { ...motion, pause: motion.pause - remaining }
+    remaining -= motion.pause
+  }
+
+  const previous = motion.value
+  let value = previous + motion.direction * GAUGE_SPEED * assist.gaugeSpeed * remaining
+  let direction = motion.direction
+
+  if (assist.pauseAtValues) {
+    const reached = PAUSE_POINTS.find((point) =>
+      direction > 0 ? previous < point && value >= point : previous > point && value <= point
+    )
+    if (reached !== undefined) {
+      if (reached === 100) direction = -1
+      if (reached === 0) direction = 1
+      return { value: reached, direction, pause: PAUSE_SECONDS }
+    }
+  }
+
+  if (value >= 100) {
+    value = 100
+    direction = -1
+  } else if (value <= 0) {
+    value = 0
+    direction = 1
+  }
+  return { value, direction, pause: 0 }
+}
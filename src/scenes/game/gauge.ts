@@ -1,6 +1,12 @@
 import * as THREE from 'three'
 import { createTextSprite } from './text-sprite'
-import { gaugeToAngleH, gaugeToAngleV } from '../../types/launch'
+import {
+  type LaunchParameters,
+  gaugeToAngleH,
+  gaugeToAngleV,
+  gaugeToLauncherArc,
+  gaugeToSpin
+} from '../../types/launch'
 
 export type GaugeGroup = {
   group: THREE.Group
@@ -10,7 +16,7 @@ export type GaugeGroup = {
   fill?: THREE.Mesh
 }
 
-export type GaugeType = 'direction' | 'elevation' | 'power'
+export type GaugeType = 'position' | 'direction' | 'elevation' | 'power' | 'spin'
 
 const createTrackWithBorder = (
   trackSize: { width: number; height: number; depth: number },
@@ -68,7 +74,7 @@ const createCenterMark = (
   return mark
 }
 
-export const createHorizontalGauge = (): GaugeGroup => {
+export const createHorizontalGauge = (label: string = '左 ← 方向 → 右'): GaugeGroup => {
   const group = new THREE.Group()
 
   const { track, border } = createTrackWithBorder(
@@ -87,7 +93,7 @@ export const createHorizontalGauge = (): GaugeGroup => {
   )
   group.add(indicator)
 
-  const labelSprite = createTextSprite('左 ← 方向 → 右', 0.5)
+  const labelSprite = createTextSprite(label, 0.5)
   labelSprite.position.set(0, 0.8, 0)
   group.add(labelSprite)
 
@@ -195,6 +201,32 @@ export const updateElevationGauge = (gauge: GaugeGroup, gaugeValue: number): num
   return gaugeToAngleV(gaugeValue)
 }
 
+/**
+ * スピンのゲージ（中央が無回転）
+ */
+export const createSpinGauge = (): GaugeGroup => createHorizontalGauge('左 ← スピン → 右')
+
+/**
+ * 発射台の位置のゲージ（中央が正面）
+ */
+export const createLauncherGauge = (): GaugeGroup => createHorizontalGauge('左 ← 発射位置 → 右')
+
+/**
+ * @returns 発射台のレール上の角度（度）
+ */
+export const updateLauncherGauge = (gauge: GaugeGroup, gaugeValue: number): number => {
+  gauge.indicator.position.x = (gaugeValue / 100) * 6 - 3
+  return gaugeToLauncherArc(gaugeValue)
+}
+
+export const updateSpinGauge = (
+  gauge: GaugeGroup,
+  gaugeValue: number
+): Required<Pick<LaunchParameters, 'spin' | 'spinAxis'>> => {
+  gauge.indicator.position.x = (gaugeValue / 100) * 6 - 3
+  return gaugeToSpin(gaugeValue)
+}
+
 export const updatePowerGauge = (gauge: GaugeGroup, gaugeValue: number): void => {
   if (!gauge.fill) return
 
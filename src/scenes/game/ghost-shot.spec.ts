@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { createGhostShot, updateGhostShot } from './ghost-shot'
+import { TARGET_POSITION } from './trajectory'
+import { createReplayShot } from '../../types/replay'
+import {
+  type ShotRecord,
+  SHOT_HISTORY_LIMIT,
+  addShotRecord,
+  evaluateShotOutcome,
+  getBestShotRecord,
+  sanitizeShotHistory
+} from '../../types/shot-history'
+
+const surface = { x: 0, y: -1.5, z: 0, radius: 1.8 }
+
+const createRecord = (
+  landing: { x: number; y: number; z: number },
+  angleH = 0,
+  mochiType: 'base' | 'top' = 'base'
+): ShotRecord => ({
+  shot: createReplayShot(
+    mochiType,
+    { angleH, angleV: 45, power: 50, launchPosition: new THREE.Vector3(0, 0, 10) },
+    0
+  ),
+  wind: { x: 0, z: 0 },
+  outcome: evaluateShotOutcome(landing, surface)
+})
+
+describe('shot history', () => {
+  it('judges whether the shot stayed on the dai', () => {
+    expect(evaluateShotOutcome({ x: 1, y: -1, z: 0 }, surface)).toMatchObject({
+      offset: 1,
+      onStack: true
+    })
+    expect(evaluateShotOutcome({ x: 3, y: -1, z: 0 }, surface).onStack).toBe(false)
+    expect(evaluateShotOutcome({ x: 0, y: -2, z: 0 }, surface).onStack).toBe(false)
+  })
+
+  it('picks the closest shot that stayed on the dai', () => {
+    let history = addShotRecord({}, 'normal', createRecord({ x: 0.1, y: -3, z: 0 }, 1))
+    history = addShotRecord(history, 'normal', createRecord({ x: 1.2, y: -1, z: 0 }, 2))
+    history = addShotRecord(history, 'normal', createRecord({ x: 0.5, y: -1, z: 0 }, 3))
+    history = addShotRecord(history, 'normal', createRecord({ x: 0.9, y: -1, z: 0 }, 4))
+
+    expect(getBestShotRecord(history, 'normal', 'base')?.shot.angleH).toBe(3)
+  })
+
+  it('keeps modes and mochi types apart', () => {
+    const history = addShotRecord({}, 'normal', createRecord({ x: 0, y: -1, z: 0 }))
+
+    expect(getBestShotRecord(history, 'endless', 'base')).toBeNull()
+    expect(getBestShotRecord(history, 'normal', 'top')).toBeNull()
+  })
+
+  it('drops the oldest shots past the limit', () => {
+    let history = {}
+    for (let i = 0; i <= SHOT_HISTORY_LIMIT; i++) {
+      history = addShotRecord(history, 'endless', createRecord({ x: 0, y: -1, z: 0 }, i))
+    }
+    const records = sanitizeShotHistory(history).endless?.base ?? []
+
+    expect(records).toHaveLength(SHOT_HISTORY_LIMIT)
+    expect(records[0].shot.angleH).toBe(SHOT_HISTORY_LIMIT)
+  })
+
+  it('restores saved history and skips broken records', () => {
+    const good = createRecord({ x: 0.2, y: -1, z: 0 })
+    const saved = JSON.parse(
+      JSON.stringify({
+        normal: { base: [good, { ...good, outcome: { offset: 'far' } }] },
+        endless: 'broken'
+      })
+    )
+    const history = sanitizeShotHistory(saved)
+
+    expect(history.normal?.base).toEqual([good])
+    expect(history.endless).toBeUndefined()
+    expect(sanitizeShotHistory(null)).toEqual({})
+  })
+})
+
+describe('ghost shot', () => {
+  it('is hidden until there is a best shot', () => {
+    const ghost = createGhostShot(50)
+    expect(ghost.group.visible).toBe(false)
+    updateGhostShot(ghost, null, 50)
+    expect(ghost.group.visible).toBe(false)
+  })
+
+  it('draws the recorded arc and marks where it landed', () => {
+    const ghost = createGhostShot(50)
+    const landing = { x: TARGET_POSITION.x, y: -1.2, z: TARGET_POSITION.z }
+    updateGhostShot(ghost, createRecord(landing), 50)
+
+    expect(ghost.group.visible).toBe(true)
+    expect(ghost.marker.position.toArray()).toEqual([landing.x, landing.y, landing.z])
+    const positions = ghost.line.geometry.attributes.position
+    expect([positions.getX(0), positions.getY(0), positions.getZ(0)]).toEqual([0, 0, 10])
+  })
+
+  it('looks fainter than the aiming line', () => {
+    const material = createGhostShot(50).line.material as THREE.LineDashedMaterial
+    expect(material.opacity).toBeLessThan(0.8)
+  })
+})
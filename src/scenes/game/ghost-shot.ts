@@ -0,0 +1,73 @@
+import * as THREE from 'three'
+import { toLaunchParameters } from '../../types/replay'
+import type { ShotRecord } from '../../types/shot-history'
+import {
+  type TrajectoryObstacle,
+  calculateTrajectory,
+  createTrajectoryLine,
+  updateTrajectoryLine
+} from './trajectory'
+
+/** 自己ベストの線と着地マーカーの色 */
+const GHOST_COLOR = 0xffffff
+
+/**
+ * 自己ベストの1発（半透明の軌道と着地マーカー）
+ */
+export type GhostShot = {
+  readonly group: THREE.Group
+  readonly line: THREE.Line
+  readonly marker: THREE.Mesh
+}
+
+/**
+ * 自己ベストの表示を作る（予測線と同じ線を、細かい点線・半透明にして使う）
+ */
+export const createGhostShot = (numPoints: number): GhostShot => {
+  const line = createTrajectoryLine(numPoints)
+  const material = line.material as THREE.LineDashedMaterial
+  material.dashSize = 0.1
+  material.gapSize = 0.2
+  material.opacity = 0.35
+  material.depthWrite = false
+
+  const marker = new THREE.Mesh(
+    new THREE.RingGeometry(0.2, 0.3, 24),
+    new THREE.MeshBasicMaterial({
+      color: GHOST_COLOR,
+      transparent: true,
+      opacity: 0.45,
+      side: THREE.DoubleSide,
+      depthTest: false
+    })
+  )
+  marker.rotation.x = -Math.PI / 2
+
+  const group = new THREE.Group()
+  group.add(line, marker)
+  group.visible = false
+  return { group, line, marker }
+}
+
+/**
+ * 記録した1発の軌道を描き直す（記録がなければ隠す）
+ * 軌道はその時の風で計算し、いま積まれている物に当たる所で止める
+ */
+export const updateGhostShot = (
+  ghost: GhostShot,
+  record: ShotRecord | null,
+  numPoints: number,
+  obstacles?: readonly TrajectoryObstacle[]
+): void => {
+  ghost.group.visible = record !== null
+  if (!record) return
+
+  const { points } = calculateTrajectory(
+    { ...toLaunchParameters(record.shot), wind: record.wind, obstacles },
+    numPoints
+  )
+  updateTrajectoryLine(ghost.line, points, GHOST_COLOR)
+
+  const { x, y, z } = record.outcome.landing
+  ghost.marker.position.set(x, y, z)
+}
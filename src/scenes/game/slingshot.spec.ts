@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  SLINGSHOT_FULL_PULL,
+  adjustSlingshotElevation,
+  getPouchPosition,
+  getSlingshotPull,
+  pullToAim
+} from './slingshot'
+import { createDefaultLaunchParameters, getLauncherPosition } from '../../types/launch'
+
+describe('slingshot aiming', () => {
+  it('aims straight ahead when pulled straight down', () => {
+    const aim = pullToAim({ x: 0, y: SLINGSHOT_FULL_PULL / 2 })
+    expect(aim?.angleH).toBeCloseTo(0)
+    expect(aim?.power).toBeCloseTo(50)
+  })
+
+  it('aims opposite to the pull and caps power', () => {
+    const aim = pullToAim(getSlingshotPull({ x: 500, y: 300 }, { x: 300, y: 500 }, 400))
+    expect(aim?.angleH).toBeCloseTo(45)
+    expect(aim?.power).toBe(100)
+
+    // 上へ引いても後ろへは飛ばない
+    expect(pullToAim({ x: 0.2, y: -0.2 })?.angleH).toBe(-60)
+  })
+
+  it('cancels a pull that is too short', () => {
+    expect(pullToAim({ x: 0.01, y: 0.01 })).toBeNull()
+  })
+
+  it('keeps elevation in the gauge range', () => {
+    expect(adjustSlingshotElevation(45, 1)).toBe(48)
+    expect(adjustSlingshotElevation(74, 5)).toBe(75)
+    expect(adjustSlingshotElevation(16, -5)).toBe(15)
+  })
+
+  it('draws the pouch back away from the dai', () => {
+    const params = {
+      ...createDefaultLaunchParameters(),
+      launchPosition: getLauncherPosition(30),
+      power: 100
+    }
+    const pouch = getPouchPosition(params)
+    expect(pouch.length()).toBeGreaterThan(params.launchPosition.length())
+    expect(getPouchPosition({ ...params, power: 0 }).distanceTo(params.launchPosition)).toBe(0)
+  })
+})
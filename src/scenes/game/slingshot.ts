@@ -0,0 +1,110 @@
+import * as THREE from 'three'
+import {
+  type LaunchParameters,
+  calculateInitialVelocity,
+  getLauncherYaw
+} from '../../types/launch'
+
+/** 画面の高さに対してこの割合まで引くとパワー最大 */
+export const SLINGSHOT_FULL_PULL = 0.35
+/** これより短い引きは発射せずに取り消す */
+export const SLINGSHOT_MIN_PULL = 0.04
+/** 左右の狙いの上限（ゲージと同じ±60°） */
+const MAX_ANGLE_H = 60
+/** 仰角の範囲と1操作あたりの変化量（ゲージと同じ15°〜75°） */
+const MIN_ANGLE_V = 15
+const MAX_ANGLE_V = 75
+const ANGLE_V_STEP = 3
+/** パワー最大のとき餅を後ろへ引く距離（見た目のみ） */
+const POUCH_DRAW_DISTANCE = 1.2
+/** ゴムを留める左右の柱の間隔の半分 */
+const BAND_HALF_WIDTH = 0.7
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value))
+
+/**
+ * 引っぱり量（押した位置から今の位置まで、画面の高さに対する割合。右・下が正）
+ */
+export type SlingshotPull = {
+  readonly x: number
+  readonly y: number
+}
+
+export const getSlingshotPull = (
+  start: { readonly x: number; readonly y: number },
+  current: { readonly x: number; readonly y: number },
+  viewportHeight: number
+): SlingshotPull => ({
+  x: (current.x - start.x) / viewportHeight,
+  y: (current.y - start.y) / viewportHeight
+})
+
+/**
+ * 引っぱりから狙いを決める
+ * 引いた向きの反対へ飛ぶ（左へ引くと右へ、手前=下へ引くと正面へ）。引いた長さがパワー
+ * @returns 引きが短すぎるときはnull（離しても発射しない）
+ */
+export const pullToAim = (pull: SlingshotPull): { angleH: number; power: number } | null => {
+  const length = Math.hypot(pull.x, pull.y)
+  if (length < SLINGSHOT_MIN_PULL) return null
+
+  // 上へ引いた分は横向きとして扱う（後ろへは飛ばさない）
+  const angleH = THREE.MathUtils.radToDeg(Math.atan2(-pull.x, Math.max(pull.y, 0)))
+  return {
+    angleH: clamp(angleH, -MAX_ANGLE_H, MAX_ANGLE_H),
+    power: clamp(length / SLINGSHOT_FULL_PULL, 0, 1) * 100
+  }
+}
+
+/**
+ * 引いている間に仰角を上げ下げする（ホイール・上下キー）
+ * @param steps 正で上向き
+ */
+export const adjustSlingshotElevation = (angleV: number, steps: number): number =>
+  clamp(angleV + steps * ANGLE_V_STEP, MIN_ANGLE_V, MAX_ANGLE_V)
+
+/**
+ * 引いた餅（ゴムの中心）の位置：発射方向の水平成分の反対へ、パワーに比例して下げる
+ */
+export const getPouchPosition = (params: LaunchParameters): THREE.Vector3 => {
+  const back = calculateInitialVelocity({ ...params, power: 100 }).setY(0)
+  if (back.lengthSq() === 0) return params.launchPosition.clone()
+  back.normalize().multiplyScalar(-POUCH_DRAW_DISTANCE * (params.power / 100))
+  return params.launchPosition.clone().add(back)
+}
+
+/**
+ * ゴム（左の柱 → 餅 → 右の柱の折れ線）
+ */
+export const createSlingshotBand = (): THREE.Line => {
+  const geometry = new THREE.BufferGeometry().setFromPoints([
+    new THREE.Vector3(),
+    new THREE.Vector3(),
+    new THREE.Vector3()
+  ])
+  const material = new THREE.LineBasicMaterial({ color: 0x8b4513 })
+  const band = new THREE.Line(geometry, material)
+  band.visible = false
+  return band
+}
+
+/**
+ * ゴムを張り直す（柱は発射台の左右、台座の方向に対して横並び）
+ */
+export const updateSlingshotBand = (
+  band: THREE.Line,
+  launchPosition: THREE.Vector3,
+  pouch: THREE.Vector3
+): void => {
+  const yaw = getLauncherYaw(launchPosition)
+  const side = new THREE.Vector3(Math.cos(yaw), 0, -Math.sin(yaw)).multiplyScalar(BAND_HALF_WIDTH)
+  const left = launchPosition.clone().sub(side)
+  const right = launchPosition.clone().add(side)
+
+  const positions = band.geometry.attributes.position
+  positions.setXYZ(0, left.x, left.y, left.z)
+  positions.setXYZ(1, pouch.x, pouch.y, pouch.z)
+  positions.setXYZ(2, right.x, right.y, right.z)
+  positions.needsUpdate = true
+}
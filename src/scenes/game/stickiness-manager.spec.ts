@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { MochiObject, MOCHI_CONFIGS, type BuiltinMochiType } from '../../objects'
+import {
+  StickinessManager,
+  type StickyBond,
+  type StickyBreakEvent
+} from './stickiness-manager'
+
+const UP = new CANNON.Vec3(0, 1, 0)
+const material = new CANNON.Material('mochi')
+
+const createMochi = (type: BuiltinMochiType, y: number) =>
+  new MochiObject(MOCHI_CONFIGS[type], material, new THREE.Vector3(0, y, 0), {
+    physicsQuality: 'low'
+  })
+
+const setup = (upperType: BuiltinMochiType = 'top') => {
+  const manager = new StickinessManager(new CANNON.World())
+  const lower = createMochi('base', 0)
+  const upper = createMochi(upperType, 0.6)
+  const connects: StickyBond[] = []
+  const breaks: StickyBreakEvent[] = []
+  manager.addListener({
+    onConnect: (bond) => connects.push(bond),
+    onBreak: (event) => breaks.push(event)
+  })
+  return { manager, lower, upper, connects, breaks }
+}
+
+describe('StickinessManager', () => {
+  it('notifies onConnect with the lower and upper mochi', () => {
+    const { manager, lower, upper, connects } = setup()
+    manager.onCollision(upper, lower, UP)
+
+    expect(connects).toHaveLength(1)
+    expect(connects[0].lower).toBe(lower)
+    expect(connects[0].upper).toBe(upper)
+    expect(manager.isBonded(upper)).toBe(true)
+  })
+
+  it('ignores side contacts and duplicate collisions', () => {
+    const { manager, lower, upper, connects } = setup()
+    manager.onCollision(lower, upper, new CANNON.Vec3(1, 0, 0))
+    expect(connects).toHaveLength(0)
+
+    manager.onCollision(lower, upper, UP)
+    manager.onCollision(upper, lower, UP)
+    expect(connects).toHaveLength(1)
+  })
+
+  it('notifies onBreak when pulled too far apart', () => {
+    const { manager, lower, upper, breaks } = setup()
+    manager.onCollision(lower, upper, UP)
+
+    manager.update(0.5)
+    upper.body.position.set(0, 5, 0)
+    manager.update(1 / 60)
+
+    expect(breaks).toHaveLength(1)
+    expect(breaks[0].reason).toBe('distance')
+    expect(breaks[0].upper).toBe(upper)
+    expect(manager.isBonded(upper)).toBe(false)
+  })
+
+  it('holds during the minimum contact time', () => {
+    const { manager, lower, upper, breaks } = setup()
+    manager.onCollision(lower, upper, UP)
+
+    upper.body.position.set(0, 5, 0)
+    manager.update(1 / 60)
+    expect(breaks).toHaveLength(0)
+  })
+
+  it('cures mochi bonds so they resist faster pulls over time', () => {
+    const pullApart = (curedFor: number) => {
+      const { manager, lower, upper, breaks } = setup()
+      manager.onCollision(lower, upper, UP)
+      manager.update(curedFor)
+      const breakVelocity = MOCHI_CONFIGS.top.adhesion.breakVelocity
+      upper.body.velocity.set(0, breakVelocity * 1.2, 0)
+      manager.update(1 / 60)
+      return breaks.length
+    }
+
+    expect(pullApart(0.5)).toBe(1)
+    expect(pullApart(5)).toBe(0)
+  })
+
+  it('uses the upper object adhesion profile', () => {
+    const { manager, lower, upper, connects } = setup('mikan')
+    manager.onCollision(lower, upper, UP)
+    manager.update(5)
+
+    expect(connects[0].upper.config.type).toBe('mikan')
+    expect(manager.getBonds()[0].cure).toBe(0) // みかんは硬化しない
+  })
+})
@@ -1,128 +1,256 @@
 import * as CANNON from 'cannon-es'
+import type { MochiObject, AdhesionProfile } from '../../objects'
 
 type StickyConnection = {
   spring: CANNON.Spring
-  bodyA: CANNON.Body // 下のオブジェクト
-  bodyB: CANNON.Body // 上のオブジェクト
-  createdAt: number
+  lower: MochiObject // 下のオブジェクト
+  upper: MochiObject // 上のオブジェクト
+  profile: AdhesionProfile // 上のオブジェクトのくっつき設定
+  createdAt: number // 接続時のシミュレーション時間（秒）
+}
+
+/**
+ * 離れた理由
+ * - distance: 離れすぎた
+ * - velocity: 上向きに勢いよく引き離された
+ * - shattered: どちらかの餅が割れた
+ */
+export type StickyBreakReason = 'distance' | 'velocity' | 'shattered'
+
+/**
+ * 接続の状態（スコア・演出用）
+ */
+export type StickyBond = {
+  lower: MochiObject
+  upper: MochiObject
+  /** 接続してからの時間（秒） */
+  age: number
+  /** 硬化の進み具合（0-1、硬化しないプロファイルは0） */
+  cure: number
+}
+
+export type StickyBreakEvent = StickyBond & {
+  reason: StickyBreakReason
+}
+
+/**
+ * くっつき・離脱の通知先
+ */
+export type StickinessListener = {
+  onConnect?: (bond: StickyBond) => void
+  onBreak?: (event: StickyBreakEvent) => void
 }
 
 export class StickinessManager {
   private connections: StickyConnection[] = []
-
-  // 粘性パラメータ
-  private readonly STIFFNESS = 50 // バネの強さ
-  private readonly DAMPING = 5 // 減衰
-  private readonly REST_LENGTH = 0.1 // 静止時の距離
-  private readonly BREAK_VELOCITY = 8 // この相対速度を超えると離れる
-  private readonly MIN_CONTACT_TIME = 0.3 // 最低接触時間（秒）
-  private readonly MAX_DISTANCE = 2.0 // この距離を超えると離れる
+  private listeners: Set<StickinessListener> = new Set()
+  private time = 0 // シミュレーション経過時間（秒）
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   constructor(_world: CANNON.World) {
     // worldは将来の拡張用に受け取るが、現在はSpringが内部で参照するため不要
   }
 
+  /**
+   * リスナーを追加
+   */
+  addListener(listener: StickinessListener): void {
+    this.listeners.add(listener)
+  }
+
+  /**
+   * リスナーを削除
+   */
+  removeListener(listener: StickinessListener): void {
+    this.listeners.delete(listener)
+  }
+
   /**
    * 衝突時に呼ばれる - 「上に乗った」かを判定
    */
   onCollision(
-    bodyA: CANNON.Body,
-    bodyB: CANNON.Body,
+    mochiA: MochiObject,
+    mochiB: MochiObject,
     contactNormal: CANNON.Vec3
   ): void {
     // 既に接続済みかチェック
-    if (this.hasConnection(bodyA, bodyB)) return
+    if (this.hasConnection(mochiA, mochiB)) return
 
     // 「上に乗った」の判定: 接触法線がほぼ上向き(Y > 0.7)
     if (Math.abs(contactNormal.y) < 0.7) return
 
     // どちらが上かを判定（Y座標で比較）
     const [lower, upper] =
-      bodyA.position.y < bodyB.position.y ? [bodyA, bodyB] : [bodyB, bodyA]
+      mochiA.height < mochiB.height ? [mochiA, mochiB] : [mochiB, mochiA]
 
     this.createConnection(lower, upper)
   }
 
-  private createConnection(lower: CANNON.Body, upper: CANNON.Body): void {
+  private createConnection(lower: MochiObject, upper: MochiObject): void {
+    const profile = upper.config.adhesion
+    const lowerBody = lower.body
+    const upperBody = upper.body
+
     // 接触点を計算（上のオブジェクトの底面中心付近）
     const anchorLower = new CANNON.Vec3(
-      upper.position.x - lower.position.x,
-      upper.position.y - lower.position.y - 0.1,
-      upper.position.z - lower.position.z
+      upperBody.position.x - lowerBody.position.x,
+      upperBody.position.y - lowerBody.position.y - 0.1,
+      upperBody.position.z - lowerBody.position.z
     )
     const anchorUpper = new CANNON.Vec3(0, -0.1, 0)
 
-    const spring = new CANNON.Spring(lower, upper, {
-      restLength: this.REST_LENGTH,
-      stiffness: this.STIFFNESS,
-      damping: this.DAMPING,
+    const spring = new CANNON.Spring(lowerBody, upperBody, {
+      restLength: profile.restLength,
+      stiffness: profile.stiffness,
+      damping: profile.damping,
       localAnchorA: anchorLower,
       localAnchorB: anchorUpper
     })
 
-    this.connections.push({
+    const connection: StickyConnection = {
       spring,
-      bodyA: lower,
-      bodyB: upper,
-      createdAt: Date.now()
-    })
+      lower,
+      upper,
+      profile,
+      createdAt: this.time
+    }
+    this.connections.push(connection)
+
+    const bond = this.toBond(connection)
+    for (const listener of this.listeners) {
+      listener.onConnect?.(bond)
+    }
   }
 
   /**
-   * 毎フレーム呼び出し - バネの力を適用し、離脱条件をチェック
+   * 物理ステップごとに呼び出し - バネの力を適用し、離脱条件をチェック
+   * @param dt 固定ステップ幅（秒）
    */
-  update(): void {
-    const now = Date.now()
+  update(dt: number): void {
+    this.time += dt
 
     for (let i = this.connections.length - 1; i >= 0; i--) {
       const conn = this.connections[i]
+      const cure = this.getCure(conn)
+
+      // 両方が止まっていれば釣り合っているので力を掛けない（掛けると起きてしまう）
+      if (this.isResting(conn.lower) && this.isResting(conn.upper)) continue
+
+      // 硬化に応じてバネを強める
+      const curing = conn.profile.curing
+      conn.spring.stiffness = curing
+        ? conn.profile.stiffness * (1 + (curing.stiffnessMultiplier - 1) * cure)
+        : conn.profile.stiffness
 
       // バネの力を適用
       conn.spring.applyForce()
 
       // 離脱条件のチェック
-      if (this.shouldBreak(conn, now)) {
+      const reason = this.getBreakReason(conn, cure)
+      if (reason) {
         this.connections.splice(i, 1)
+        this.notifyBreak(conn, reason)
       }
     }
   }
 
-  private shouldBreak(conn: StickyConnection, now: number): boolean {
+  private isResting(mochi: MochiObject): boolean {
+    return mochi.isSleeping || mochi.isFrozen
+  }
+
+  private getBreakReason(conn: StickyConnection, cure: number): StickyBreakReason | null {
+    const { profile } = conn
+    const lowerBody = conn.lower.body
+    const upperBody = conn.upper.body
+
     // 最低接触時間をまだ満たしていない場合は離れない
-    const elapsed = (now - conn.createdAt) / 1000
-    if (elapsed < this.MIN_CONTACT_TIME) return false
+    const elapsed = this.time - conn.createdAt
+    if (elapsed < profile.minContactTime) return null
 
     // 相対位置を計算
     const relPos = new CANNON.Vec3()
-    conn.bodyB.position.vsub(conn.bodyA.position, relPos)
+    upperBody.position.vsub(lowerBody.position, relPos)
 
     // 距離が大きすぎる場合
     const distance = relPos.length()
-    if (distance > this.MAX_DISTANCE) return true
+    if (distance > profile.maxDistance) return 'distance'
 
     // 相対速度を計算
     const relVel = new CANNON.Vec3()
-    conn.bodyB.velocity.vsub(conn.bodyA.velocity, relVel)
+    upperBody.velocity.vsub(lowerBody.velocity, relVel)
+
+    // 上向きの相対速度が大きすぎる場合（硬化するほど離れにくい）
+    const breakVelocity = profile.curing
+      ? profile.breakVelocity * (1 + (profile.curing.breakVelocityMultiplier - 1) * cure)
+      : profile.breakVelocity
+    if (relVel.y > breakVelocity) return 'velocity'
+
+    return null
+  }
+
+  private getCure(conn: StickyConnection): number {
+    const curing = conn.profile.curing
+    if (!curing) return 0
+    if (curing.duration <= 0) return 1
+    return Math.min(1, (this.time - conn.createdAt) / curing.duration)
+  }
 
-    // 上向きの相対速度が大きすぎる場合
-    if (relVel.y > this.BREAK_VELOCITY) return true
+  private toBond(conn: StickyConnection): StickyBond {
+    return {
+      lower: conn.lower,
+      upper: conn.upper,
+      age: this.time - conn.createdAt,
+      cure: this.getCure(conn)
+    }
+  }
 
-    return false
+  private notifyBreak(conn: StickyConnection, reason: StickyBreakReason): void {
+    const event: StickyBreakEvent = { ...this.toBond(conn), reason }
+    for (const listener of this.listeners) {
+      listener.onBreak?.(event)
+    }
   }
 
-  private hasConnection(bodyA: CANNON.Body, bodyB: CANNON.Body): boolean {
+  private hasConnection(mochiA: MochiObject, mochiB: MochiObject): boolean {
     return this.connections.some(
       (c) =>
-        (c.bodyA === bodyA && c.bodyB === bodyB) ||
-        (c.bodyA === bodyB && c.bodyB === bodyA)
+        (c.lower === mochiA && c.upper === mochiB) ||
+        (c.lower === mochiB && c.upper === mochiA)
     )
   }
 
+  /**
+   * 現在の接続一覧
+   */
+  getBonds(): StickyBond[] {
+    return this.connections.map((c) => this.toBond(c))
+  }
+
+  /**
+   * この餅が粘着で何かとつながっているか
+   */
+  isBonded(mochi: MochiObject): boolean {
+    return this.connections.some((c) => c.lower === mochi || c.upper === mochi)
+  }
+
+  /**
+   * この餅の接続をすべて外す（割れて破片に置き換わるとき）
+   */
+  detachMochi(mochi: MochiObject): void {
+    for (let i = this.connections.length - 1; i >= 0; i--) {
+      const conn = this.connections[i]
+      if (conn.lower !== mochi && conn.upper !== mochi) continue
+      this.connections.splice(i, 1)
+      this.notifyBreak(conn, 'shattered')
+    }
+  }
+
   /**
    * クリーンアップ
    */
   dispose(): void {
     this.connections = []
+    this.listeners.clear()
+    this.time = 0
   }
 }
@@ -0,0 +1,84 @@
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import { PhysicsContext, MochiObject, getMochiConfig, type MochiType } from '../../objects'
+import { FIXED_TIME_STEP } from '../../systems/SimulationClock'
+import {
+  calculateInitialVelocity,
+  calculateMagnusAcceleration,
+  calculateSpinAngularVelocity
+} from '../../types/launch'
+import { CALM_WIND } from '../../types/wind'
+import { type TrajectoryInput, calculateTrajectory } from './trajectory'
+
+/** 予測線の1点と、同じ時刻の物理エンジン上の位置 */
+export type TrajectoryParitySample = {
+  readonly index: number
+  readonly predicted: THREE.Vector3
+  readonly simulated: THREE.Vector3
+  /** 2点間の距離 */
+  readonly divergence: number
+}
+
+export type TrajectoryParityReport = {
+  /** 床（y = -2）に着くまでの点 */
+  readonly samples: TrajectoryParitySample[]
+  readonly maxDivergence: number
+}
+
+/** 予測線の点の間隔（物理の固定ステップ数） */
+const STEPS_PER_POINT = 3
+/** 予測線が床とみなす高さ */
+const FLOOR_Y = -2
+
+/**
+ * 同じ発射パラメータを予測線と本物のcannon-esワールドに通し、点ごとのずれを測る
+ * 物理側は障害物のない空間で、StackingSimulationと同じく毎ステップ風とスピンの力を掛ける
+ * （発射のばらつきは掛けない）
+ */
+export const measureTrajectoryParity = (
+  params: Omit<TrajectoryInput, 'obstacles' | 'projectile'>,
+  numPoints: number,
+  type: MochiType = 'base'
+): TrajectoryParityReport => {
+  const predicted = calculateTrajectory(params, numPoints).points
+
+  const physics = new PhysicsContext({ allowSleep: false })
+  if (params.gravity !== undefined) physics.world.gravity.set(0, params.gravity, 0)
+  const config = getMochiConfig(type)
+  const mochi = new MochiObject(config, physics.mochiMaterial, params.launchPosition, {
+    physicsQuality: 'low'
+  })
+  if (params.damping !== undefined) mochi.body.linearDamping = params.damping
+  physics.addBody(mochi.body)
+
+  const spin = calculateSpinAngularVelocity(params)
+  const wind = params.wind ?? CALM_WIND
+  mochi.setVelocity(calculateInitialVelocity(params))
+  mochi.setAngularVelocity(spin)
+
+  const samples: TrajectoryParitySample[] = []
+  for (let index = 0; index < numPoints; index++) {
+    const simulated = mochi.position
+    if (simulated.y < FLOOR_Y) break
+    const divergence = predicted[index].distanceTo(simulated)
+    samples.push({ index, predicted: predicted[index], simulated, divergence })
+
+    for (let step = 0; step < STEPS_PER_POINT; step++) {
+      const magnus = calculateMagnusAcceleration(spin, mochi.body.velocity)
+      mochi.applyForce(new CANNON.Vec3(
+        (wind.x + magnus.x) * config.mass,
+        magnus.y * config.mass,
+        (wind.z + magnus.z) * config.mass
+      ))
+      physics.world.step(FIXED_TIME_STEP)
+    }
+  }
+
+  physics.dispose()
+  mochi.disposeResources()
+
+  return {
+    samples,
+    maxDivergence: samples.reduce((max, sample) => Math.max(max, sample.divergence), 0)
+  }
+}
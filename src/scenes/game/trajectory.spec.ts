@@ -4,12 +4,23 @@ import {
   calculateTrajectory,
   getTrajectoryColor,
   createTrajectoryLine,
-  createTargetMarker
+  createTargetMarker,
+  createImpactMarker,
+  updateImpactMarker,
+  DAI_POSITION,
+  DAI_SURFACE_Y,
+  createTrajectoryObstacle,
+  setTrajectoryObstaclePose,
+  type TrajectoryObstacleShape
 } from './trajectory'
+import { measureTrajectoryParity } from './trajectory-parity'
 import {
   calculatePowerMultiplier,
   calculateSpeed,
-  calculateInitialVelocity
+  calculateInitialVelocity,
+  gaugeToSpin,
+  getLauncherPosition,
+  LAUNCHER_RAIL_RADIUS
 } from '../../types/launch'
 
 describe('trajectory', () => {
@@ -83,6 +94,17 @@ describe('trajectory', () => {
       expect(velocity.x).toBeLessThan(0)
     })
 
+    it('should aim at the dai from a launcher moved along the rail', () => {
+      const launchPosition = getLauncherPosition(30)
+      const velocity = calculateInitialVelocity({ ...createParams(0, 45, 50), launchPosition })
+      const horizontal = new THREE.Vector3(velocity.x, 0, velocity.z).normalize()
+      const toDai = new THREE.Vector3(-launchPosition.x, 0, -launchPosition.z).normalize()
+
+      expect(launchPosition.length()).toBeCloseTo(LAUNCHER_RAIL_RADIUS)
+      expect(launchPosition.x).toBeGreaterThan(0)
+      expect(horizontal.dot(toDai)).toBeCloseTo(1)
+    })
+
     it('should have higher y velocity with higher elevation angle', () => {
       const lowAngle = calculateInitialVelocity(createParams(0, 15, 50))
       const highAngle = calculateInitialVelocity(createParams(0, 75, 50))
@@ -117,6 +139,28 @@ describe('trajectory', () => {
       expect(lastPoint.y).toBeLessThan(result.points[0].y)
     })
 
+    it('should drift downwind', () => {
+      const calm = calculateTrajectory(defaultParams, 50)
+      const windy = calculateTrajectory({ ...defaultParams, wind: { x: 1, z: 0 } }, 50)
+      const calmLast = calm.points[calm.points.length - 1]
+      const windyLast = windy.points[windy.points.length - 1]
+      expect(windyLast.x).toBeGreaterThan(calmLast.x + 0.1)
+      expect(windyLast.z).toBeCloseTo(calmLast.z)
+    })
+
+    it('should curve toward the spin side', () => {
+      const plain = calculateTrajectory(defaultParams, 50)
+      const right = calculateTrajectory({ ...defaultParams, ...gaugeToSpin(100) }, 50)
+      const left = calculateTrajectory({ ...defaultParams, ...gaugeToSpin(0) }, 50)
+      const plainLast = plain.points[plain.points.length - 1]
+
+      expect(right.points[right.points.length - 1].x).toBeGreaterThan(plainLast.x + 0.3)
+      expect(left.points[left.points.length - 1].x).toBeLessThan(plainLast.x - 0.3)
+      expect(calculateTrajectory({ ...defaultParams, ...gaugeToSpin(50) }, 50).points).toEqual(
+        plain.points
+      )
+    })
+
     it('should return landing distance', () => {
       const result = calculateTrajectory(defaultParams, 50)
       expect(typeof result.landingDistance).toBe('number')
@@ -160,7 +204,153 @@ describe('trajectory', () => {
     })
   })
 
+  describe('parity with cannon-es', () => {
+    // 予測線と物理エンジンの位置のずれの許容値（ワールド単位）
+    const TOLERANCE = 0.01
+    const shots = {
+      straight: { angleH: 0, angleV: 45, power: 50, launchPosition: getLauncherPosition(0) },
+      lob: { angleH: 0, angleV: 70, power: 100, launchPosition: getLauncherPosition(0) },
+      rail: { angleH: 10, angleV: 35, power: 70, launchPosition: getLauncherPosition(40) },
+      wind: {
+        angleH: -5,
+        angleV: 50,
+        power: 60,
+        launchPosition: getLauncherPosition(0),
+        wind: { x: 1.5, z: -0.5 }
+      },
+      spin: {
+        angleH: 0,
+        angleV: 45,
+        power: 60,
+        launchPosition: getLauncherPosition(0),
+        ...gaugeToSpin(0)
+      }
+    }
+
+    for (const [label, params] of Object.entries(shots)) {
+      it(`should stay within ${TOLERANCE} of cannon-es (${label})`, () => {
+        const report = measureTrajectoryParity(params, 60)
+        expect(report.samples.length).toBeGreaterThan(10)
+        expect(report.maxDivergence).toBeLessThan(TOLERANCE)
+      })
+    }
+
+    it('should follow the damping and gravity overrides', () => {
+      const report = measureTrajectoryParity(
+        { ...shots.straight, damping: 0.1, gravity: -5 },
+        60
+      )
+      expect(report.maxDivergence).toBeLessThan(TOLERANCE)
+    })
+  })
+
+  describe('calculateTrajectory with obstacles', () => {
+    const defaultParams = {
+      angleH: 0,
+      angleV: 45,
+      power: 50,
+      launchPosition: new THREE.Vector3(0, 0, 10)
+    }
+    const projectile = { radius: 0.5, halfHeight: 0.2 }
+    const wideDai = createTrajectoryObstacle(
+      'dai',
+      { kind: 'cylinder', radius: 30, halfHeight: 0.25 },
+      new THREE.Vector3(DAI_POSITION.x, DAI_POSITION.y, DAI_POSITION.z)
+    )
+    // 発射位置と台座の間に立てた背の高い餅
+    const wallShape: TrajectoryObstacleShape = { kind: 'box', halfWidth: 5, halfDepth: 0.3, halfHeight: 20 }
+    const wall = createTrajectoryObstacle('mochi', wallShape, new THREE.Vector3(0, 0, 5))
+
+    it('should not report a contact without obstacles', () => {
+      expect(calculateTrajectory(defaultParams, 50).contact).toBeNull()
+    })
+
+    it('should land on top of the dai', () => {
+      const result = calculateTrajectory(
+        { ...defaultParams, obstacles: [wideDai], projectile },
+        100
+      )
+      expect(result.contact?.source).toBe('dai')
+      expect(result.contact?.surface).toBe('top')
+      expect(result.contact?.normal.y).toBeCloseTo(1)
+      expect(result.contact?.point.y).toBeCloseTo(DAI_SURFACE_Y, 2)
+      // 接触後は餅の中心に留まる
+      const last = result.points[result.points.length - 1]
+      expect(last.y).toBeCloseTo(DAI_SURFACE_Y + projectile.halfHeight, 2)
+    })
+
+    it('should hit the side of a mochi in the way', () => {
+      const result = calculateTrajectory(
+        { ...defaultParams, obstacles: [wideDai, wall], projectile },
+        100
+      )
+      expect(result.contact?.source).toBe('mochi')
+      expect(result.contact?.surface).toBe('side')
+      expect(result.contact?.normal.z).toBeCloseTo(1)
+      expect(result.contact?.point.z).toBeCloseTo(5.3, 2)
+      for (const point of result.points) {
+        expect(point.z).toBeGreaterThanOrEqual(5.3 + projectile.radius - 1e-3)
+      }
+    })
+
+    it('should follow the obstacle rotation', () => {
+      const shifted = createTrajectoryObstacle('mochi', wallShape, new THREE.Vector3(3, 0, 5))
+      const turned = createTrajectoryObstacle(
+        'mochi',
+        wallShape,
+        new THREE.Vector3(3, 0, 5),
+        new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2)
+      )
+      const blocked = calculateTrajectory(
+        { ...defaultParams, obstacles: [wideDai, shifted], projectile },
+        100
+      )
+      // 縦に向けると軌道の横に並び、餅は台座まで届く
+      const clear = calculateTrajectory(
+        { ...defaultParams, obstacles: [wideDai, turned], projectile },
+        100
+      )
+      expect(blocked.contact?.source).toBe('mochi')
+      expect(clear.contact?.source).toBe('dai')
+    })
+
+    it('should follow a pose updated in place', () => {
+      const moving = createTrajectoryObstacle('mochi', wallShape, new THREE.Vector3(0, 0, 5))
+      setTrajectoryObstaclePose(
+        moving,
+        new THREE.Vector3(3, 0, 5),
+        new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2)
+      )
+      const result = calculateTrajectory(
+        { ...defaultParams, obstacles: [wideDai, moving], projectile },
+        100
+      )
+      expect(result.contact?.source).toBe('dai')
+    })
+
+    it('should ignore obstacles far from the path', () => {
+      const far = createTrajectoryObstacle('mochi', wallShape, new THREE.Vector3(100, 0, 5))
+      const without = calculateTrajectory({ ...defaultParams, obstacles: [wideDai], projectile }, 100)
+      const withFar = calculateTrajectory(
+        { ...defaultParams, obstacles: [far, wideDai], projectile },
+        100
+      )
+      expect(withFar.contact?.source).toBe('dai')
+      expect(withFar.points).toEqual(without.points)
+    })
+  })
+
   describe('getTrajectoryColor', () => {
+    it('should color by the contact surface when there is one', () => {
+      const contact = {
+        point: new THREE.Vector3(),
+        normal: new THREE.Vector3(0, 1, 0),
+        source: 'mochi' as const
+      }
+      expect(getTrajectoryColor(10, { ...contact, surface: 'top' })).toBe(0x00ff00)
+      expect(getTrajectoryColor(0, { ...contact, surface: 'side' })).toBe(0xff6600)
+    })
+
     it('should return green for close landing (< 2)', () => {
       expect(getTrajectoryColor(1)).toBe(0x00ff00)
       expect(getTrajectoryColor(0)).toBe(0x00ff00)
@@ -219,4 +409,27 @@ describe('trajectory', () => {
       expect(marker.rotation.x).toBe(-Math.PI / 2)
     })
   })
+  describe('impact marker', () => {
+    it('should be hidden until there is a contact', () => {
+      const marker = createImpactMarker()
+      expect(marker.visible).toBe(false)
+      updateImpactMarker(marker, null)
+      expect(marker.visible).toBe(false)
+    })
+
+    it('should sit on the contact point facing the normal', () => {
+      const marker = createImpactMarker()
+      const normal = new THREE.Vector3(0, 0, 1)
+      updateImpactMarker(marker, {
+        point: new THREE.Vector3(1, 2, 3),
+        normal,
+        source: 'mochi',
+        surface: 'side'
+      })
+      expect(marker.visible).toBe(true)
+      expect(marker.position.toArray()).toEqual([1, 2, 3])
+      const up = new THREE.Vector3(0, 1, 0).applyQuaternion(marker.quaternion)
+      expect(up.z).toBeCloseTo(1)
+    })
+  })
 })
@@ -1,22 +1,277 @@
 import * as THREE from 'three'
 import {
   type LaunchParameters,
-  calculateInitialVelocity
+  calculateInitialVelocity,
+  calculateMagnusAcceleration,
+  calculateSpinAngularVelocity
 } from '../../types/launch'
+import { type Wind, CALM_WIND } from '../../types/wind'
+import { FIXED_TIME_STEP } from '../../systems/SimulationClock'
+
+/**
+ * 軌道予測でぶつかる物の形（中心からの半分の寸法、ローカル座標のY軸が高さ）
+ */
+export type TrajectoryObstacleShape =
+  | { readonly kind: 'cylinder'; readonly radius: number; readonly halfHeight: number }
+  | {
+      readonly kind: 'box'
+      readonly halfWidth: number
+      readonly halfDepth: number
+      readonly halfHeight: number
+    }
+
+/**
+ * 軌道予測でぶつかる物（台座と積まれた餅）
+ * 狙っている間は使い回すので、姿勢はsetTrajectoryObstaclePoseで書き換える
+ */
+export type TrajectoryObstacle = {
+  readonly source: 'dai' | 'mochi'
+  readonly position: THREE.Vector3
+  readonly quaternion: THREE.Quaternion
+  /** quaternionの逆回転（当たりを調べるたびに求めない） */
+  readonly inverseQuaternion: THREE.Quaternion
+  readonly shape: TrajectoryObstacleShape
+  /** 形を包む球の半径（移動の線分から遠い物を先に除く） */
+  readonly boundingRadius: number
+}
+
+/**
+ * 飛ばす餅の大きさ（立てた円柱として扱う）
+ */
+export type TrajectoryProjectile = {
+  readonly radius: number
+  readonly halfHeight: number
+}
+
+/**
+ * 予測した最初の接触
+ */
+export type TrajectoryContact = {
+  /** 接触する面上の点 */
+  readonly point: THREE.Vector3
+  /** 接触面の法線（ぶつかった物から外向き） */
+  readonly normal: THREE.Vector3
+  readonly source: TrajectoryObstacle['source']
+  /** 上から載る（top）か、横や下から当たる（side）か */
+  readonly surface: 'top' | 'side'
+}
 
 export type TrajectoryInput = LaunchParameters & {
   gravity?: number
   damping?: number
+  /** 飛行中に受ける風（StackingSimulationと同じ加速度） */
+  wind?: Wind
+  /** 着地距離の基準点（動く台座用。省略時はTARGET_POSITION） */
+  target?: { x: number; z: number }
+  /** ぶつかる物（省略時は床まで飛ぶ） */
+  obstacles?: readonly TrajectoryObstacle[]
+  /** 飛ばす餅の大きさ（省略時は点として扱う） */
+  projectile?: TrajectoryProjectile
 }
 
 export type TrajectoryResult = {
   points: THREE.Vector3[]
   landingDistance: number
+  /** 最初にぶつかる物（床まで何にも当たらなければnull） */
+  contact: TrajectoryContact | null
 }
 
 const DEFAULT_GRAVITY = -9.8
-const DEFAULT_DAMPING = 0.4 // GameScene.tsのlinearDampingと一致
-const TIME_STEP = 0.05
+const DEFAULT_DAMPING = 0.4 // MochiObjectのlinearDampingと一致
+/** 予測線の点の間隔は物理の固定ステップ3回分（0.05秒） */
+const STEPS_PER_POINT = 3
+/** 物理の1ステップの移動をこの数に分けて当たりを調べる（薄い餅をすり抜けないように） */
+const COLLISION_SUBSTEPS = 2
+/** 接触位置を二分法で詰める回数 */
+const CONTACT_REFINE_ITERATIONS = 8
+/** 法線の上向き成分がこれ以上なら上面に載るとみなす（45°） */
+const TOP_SURFACE_MIN_NORMAL_Y = Math.SQRT1_2
+const POINT_PROJECTILE: TrajectoryProjectile = { radius: 0, halfHeight: 0 }
+const UP = new THREE.Vector3(0, 1, 0)
+
+/**
+ * ぶつかる物を作る（位置と回転は複製して持つ）
+ */
+export const createTrajectoryObstacle = (
+  source: TrajectoryObstacle['source'],
+  shape: TrajectoryObstacleShape,
+  position: THREE.Vector3 = new THREE.Vector3(),
+  quaternion: THREE.Quaternion = new THREE.Quaternion()
+): TrajectoryObstacle => ({
+  source,
+  position: position.clone(),
+  quaternion: quaternion.clone(),
+  inverseQuaternion: quaternion.clone().invert(),
+  shape,
+  boundingRadius:
+    shape.kind === 'cylinder'
+      ? Math.hypot(shape.radius, shape.halfHeight)
+      : Math.hypot(shape.halfWidth, shape.halfHeight, shape.halfDepth)
+})
+
+/**
+ * ぶつかる物の姿勢を合わせる（動く台座用。作り直さずに書き換える）
+ */
+export const setTrajectoryObstaclePose = (
+  obstacle: TrajectoryObstacle,
+  position: { x: number; y: number; z: number },
+  quaternion: { x: number; y: number; z: number; w: number }
+): void => {
+  obstacle.position.set(position.x, position.y, position.z)
+  obstacle.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w)
+  obstacle.inverseQuaternion.copy(obstacle.quaternion).invert()
+}
+
+// 予測線は狙っている間毎フレーム計算するので、当たり判定の途中の値は使い回す
+const localScratch = new THREE.Vector3()
+const sampleScratch = new THREE.Vector3()
+const fromScratch = new THREE.Vector3()
+const toScratch = new THREE.Vector3()
+const nearbyScratch: TrajectoryObstacle[] = []
+
+type ObstacleHit = {
+  /** ローカル座標での外向き法線 */
+  localNormal: THREE.Vector3
+  /** 法線方向に膨らませた分（飛ばす餅の大きさ） */
+  inflation: number
+}
+
+const hitScratch: ObstacleHit = { localNormal: new THREE.Vector3(), inflation: 0 }
+
+const setHit = (x: number, y: number, z: number, inflation: number): ObstacleHit => {
+  hitScratch.localNormal.set(x, y, z)
+  hitScratch.inflation = inflation
+  return hitScratch
+}
+
+/**
+ * 飛ばす餅の中心が、餅の大きさだけ膨らませた物の内側にあるか調べる
+ * @returns 外側ならnull。内側なら一番浅く入り込んでいる面の法線（使い回すので次に調べるまでに使い終える）
+ */
+const testObstacle = (
+  obstacle: TrajectoryObstacle,
+  center: THREE.Vector3,
+  projectile: TrajectoryProjectile
+): ObstacleHit | null => {
+  const local = localScratch
+    .copy(center)
+    .sub(obstacle.position)
+    .applyQuaternion(obstacle.inverseQuaternion)
+  const { shape } = obstacle
+
+  const capDepth = shape.halfHeight + projectile.halfHeight - Math.abs(local.y)
+  if (capDepth < 0) return null
+  const capSign = Math.sign(local.y) || 1
+
+  if (shape.kind === 'cylinder') {
+    const radial = Math.hypot(local.x, local.z)
+    const sideDepth = shape.radius + projectile.radius - radial
+    if (sideDepth < 0) return null
+    if (capDepth <= sideDepth) return setHit(0, capSign, 0, projectile.halfHeight)
+    return radial > 0
+      ? setHit(local.x / radial, 0, local.z / radial, projectile.radius)
+      : setHit(UP.x, UP.y, UP.z, projectile.radius)
+  }
+
+  const xDepth = shape.halfWidth + projectile.radius - Math.abs(local.x)
+  const zDepth = shape.halfDepth + projectile.radius - Math.abs(local.z)
+  if (xDepth < 0 || zDepth < 0) return null
+  if (capDepth <= xDepth && capDepth <= zDepth) return setHit(0, capSign, 0, projectile.halfHeight)
+  return xDepth <= zDepth
+    ? setHit(Math.sign(local.x) || 1, 0, 0, projectile.radius)
+    : setHit(0, 0, Math.sign(local.z) || 1, projectile.radius)
+}
+
+const findHit = (
+  obstacles: readonly TrajectoryObstacle[],
+  center: THREE.Vector3,
+  projectile: TrajectoryProjectile
+): { obstacle: TrajectoryObstacle; hit: ObstacleHit } | null => {
+  for (const obstacle of obstacles) {
+    const hit = testObstacle(obstacle, center, projectile)
+    if (hit) return { obstacle, hit }
+  }
+  return null
+}
+
+/**
+ * 移動の線分（from → to）の近くにある物だけを集める（包む球が線分に届かない物は除く）
+ * 返す配列は使い回すので、次に呼ぶまでに使い終える
+ */
+const collectNearbyObstacles = (
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  obstacles: readonly TrajectoryObstacle[],
+  projectile: TrajectoryProjectile
+): readonly TrajectoryObstacle[] => {
+  nearbyScratch.length = 0
+  const projectileRadius = Math.hypot(projectile.radius, projectile.halfHeight)
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  const dz = to.z - from.z
+  const lengthSq = dx * dx + dy * dy + dz * dz
+
+  for (const obstacle of obstacles) {
+    const { x, y, z } = obstacle.position
+    // 線分上で物の中心に一番近い点
+    const t =
+      lengthSq > 0
+        ? THREE.MathUtils.clamp(((x - from.x) * dx + (y - from.y) * dy + (z - from.z) * dz) / lengthSq, 0, 1)
+        : 0
+    const reach = obstacle.boundingRadius + projectileRadius
+    const distanceSq =
+      (from.x + dx * t - x) ** 2 + (from.y + dy * t - y) ** 2 + (from.z + dz * t - z) ** 2
+    if (distanceSq <= reach * reach) nearbyScratch.push(obstacle)
+  }
+  return nearbyScratch
+}
+
+/**
+ * 1ステップの移動（from → to）で最初にぶつかる位置を探す
+ * @returns ぶつかった時の餅の中心と接触。ぶつからなければnull
+ */
+const sweepObstacles = (
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  allObstacles: readonly TrajectoryObstacle[],
+  projectile: TrajectoryProjectile
+): { center: THREE.Vector3; contact: TrajectoryContact } | null => {
+  const obstacles = collectNearbyObstacles(from, to, allObstacles, projectile)
+  if (obstacles.length === 0) return null
+
+  let outside = 0
+  for (let i = 1; i <= COLLISION_SUBSTEPS; i++) {
+    const t = i / COLLISION_SUBSTEPS
+    if (!findHit(obstacles, sampleScratch.copy(from).lerp(to, t), projectile)) {
+      outside = t
+      continue
+    }
+
+    // 外側と内側の間を詰めて、面に触れる位置を求める
+    let inside = t
+    for (let j = 0; j < CONTACT_REFINE_ITERATIONS; j++) {
+      const mid = (outside + inside) / 2
+      if (findHit(obstacles, sampleScratch.copy(from).lerp(to, mid), projectile)) {
+        inside = mid
+      } else {
+        outside = mid
+      }
+    }
+    const center = from.clone().lerp(to, inside)
+    const { obstacle, hit } = findHit(obstacles, center, projectile)!
+    const normal = hit.localNormal.clone().applyQuaternion(obstacle.quaternion).normalize()
+    return {
+      center,
+      contact: {
+        point: center.clone().addScaledVector(normal, -hit.inflation),
+        normal,
+        source: obstacle.source,
+        surface: normal.y >= TOP_SURFACE_MIN_NORMAL_Y ? 'top' : 'side'
+      }
+    }
+  }
+  return null
+}
 
 /**
  * DAI（台）の位置と寸法
@@ -45,11 +300,21 @@ export const calculateTrajectory = (
   params: TrajectoryInput,
   numPoints: number
 ): TrajectoryResult => {
-  const { launchPosition, gravity = DEFAULT_GRAVITY, damping = DEFAULT_DAMPING } = params
+  const {
+    launchPosition,
+    gravity = DEFAULT_GRAVITY,
+    damping = DEFAULT_DAMPING,
+    wind = CALM_WIND,
+    target = TARGET_POSITION,
+    obstacles = [],
+    projectile = POINT_PROJECTILE
+  } = params
 
   const velocity = calculateInitialVelocity(params)
+  const spin = calculateSpinAngularVelocity(params)
 
   const points: THREE.Vector3[] = []
+  let contact: TrajectoryContact | null = null
   let x = launchPosition.x
   let y = launchPosition.y
   let z = launchPosition.z
@@ -57,23 +322,39 @@ export const calculateTrajectory = (
   let velY = velocity.y
   let velZ = velocity.z
 
-  // 減衰係数: CANNON-esのlinearDampingと同様の計算
-  // 各フレームで velocity *= (1 - damping * dt)
-  const dampingFactor = 1 - damping * TIME_STEP
+  // cannon-esと同じ順に1ステップずつ進める
+  // （ステップ前の速度で外力を決め、減衰 v *= (1 - damping)^dt → 速度 → 位置の順に更新）
+  const dt = FIXED_TIME_STEP
+  const dampingFactor = Math.pow(1 - damping, dt)
 
   for (let i = 0; i < numPoints; i++) {
     points.push(new THREE.Vector3(x, y, z))
 
-    // 位置を更新
-    x += velX * TIME_STEP
-    y += velY * TIME_STEP
-    z += velZ * TIME_STEP
+    for (let step = 0; step < STEPS_PER_POINT && !contact; step++) {
+      // 外力（風 + スピンによる曲がり）はStackingSimulationと同じくステップの初めに決まる
+      const magnus = calculateMagnusAcceleration(spin, { x: velX, y: velY, z: velZ })
+      velX = velX * dampingFactor + (wind.x + magnus.x) * dt
+      velY = velY * dampingFactor + (gravity + magnus.y) * dt
+      velZ = velZ * dampingFactor + (wind.z + magnus.z) * dt
 
-    // 速度を更新（重力 + 減衰）
-    velY += gravity * TIME_STEP
-    velX *= dampingFactor
-    velY *= dampingFactor
-    velZ *= dampingFactor
+      const from = fromScratch.set(x, y, z)
+      x += velX * dt
+      y += velY * dt
+      z += velZ * dt
+
+      // 台座や積んだ餅に当たったら、そこで止める
+      const sweep =
+        obstacles.length > 0
+          ? sweepObstacles(from, toScratch.set(x, y, z), obstacles, projectile)
+          : null
+      if (sweep) {
+        contact = sweep.contact
+        for (let j = i + 1; j < numPoints; j++) {
+          points.push(sweep.center.clone())
+        }
+      }
+    }
+    if (contact) break
 
     if (y < -2) {
       for (let j = i + 1; j < numPoints; j++) {
@@ -83,16 +364,27 @@ export const calculateTrajectory = (
     }
   }
 
-  const lastPoint = points[points.length - 1]
+  const lastPoint = contact?.point ?? points[points.length - 1]
   // ターゲット位置からの距離（XZ平面上）
-  const dx = lastPoint.x - TARGET_POSITION.x
-  const dz = lastPoint.z - TARGET_POSITION.z
+  const dx = lastPoint.x - target.x
+  const dz = lastPoint.z - target.z
   const landingDistance = Math.sqrt(dx ** 2 + dz ** 2)
 
-  return { points, landingDistance }
+  return { points, landingDistance, contact }
 }
 
-export const getTrajectoryColor = (landingDistance: number): number => {
+/** 積み上げの上に載る / 横に当たる予測の色 */
+const TOP_CONTACT_COLOR = 0x00ff00
+const SIDE_CONTACT_COLOR = 0xff6600
+
+/**
+ * 予測線の色（当たる物があれば上に載るか横に当たるか、なければ着地距離で決める）
+ */
+export const getTrajectoryColor = (
+  landingDistance: number,
+  contact: TrajectoryContact | null = null
+): number => {
+  if (contact) return contact.surface === 'top' ? TOP_CONTACT_COLOR : SIDE_CONTACT_COLOR
   if (landingDistance < 2) return 0x00ff00 // Green - good aim
   if (landingDistance < 4) return 0xffff00 // Yellow - close
   return 0x00ffff // Cyan - default
@@ -137,8 +429,12 @@ export const updateTrajectoryLine = (
   material.color.setHex(color)
 }
 
-export const createTargetMarker = (): THREE.Mesh => {
-  const geometry = new THREE.RingGeometry(1.8, 2.2, 32)
+/**
+ * ターゲットマーカー（台座上面の縁を囲むリング）
+ * @param radius 台座上面の半径（省略時は三方）
+ */
+export const createTargetMarker = (radius: number = 1.8): THREE.Mesh => {
+  const geometry = new THREE.RingGeometry(radius, radius + 0.4, 32)
   const material = new THREE.MeshBasicMaterial({
     color: 0xffd700,
     transparent: true,
@@ -152,3 +448,43 @@ export const createTargetMarker = (): THREE.Mesh => {
 
   return marker
 }
+
+/**
+ * 予測した接触位置のマーカー（接触面に沿った輪と、法線方向の短い棒）
+ */
+export const createImpactMarker = (): THREE.Group => {
+  const material = new THREE.MeshBasicMaterial({
+    color: TOP_CONTACT_COLOR,
+    transparent: true,
+    opacity: 0.8,
+    side: THREE.DoubleSide,
+    depthTest: false
+  })
+
+  const ring = new THREE.Mesh(new THREE.RingGeometry(0.18, 0.28, 24), material)
+  ring.rotation.x = -Math.PI / 2
+
+  const normal = new THREE.Mesh(new THREE.CylinderGeometry(0.03, 0.03, 0.6, 6), material)
+  normal.position.y = 0.3
+
+  const marker = new THREE.Group()
+  marker.add(ring, normal)
+  marker.visible = false
+  return marker
+}
+
+/**
+ * マーカーを接触位置に置き、法線の向きに合わせる（接触がなければ隠す）
+ */
+export const updateImpactMarker = (
+  marker: THREE.Group,
+  contact: TrajectoryContact | null
+): void => {
+  marker.visible = contact !== null
+  if (!contact) return
+
+  marker.position.copy(contact.point)
+  marker.quaternion.setFromUnitVectors(UP, contact.normal)
+  const ring = marker.children[0] as THREE.Mesh
+  ;(ring.material as THREE.MeshBasicMaterial).color.setHex(getTrajectoryColor(0, contact))
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, mock, beforeEach } from 'bun:test'
+import * as THREE from 'three'
+
+// createTextSprite をモック（DOM依存のため）
+mock.module('../../ui/text-sprite', () => ({
+  createTextSprite: () => {
+    const sprite = new THREE.Sprite()
+    sprite.scale.set(1, 0.5, 1)
+    return sprite
+  }
+}))
+
+// 設定の保存先（テストではメモリ上に置く）
+const storage = new Map<string, string>()
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, value)
+} as Storage
+
+const { SettingsPanel } = await import('./settings-panel')
+const { GameProgressManager } = await import('../../systems/GameProgressManager')
+const { DEFAULT_ASSIST_SETTINGS, MIN_ASSIST_GAUGE_SPEED } = await import('../../types/assist')
+const { DEFAULT_CONTROL_SCHEME } = await import('../../types/control-scheme')
+const { GAME_MODE_CONFIGS } = await import('../../types/game-mode')
+const { DEFAULT_PHYSICS_QUALITY } = await import('../../types/quality')
+const { MenuNavigator } = await import('../../ui/menu-navigator')
+
+const progress = GameProgressManager.getInstance()
+
+const click = (button: { onClick?: () => void }) => button.onClick?.()
+
+describe('SettingsPanel', () => {
+  beforeEach(() => {
+    progress.setAssistSettings(DEFAULT_ASSIST_SETTINGS)
+    progress.setControlScheme(DEFAULT_CONTROL_SCHEME)
+    progress.setSlowMotionEnabled(true)
+    progress.setPedestal('normal', GAME_MODE_CONFIGS.normal.pedestal)
+    progress.setPedestal('decorated', GAME_MODE_CONFIGS.decorated.pedestal)
+    progress.setPhysicsQuality(DEFAULT_PHYSICS_QUALITY)
+  })
+
+  it('steps the gauge speed with buttons and keeps it in range', () => {
+    const [slower, faster] = new SettingsPanel({ onClose: () => {} }).getButtons()
+
+    click(slower)
+    expect(progress.getAssistSettings().gaugeSpeed).toBe(0.95)
+    click(faster)
+    click(faster)
+    expect(progress.getAssistSettings().gaugeSpeed).toBe(1)
+
+    for (let i = 0; i < 30; i++) click(slower)
+    expect(progress.getAssistSettings().gaugeSpeed).toBe(MIN_ASSIST_GAUGE_SPEED)
+  })
+
+  it('saves the dragged gauge speed', () => {
+    const panel = new SettingsPanel({ onClose: () => {} })
+    const [slider] = panel.getSliders()
+    panel.updateMatrixWorld(true)
+
+    panel.setSliderFromPoint(slider, slider.localToWorld(new THREE.Vector3(0, 0, 0)))
+
+    // 真ん中（62.5%）は表示と同じ1%単位に丸めて保存する
+    expect(progress.getAssistSettings().gaugeSpeed).toBe(0.63)
+  })
+
+  it('toggles the assist switches one at a time', () => {
+    const [, , hold, singleSwitch, pause] = new SettingsPanel({ onClose: () => {} }).getButtons()
+
+    click(hold)
+    click(pause)
+    expect(progress.getAssistSettings()).toMatchObject({
+      holdToStop: true,
+      singleSwitch: false,
+      pauseAtValues: true
+    })
+
+    click(singleSwitch)
+    click(hold)
+    expect(progress.getAssistSettings()).toMatchObject({ holdToStop: false, singleSwitch: true })
+  })
+
+  it('switches between the gauge and the slingshot', () => {
+    const controls = new SettingsPanel({ onClose: () => {} }).getButtons()[5]
+
+    expect(progress.getControlScheme()).toBe('gauge')
+    click(controls)
+    expect(progress.getControlScheme()).toBe('slingshot')
+    click(controls)
+    expect(progress.getControlScheme()).toBe('gauge')
+  })
+
+  it('turns the automatic slow motion off and on', () => {
+    const slowMotion = new SettingsPanel({ onClose: () => {} }).getButtons()[6]
+
+    click(slowMotion)
+    expect(progress.isSlowMotionEnabled()).toBe(false)
+    click(slowMotion)
+    expect(progress.isSlowMotionEnabled()).toBe(true)
+  })
+
+  it('picks the pedestal of each mode separately', () => {
+    const buttons = new SettingsPanel({ onClose: () => {} }).getButtons()
+    const [mode, pedestal] = [buttons[7], buttons[8]]
+
+    click(pedestal)
+    expect(progress.getPedestal('normal')).toBe('ice')
+
+    // エンドレスは未解放なので、通常の次は本飾り
+    expect(progress.isEndlessUnlocked()).toBe(false)
+    click(mode)
+    click(pedestal)
+    click(pedestal)
+    expect(progress.getPedestal('decorated')).toBe('tatami')
+    expect(progress.getPedestal('normal')).toBe('ice')
+  })
+
+  it('cycles the physics quality', () => {
+    const quality = new SettingsPanel({ onClose: () => {} }).getButtons()[9]
+
+    click(quality)
+    expect(progress.getPhysicsQuality()).toBe('high')
+    click(quality)
+    expect(progress.getPhysicsQuality()).toBe('low')
+  })
+
+  it('shows settings saved elsewhere when refreshed', () => {
+    const panel = new SettingsPanel({ onClose: () => {} })
+    progress.setAssistSettings({ ...DEFAULT_ASSIST_SETTINGS, gaugeSpeed: 0.4 })
+
+    panel.refresh()
+    expect(panel.getSliders()[0].getValue()).toBe(0.4)
+  })
+
+  it('can be worked through entirely by stepping and pressing one switch', () => {
+    let closed = 0
+    const panel = new SettingsPanel({ onClose: () => closed++ })
+    const buttons = panel.getButtons()
+    const navigator = new MenuNavigator(() => buttons)
+
+    for (let i = 0; i < buttons.length; i++) navigator.next()
+    expect(navigator.getFocused()).toBe(buttons[buttons.length - 1])
+    navigator.activate()
+    expect(closed).toBe(1)
+  })
+})
@@ -0,0 +1,283 @@
+import * as THREE from 'three'
+import { createPanel3D } from '../../ui/panel-3d'
+import { Slider3D } from '../../ui/slider-3d'
+import { Button3D } from '../../ui/button-3d'
+import { createTextSprite } from '../../ui/text-sprite'
+import { GameProgressManager } from '../../systems/GameProgressManager'
+import { type AssistSettings, MIN_ASSIST_GAUGE_SPEED } from '../../types/assist'
+import { type ControlScheme, CONTROL_SCHEME_NAMES } from '../../types/control-scheme'
+import { type GameMode, GAME_MODE_CONFIGS } from '../../types/game-mode'
+import { type PedestalType, PEDESTAL_CONFIGS } from '../../types/pedestal'
+import { type PhysicsQuality, PHYSICS_QUALITY_NAMES } from '../../types/quality'
+
+const PANEL_WIDTH = 6.2
+const ROW_HEIGHT = 0.62
+/** 項目名の中心と、切り替えボタンの中心のx */
+const LABEL_X = -1.4
+const CONTROL_X = 1.75
+const CONTROL_WIDTH = 2.2
+/** −/＋ボタン1回で変えるゲージの速さ */
+const GAUGE_SPEED_STEP = 0.05
+
+const BUTTON_STYLE = {
+  height: 0.46,
+  fontSize: 26,
+  textColor: '#ffffff',
+  backgroundColor: 0x333333,
+  hoverColor: 0x555555,
+  activeColor: 0x222222,
+  borderColor: 0xffd700
+} as const
+
+type AssistFlag = 'holdToStop' | 'singleSwitch' | 'pauseAtValues'
+
+export type SettingsPanelOptions = {
+  /** ボタンを押したとき（効果音用） */
+  onClick?: () => void
+  /** 閉じるボタン */
+  onClose: () => void
+}
+
+/**
+ * タイトル画面の設定パネル
+ * 変えた設定はその場でGameProgressManagerに保存する
+ * スライダーにも−/＋ボタンを付け、全項目をボタンだけで（十字キー・1スイッチの走査でも）操作できるようにする
+ */
+export class SettingsPanel extends THREE.Group {
+  private readonly buttons: Button3D[] = []
+  private readonly speedSlider: Slider3D
+  /** 保存された値を表示に反映し直す処理 */
+  private readonly refreshers: (() => void)[] = []
+  private readonly onClick?: () => void
+  /** 台座を選んでいるモード */
+  private pedestalMode: GameMode = 'normal'
+
+  constructor(options: SettingsPanelOptions) {
+    super()
+    this.onClick = options.onClick
+    this.speedSlider = new Slider3D({
+      label: 'ゲージの速さ',
+      width: 1.6,
+      min: MIN_ASSIST_GAUGE_SPEED,
+      max: 1,
+      initialValue: this.getAssist().gaugeSpeed,
+      onChange: (gaugeSpeed) => this.updateAssist({ gaugeSpeed: roundSpeed(gaugeSpeed) })
+    })
+
+    // 上から並べる行（見出しと閉じるボタンを除く）
+    const rows: ((y: number) => void)[] = [
+      (y) => this.addGaugeSpeedRow(y),
+      (y) => this.addAssistToggleRow('押し続けて決定', y, 'holdToStop'),
+      (y) => this.addAssistToggleRow('1スイッチ操作', y, 'singleSwitch'),
+      (y) => this.addAssistToggleRow('端と中央で止める', y, 'pauseAtValues'),
+      (y) => this.addControlSchemeRow(y),
+      (y) => this.addSlowMotionRow(y),
+      (y) => this.addPedestalModeRow(y),
+      (y) => this.addPedestalRow(y),
+      (y) => this.addPhysicsQualityRow(y)
+    ]
+
+    const height = (rows.length + 2.4) * ROW_HEIGHT
+    this.add(createPanel3D({ width: PANEL_WIDTH, height, opacity: 0.92 }))
+
+    let y = height / 2 - ROW_HEIGHT * 0.8
+    const title = createTextSprite({ text: '設定', fontSize: 36, color: '#ffd700' })
+    title.position.set(0, y, 0.1)
+    this.add(title)
+
+    for (const addRow of rows) {
+      y -= ROW_HEIGHT
+      addRow(y)
+    }
+    this.addButton('閉じる', 0, -height / 2 + ROW_HEIGHT * 0.7, 2, options.onClose)
+    this.refresh()
+  }
+
+  /**
+   * 操作できるボタン（表示順。十字キー・走査で巡る順番）
+   */
+  getButtons(): Button3D[] {
+    return this.buttons
+  }
+
+  /**
+   * ドラッグで操作できるスライダー
+   */
+  getSliders(): Slider3D[] {
+    return [this.speedSlider]
+  }
+
+  /**
+   * ワールド座標の位置にスライダーの値を合わせる（ドラッグ用）
+   */
+  setSliderFromPoint(slider: Slider3D, point: THREE.Vector3): void {
+    const local = slider.worldToLocal(point.clone())
+    slider.setValueFromPosition(THREE.MathUtils.clamp(local.x / slider.getWidth() + 0.5, 0, 1))
+  }
+
+  /**
+   * 保存されている設定を表示に反映する（開くたびに呼ぶ）
+   */
+  refresh(): void {
+    this.refreshers.forEach((refresh) => refresh())
+  }
+
+  private addGaugeSpeedRow(y: number): void {
+    this.speedSlider.position.set(0, y, 0.1)
+    this.add(this.speedSlider)
+    this.refreshers.push(() => this.speedSlider.setValue(this.getAssist().gaugeSpeed))
+
+    this.addButton('−', CONTROL_X + 0.35, y, 0.5, () => this.stepGaugeSpeed(-1))
+    this.addButton('＋', CONTROL_X + 0.95, y, 0.5, () => this.stepGaugeSpeed(1))
+  }
+
+  private stepGaugeSpeed(direction: 1 | -1): void {
+    const speed = roundSpeed(this.speedSlider.getValue() + direction * GAUGE_SPEED_STEP)
+    this.speedSlider.setValue(speed)
+    this.updateAssist({ gaugeSpeed: this.speedSlider.getValue() })
+  }
+
+  private addAssistToggleRow(label: string, y: number, flag: AssistFlag): void {
+    this.addChoiceRow(
+      label,
+      y,
+      [false, true],
+      toggleText,
+      () => this.getAssist()[flag],
+      (enabled) => this.updateAssist({ [flag]: enabled })
+    )
+  }
+
+  private addControlSchemeRow(y: number): void {
+    const progress = GameProgressManager.getInstance()
+    this.addChoiceRow<ControlScheme>(
+      '操作方法',
+      y,
+      ['gauge', 'slingshot'],
+      (scheme) => CONTROL_SCHEME_NAMES[scheme],
+      () => progress.getControlScheme(),
+      (scheme) => progress.setControlScheme(scheme)
+    )
+  }
+
+  private addSlowMotionRow(y: number): void {
+    const progress = GameProgressManager.getInstance()
+    this.addChoiceRow(
+      'スローモーション',
+      y,
+      [false, true],
+      toggleText,
+      () => progress.isSlowMotionEnabled(),
+      (enabled) => progress.setSlowMotionEnabled(enabled)
+    )
+  }
+
+  /**
+   * 台座を選ぶモード（エンドレスは解放後だけ）
+   */
+  private addPedestalModeRow(y: number): void {
+    const progress = GameProgressManager.getInstance()
+    const modes = (Object.keys(GAME_MODE_CONFIGS) as GameMode[]).filter(
+      (mode) => mode !== 'endless' || progress.isEndlessUnlocked()
+    )
+    this.addChoiceRow(
+      '台座のモード',
+      y,
+      modes,
+      (mode) => GAME_MODE_CONFIGS[mode].displayName,
+      () => this.pedestalMode,
+      (mode) => {
+        this.pedestalMode = mode
+        this.refresh()
+      }
+    )
+  }
+
+  private addPedestalRow(y: number): void {
+    const progress = GameProgressManager.getInstance()
+    this.addChoiceRow(
+      '台座',
+      y,
+      Object.keys(PEDESTAL_CONFIGS) as PedestalType[],
+      (pedestal) => PEDESTAL_CONFIGS[pedestal].displayName,
+      () => progress.getPedestal(this.pedestalMode),
+      (pedestal) => progress.setPedestal(this.pedestalMode, pedestal)
+    )
+  }
+
+  /**
+   * 当たり判定の品質（重い端末では軽量に）
+   */
+  private addPhysicsQualityRow(y: number): void {
+    const progress = GameProgressManager.getInstance()
+    this.addChoiceRow(
+      '当たり判定',
+      y,
+      Object.keys(PHYSICS_QUALITY_NAMES) as PhysicsQuality[],
+      (quality) => PHYSICS_QUALITY_NAMES[quality],
+      () => progress.getPhysicsQuality(),
+      (quality) => progress.setPhysicsQuality(quality)
+    )
+  }
+
+  /**
+   * 押すたびに選択肢を順に切り替える行
+   */
+  private addChoiceRow<T>(
+    label: string,
+    y: number,
+    choices: readonly T[],
+    getName: (choice: T) => string,
+    get: () => T,
+    set: (choice: T) => void
+  ): void {
+    this.addLabel(label, y)
+    const button = this.addButton('', CONTROL_X, y, CONTROL_WIDTH, () => {
+      const index = choices.indexOf(get())
+      set(choices[(index + 1) % choices.length])
+      button.setText(getName(get()))
+    })
+    this.refreshers.push(() => button.setText(getName(get())))
+  }
+
+  private addLabel(text: string, y: number): void {
+    const sprite = createTextSprite({ text, fontSize: 26, color: '#ffffff' })
+    sprite.position.set(LABEL_X, y, 0.1)
+    this.add(sprite)
+  }
+
+  private addButton(
+    text: string,
+    x: number,
+    y: number,
+    width: number,
+    action: () => void
+  ): Button3D {
+    const button = new Button3D({
+      ...BUTTON_STYLE,
+      text,
+      width,
+      onClick: () => {
+        this.onClick?.()
+        action()
+      }
+    })
+    button.position.set(x, y, 0.1)
+    this.add(button)
+    this.buttons.push(button)
+    return button
+  }
+
+  private getAssist(): AssistSettings {
+    return GameProgressManager.getInstance().getAssistSettings()
+  }
+
+  private updateAssist(change: Partial<AssistSettings>): void {
+    GameProgressManager.getInstance().setAssistSettings({ ...this.getAssist(), ...change })
+  }
+}
+
+const toggleText = (enabled: boolean): string => (enabled ? 'ON' : 'OFF')
+
+/** 表示（%）と保存する値がずれないよう1%単位に丸める */
+const roundSpeed = (speed: number): number => Math.round(speed * 100) / 100
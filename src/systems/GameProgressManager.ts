@@ -1,8 +1,68 @@
+import {
+  type PhysicsQuality,
+  DEFAULT_PHYSICS_QUALITY,
+  isPhysicsQuality
+} from '../types/quality'
+import { type PedestalType, isPedestalType } from '../types/pedestal'
+import { type GameMode, getGameModeConfig } from '../types/game-mode'
+import {
+  type ControlScheme,
+  DEFAULT_CONTROL_SCHEME,
+  isControlScheme
+} from '../types/control-scheme'
+import {
+  type AssistSettings,
+  DEFAULT_ASSIST_SETTINGS,
+  sanitizeAssistSettings
+} from '../types/assist'
+import type { MochiType } from '../objects'
+import {
+  type ShotHistory,
+  type ShotRecord,
+  addShotRecord,
+  getBestShotRecord,
+  sanitizeShotHistory
+} from '../types/shot-history'
+
 /**
  * ゲーム進行状況の永続化マネージャー
  */
 
 const STORAGE_KEY = 'kagamimochi_game_progress'
+/** 1発ごとの履歴は量が多いので進行状況とは別に保存する */
+const SHOT_HISTORY_STORAGE_KEY = 'kagamimochi_shot_history'
+
+/**
+ * 操作方法ごとの成績
+ */
+export type ControlSchemeStats = {
+  /** 最後まで遊んだ回数（リプレイ再生は数えない） */
+  plays: number
+  /** 通常モードの最高スコア */
+  normalHighScore: number
+  /** エンドレスモードの最高到達高度（m） */
+  endlessMaxHeight: number
+  /** そのうちアシストを使って遊んだ回数 */
+  assistedPlays: number
+}
+
+const EMPTY_CONTROL_SCHEME_STATS: ControlSchemeStats = {
+  plays: 0,
+  normalHighScore: 0,
+  endlessMaxHeight: 0,
+  assistedPlays: 0
+}
+
+const isControlSchemeStats = (value: unknown): value is ControlSchemeStats => {
+  if (typeof value !== 'object' || value === null) return false
+  const stats = value as Partial<ControlSchemeStats>
+  return (
+    typeof stats.plays === 'number' &&
+    typeof stats.normalHighScore === 'number' &&
+    typeof stats.endlessMaxHeight === 'number' &&
+    typeof stats.assistedPlays === 'number'
+  )
+}
 
 export type GameProgress = {
   /** エンドレスモードが解放されているか */
@@ -13,6 +73,20 @@ export type GameProgress = {
   normalHighScore: number
   /** 解放日時（デバッグ・将来拡張用） */
   unlockedAt: string | null
+  /** 物理シミュレーションの品質 */
+  physicsQuality: PhysicsQuality
+  /** モードごとに選んだ台座（未選択のモードはモードの標準） */
+  pedestals: Partial<Record<GameMode, PedestalType>>
+  /** 見せ場で自動的にスローモーションにするか */
+  slowMotionEnabled: boolean
+  /** 発射の操作方法 */
+  controlScheme: ControlScheme
+  /** 操作方法ごとの成績（遊んだことのない操作方法は省略） */
+  controlSchemeStats: Partial<Record<ControlScheme, ControlSchemeStats>>
+  /** ゲージ操作のアシスト */
+  assist: AssistSettings
+  /** 狙っている間に自己ベストの1発を重ねて表示するか */
+  ghostEnabled: boolean
 }
 
 const DEFAULT_GAME_PROGRESS: GameProgress = {
@@ -20,6 +94,13 @@ const DEFAULT_GAME_PROGRESS: GameProgress = {
   unlockCutinShown: false,
   normalHighScore: 0,
   unlockedAt: null,
+  physicsQuality: DEFAULT_PHYSICS_QUALITY,
+  pedestals: {},
+  slowMotionEnabled: true,
+  controlScheme: DEFAULT_CONTROL_SCHEME,
+  controlSchemeStats: {},
+  assist: DEFAULT_ASSIST_SETTINGS,
+  ghostEnabled: true,
 }
 
 /**
@@ -28,9 +109,11 @@ const DEFAULT_GAME_PROGRESS: GameProgress = {
 export class GameProgressManager {
   private static instance: GameProgressManager | null = null
   private progress: GameProgress
+  private shotHistory: ShotHistory
 
   private constructor() {
     this.progress = this.load()
+    this.shotHistory = this.loadShotHistory()
   }
 
   static getInstance(): GameProgressManager {
@@ -49,13 +132,49 @@ export class GameProgressManager {
       if (!raw) return { ...DEFAULT_GAME_PROGRESS }
 
       const parsed = JSON.parse(raw) as Partial<GameProgress>
-      return { ...DEFAULT_GAME_PROGRESS, ...parsed }
+      const progress = { ...DEFAULT_GAME_PROGRESS, ...parsed }
+      if (!isPhysicsQuality(progress.physicsQuality)) {
+        progress.physicsQuality = DEFAULT_PHYSICS_QUALITY
+      }
+      progress.pedestals = Object.fromEntries(
+        Object.entries(progress.pedestals ?? {}).filter(([, type]) => isPedestalType(type))
+      )
+      if (typeof progress.slowMotionEnabled !== 'boolean') {
+        progress.slowMotionEnabled = DEFAULT_GAME_PROGRESS.slowMotionEnabled
+      }
+      if (!isControlScheme(progress.controlScheme)) {
+        progress.controlScheme = DEFAULT_CONTROL_SCHEME
+      }
+      // 項目が増える前に保存された成績は、足りない項目を0で補う
+      progress.controlSchemeStats = Object.fromEntries(
+        Object.entries(progress.controlSchemeStats ?? {})
+          .map(([scheme, stats]) => [scheme, { ...EMPTY_CONTROL_SCHEME_STATS, ...stats }])
+          .filter(([scheme, stats]) => isControlScheme(scheme) && isControlSchemeStats(stats))
+      )
+      progress.assist = sanitizeAssistSettings(progress.assist)
+      if (typeof progress.ghostEnabled !== 'boolean') {
+        progress.ghostEnabled = DEFAULT_GAME_PROGRESS.ghostEnabled
+      }
+      return progress
     } catch (e) {
       console.warn('Failed to load game progress:', e)
       return { ...DEFAULT_GAME_PROGRESS }
     }
   }
 
+  /**
+   * 1発ごとの履歴を localStorage から読み込み
+   */
+  private loadShotHistory(): ShotHistory {
+    try {
+      const raw = localStorage.getItem(SHOT_HISTORY_STORAGE_KEY)
+      return raw ? sanitizeShotHistory(JSON.parse(raw)) : {}
+    } catch (e) {
+      console.warn('Failed to load shot history:', e)
+      return {}
+    }
+  }
+
   /**
    * localStorage に保存
    */
@@ -117,6 +236,158 @@ export class GameProgressManager {
     return this.progress.normalHighScore
   }
 
+  /**
+   * 物理シミュレーションの品質を取得
+   */
+  getPhysicsQuality(): PhysicsQuality {
+    return this.progress.physicsQuality
+  }
+
+  /**
+   * 物理シミュレーションの品質を設定
+   */
+  setPhysicsQuality(quality: PhysicsQuality): void {
+    if (this.progress.physicsQuality === quality) return
+
+    this.progress.physicsQuality = quality
+    this.save()
+  }
+
+  /**
+   * モードで使う台座を取得
+   */
+  getPedestal(mode: GameMode): PedestalType {
+    return this.progress.pedestals[mode] ?? getGameModeConfig(mode).pedestal
+  }
+
+  /**
+   * モードで使う台座を設定
+   */
+  setPedestal(mode: GameMode, pedestal: PedestalType): void {
+    if (this.getPedestal(mode) === pedestal) return
+
+    this.progress.pedestals = { ...this.progress.pedestals, [mode]: pedestal }
+    this.save()
+  }
+
+  /**
+   * 自動スローモーションが有効か
+   */
+  isSlowMotionEnabled(): boolean {
+    return this.progress.slowMotionEnabled
+  }
+
+  /**
+   * 自動スローモーションの有効/無効を設定
+   */
+  setSlowMotionEnabled(enabled: boolean): void {
+    if (this.progress.slowMotionEnabled === enabled) return
+
+    this.progress.slowMotionEnabled = enabled
+    this.save()
+  }
+
+  /**
+   * 発射の操作方法を取得
+   */
+  getControlScheme(): ControlScheme {
+    return this.progress.controlScheme
+  }
+
+  /**
+   * 発射の操作方法を設定
+   */
+  setControlScheme(scheme: ControlScheme): void {
+    if (this.progress.controlScheme === scheme) return
+
+    this.progress.controlScheme = scheme
+    this.save()
+  }
+
+  /**
+   * 操作方法ごとの成績を取得
+   */
+  getControlSchemeStats(scheme: ControlScheme): ControlSchemeStats {
+    return { ...(this.progress.controlSchemeStats[scheme] ?? EMPTY_CONTROL_SCHEME_STATS) }
+  }
+
+  /**
+   * 1プレイ分の結果を操作方法ごとの成績に加える
+   * @param result 100点満点のモードはスコア、エンドレスモードは最高到達高度。アシストを使ったかも数える
+   * （最高スコアは通常モードのものだけ残す）
+   */
+  recordControlSchemePlay(
+    scheme: ControlScheme,
+    result: (
+      | { mode: Exclude<GameMode, 'endless'>; score: number }
+      | { mode: 'endless'; maxHeight: number }
+    ) & { assisted?: boolean }
+  ): void {
+    const stats = this.getControlSchemeStats(scheme)
+    stats.plays++
+    if (result.assisted) stats.assistedPlays++
+    if (result.mode === 'normal') {
+      stats.normalHighScore = Math.max(stats.normalHighScore, result.score)
+    } else if (result.mode === 'endless') {
+      stats.endlessMaxHeight = Math.max(stats.endlessMaxHeight, result.maxHeight)
+    }
+
+    this.progress.controlSchemeStats = { ...this.progress.controlSchemeStats, [scheme]: stats }
+    this.save()
+  }
+
+  /**
+   * ゲージ操作のアシスト設定を取得
+   */
+  getAssistSettings(): AssistSettings {
+    return this.progress.assist
+  }
+
+  /**
+   * ゲージ操作のアシスト設定を保存
+   */
+  setAssistSettings(settings: AssistSettings): void {
+    this.progress.assist = sanitizeAssistSettings(settings)
+    this.save()
+  }
+
+  /**
+   * 自己ベストの表示が有効か
+   */
+  isGhostEnabled(): boolean {
+    return this.progress.ghostEnabled
+  }
+
+  /**
+   * 自己ベストの表示の有効/無効を設定
+   */
+  setGhostEnabled(enabled: boolean): void {
+    if (this.progress.ghostEnabled === enabled) return
+
+    this.progress.ghostEnabled = enabled
+    this.save()
+  }
+
+  /**
+   * 1発の発射パラメータと結果を履歴に加える
+   */
+  recordShot(mode: GameMode, record: ShotRecord): void {
+    this.shotHistory = addShotRecord(this.shotHistory, mode, record)
+    try {
+      localStorage.setItem(SHOT_HISTORY_STORAGE_KEY, JSON.stringify(this.shotHistory))
+    } catch (e) {
+      console.warn('Failed to save shot history:', e)
+    }
+  }
+
+  /**
+   * モード・餅の種類ごとの自己ベストの1発
+   * @returns まだ撃っていなければnull
+   */
+  getBestShot(mode: GameMode, type: MochiType): ShotRecord | null {
+    return getBestShotRecord(this.shotHistory, mode, type)
+  }
+
   /**
    * 現在の進行状況を取得（読み取り専用）
    */
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { ReplayRecorder, ReplayPlayer } from './ReplayRecorder'
+import {
+  REPLAY_VERSION,
+  parseReplay,
+  serializeReplay,
+  toLaunchParameters
+} from '../types/replay'
+
+const createParams = (angleH: number, angleV: number, power: number) => ({
+  angleH,
+  angleV,
+  power,
+  launchPosition: new THREE.Vector3(0, 0, 10)
+})
+
+describe('ReplayRecorder', () => {
+  it('records shots with mode, seed and step', () => {
+    const recorder = new ReplayRecorder('normal', 1234, 'medium')
+    recorder.recordShot('base', createParams(1, 45, 50), 120)
+    recorder.recordShot('top', createParams(-2, 50, 60), 300)
+
+    const doc = recorder.toDocument()
+    expect(doc.version).toBe(REPLAY_VERSION)
+    expect(doc.mode).toBe('normal')
+    expect(doc.seed).toBe(1234)
+    expect(doc.shots).toHaveLength(2)
+    expect(doc.shots[0].mochiType).toBe('base')
+    expect(doc.shots[1].step).toBe(300)
+  })
+
+  it('does not share launch position with the recorded parameters', () => {
+    const recorder = new ReplayRecorder('normal', 1, 'medium')
+    const params = createParams(0, 45, 50)
+    recorder.recordShot('base', params, 0)
+    params.launchPosition.set(5, 5, 5)
+
+    expect(recorder.toDocument().shots[0].launchPosition).toEqual({ x: 0, y: 0, z: 10 })
+  })
+})
+
+describe('ReplayPlayer', () => {
+  const recorder = new ReplayRecorder('endless', 42, 'medium')
+  recorder.recordShot('base', createParams(0, 45, 50), 100)
+  recorder.recordShot('top', createParams(0, 45, 50), 250)
+  const doc = recorder.toDocument()
+
+  it('returns shots only when their step is reached', () => {
+    const player = new ReplayPlayer(doc)
+    expect(player.takeDue(99)).toBeNull()
+    expect(player.takeDue(100)?.mochiType).toBe('base')
+    expect(player.takeDue(100)).toBeNull()
+  })
+
+  it('returns late shots and finishes after the last one', () => {
+    const player = new ReplayPlayer(doc)
+    player.takeDue(100)
+    expect(player.isFinished).toBe(false)
+    expect(player.takeDue(400)?.mochiType).toBe('top')
+    expect(player.isFinished).toBe(true)
+    expect(player.peek()).toBeNull()
+  })
+})
+
+describe('replay serialization', () => {
+  it('round-trips through JSON', () => {
+    const recorder = new ReplayRecorder('normal', 99, 'medium')
+    recorder.recordShot('mikan', createParams(3.5, 60, 80), 42)
+    const doc = recorder.toDocument()
+
+    expect(parseReplay(serializeReplay(doc))).toEqual(doc)
+  })
+
+  it('restores launch parameters', () => {
+    const recorder = new ReplayRecorder('normal', 99, 'medium')
+    recorder.recordShot('base', createParams(12, 33, 77), 0)
+    const params = toLaunchParameters(recorder.toDocument().shots[0])
+
+    expect(params.angleH).toBe(12)
+    expect(params.angleV).toBe(33)
+    expect(params.power).toBe(77)
+    expect(params.launchPosition).toBeInstanceOf(THREE.Vector3)
+    expect(params.launchPosition.z).toBe(10)
+  })
+
+  it('restores spin and defaults old shots to no spin', () => {
+    const recorder = new ReplayRecorder('normal', 99, 'medium')
+    recorder.recordShot(
+      'base',
+      { ...createParams(0, 45, 50), spin: 60, spinAxis: new THREE.Vector3(0, -1, 0) },
+      0
+    )
+    recorder.recordShot('top', createParams(0, 45, 50), 10)
+    const [spinning, plain] = recorder.toDocument().shots.map(toLaunchParameters)
+
+    expect(spinning.spin).toBe(60)
+    expect(spinning.spinAxis?.y).toBe(-1)
+    expect(plain.spin).toBe(0)
+  })
+
+  it('keeps the control scheme and accepts replays without one', () => {
+    const doc = new ReplayRecorder(
+      'normal', 1, 'medium', undefined, undefined, undefined, 'slingshot'
+    ).toDocument()
+    expect(parseReplay(serializeReplay(doc))?.controlScheme).toBe('slingshot')
+
+    const { controlScheme: _, ...old } = doc
+    expect(parseReplay(JSON.stringify(old))).not.toBeNull()
+    expect(parseReplay(JSON.stringify({ ...doc, controlScheme: 'joystick' }))).toBeNull()
+  })
+
+  it('flags assisted runs only', () => {
+    const assisted = new ReplayRecorder(
+      'normal', 1, 'medium', undefined, undefined, undefined, 'gauge', true
+    ).toDocument()
+    expect(parseReplay(serializeReplay(assisted))?.assisted).toBe(true)
+    expect(new ReplayRecorder('normal', 1, 'medium').toDocument()).not.toHaveProperty('assisted')
+  })
+
+  it('returns null for broken JSON', () => {
+    expect(parseReplay('{not json')).toBeNull()
+  })
+
+  it('returns null for unsupported versions', () => {
+    const doc = { ...new ReplayRecorder('normal', 1, 'medium').toDocument(), version: 999 }
+    expect(parseReplay(JSON.stringify(doc))).toBeNull()
+  })
+
+  it('returns null for malformed shots', () => {
+    const doc = new ReplayRecorder('normal', 1, 'medium').toDocument()
+    const broken = { ...doc, shots: [{ mochiType: 'base', angleH: 'x' }] }
+    expect(parseReplay(JSON.stringify(broken))).toBeNull()
+  })
+})
@@ -0,0 +1,119 @@
+import type { MochiType } from '../objects'
+import type { GameMode } from '../types/game-mode'
+import type { PhysicsQuality } from '../types/quality'
+import { type DaiMotionType, DEFAULT_DAI_MOTION } from '../types/dai-motion'
+import { type PedestalType, DEFAULT_PEDESTAL } from '../types/pedestal'
+import type { LaunchParameters } from '../types/launch'
+import { type ControlScheme, DEFAULT_CONTROL_SCHEME } from '../types/control-scheme'
+import {
+  REPLAY_VERSION,
+  createReplayShot,
+  type ReplayDocument,
+  type ReplayShot
+} from '../types/replay'
+import { FIXED_TIME_STEP } from './SimulationClock'
+
+/**
+ * 発射の記録
+ * GameScene.launch() のたびにrecordShotを呼び、プレイ終了時に文書化する
+ */
+export class ReplayRecorder {
+  private readonly mode: GameMode
+  private readonly seed: number
+  private readonly physicsQuality: PhysicsQuality
+  private readonly timeStep: number
+  private readonly daiMotion: DaiMotionType
+  private readonly pedestal: PedestalType
+  private readonly controlScheme: ControlScheme
+  private readonly assisted: boolean
+  private shots: ReplayShot[] = []
+
+  constructor(
+    mode: GameMode,
+    seed: number,
+    physicsQuality: PhysicsQuality,
+    timeStep: number = FIXED_TIME_STEP,
+    daiMotion: DaiMotionType = DEFAULT_DAI_MOTION,
+    pedestal: PedestalType = DEFAULT_PEDESTAL,
+    controlScheme: ControlScheme = DEFAULT_CONTROL_SCHEME,
+    assisted: boolean = false
+  ) {
+    this.mode = mode
+    this.seed = seed
+    this.physicsQuality = physicsQuality
+    this.timeStep = timeStep
+    this.daiMotion = daiMotion
+    this.pedestal = pedestal
+    this.controlScheme = controlScheme
+    this.assisted = assisted
+  }
+
+  /**
+   * 発射を記録
+   * @param step 発射したシミュレーションステップ
+   */
+  recordShot(mochiType: MochiType, params: LaunchParameters, step: number): void {
+    this.shots.push(createReplayShot(mochiType, params, step))
+  }
+
+  getShotCount(): number {
+    return this.shots.length
+  }
+
+  /**
+   * リプレイ文書を作成
+   */
+  toDocument(): ReplayDocument {
+    return {
+      version: REPLAY_VERSION,
+      mode: this.mode,
+      seed: this.seed,
+      timeStep: this.timeStep,
+      physicsQuality: this.physicsQuality,
+      daiMotion: this.daiMotion,
+      pedestal: this.pedestal,
+      controlScheme: this.controlScheme,
+      ...(this.assisted ? { assisted: true } : {}),
+      shots: this.shots.map((shot) => ({
+        ...shot,
+        launchPosition: { ...shot.launchPosition },
+        ...(shot.spinAxis ? { spinAxis: { ...shot.spinAxis } } : {})
+      }))
+    }
+  }
+}
+
+/**
+ * リプレイ再生の進行管理
+ * 記録されたステップに達した発射を順番に取り出す
+ */
+export class ReplayPlayer {
+  public readonly replay: ReplayDocument
+  private index = 0
+
+  constructor(replay: ReplayDocument) {
+    this.replay = replay
+  }
+
+  /**
+   * 次に発射する記録（発射はしない）
+   */
+  peek(): ReplayShot | null {
+    return this.replay.shots[this.index] ?? null
+  }
+
+  /**
+   * 指定ステップで発射すべき記録を取り出す
+   * 準備が遅れて記録ステップを過ぎていた場合も取り出す
+   */
+  takeDue(step: number): ReplayShot | null {
+    const shot = this.peek()
+    if (!shot || step < shot.step) return null
+    this.index++
+    return shot
+  }
+
+  get isFinished(): boolean {
+    return this.index >= this.replay.shots.length
+  }
+}
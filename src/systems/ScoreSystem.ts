@@ -1,7 +1,28 @@
 import type { MochiManager } from '../objects/MochiManager'
-import type { MochiObject, MochiType } from '../objects/MochiObject'
-import type { GameMode } from '../types/game-mode'
-import { TARGET_POSITION, DAI_SURFACE_Y } from '../scenes/game/trajectory'
+import type { MochiIntegrity, MochiObject, MochiType } from '../objects/MochiObject'
+import { StackStabilityAnalyzer } from '../objects/StackStabilityAnalyzer'
+import { type GameMode, getGameModeConfig } from '../types/game-mode'
+import {
+  type PedestalSurface,
+  PEDESTAL_CONFIGS,
+  DEFAULT_PEDESTAL,
+  getPedestalSurfaceRadius,
+  getSurfaceMargin,
+  getDistanceOutsideSurface
+} from '../types/pedestal'
+import { TARGET_POSITION } from '../scenes/game/trajectory'
+
+/**
+ * 採点の基準（台座上面の中心と半径）
+ * 動く台では毎回その時点の位置を渡す
+ */
+export type ScoreTarget = PedestalSurface
+
+/** 従来の固定台（三方）の上面 */
+const DEFAULT_SCORE_TARGET: ScoreTarget = {
+  ...TARGET_POSITION,
+  radius: getPedestalSurfaceRadius(PEDESTAL_CONFIGS[DEFAULT_PEDESTAL])
+}
 
 /**
  * スコア計算結果
@@ -41,10 +62,13 @@ const CLASSIC_SCORING = {
   base: {
     onTarget: 30,
     nearTarget: 15,
-    targetRadius: 1.5,
-    nearRadius: 3.0,
-    minY: -2,
-    maxY: 0
+    /** 台座上面の半径に対するターゲットの割合（三方で1.5） */
+    targetRadiusRatio: 1.5 / 1.8,
+    /** 台座の縁からこの距離までは付近とみなす */
+    nearMargin: 1.2,
+    /** 上面からの底面の許容範囲（台に載っているか） */
+    minBelowSurface: 0.5,
+    maxAboveSurface: 1.5
   },
   top: {
     stacked: 35,
@@ -70,10 +94,19 @@ const ENDLESS_SCORING = {
   baseMultiplier: 100, // 基本倍率
   stackBonusBase: 50, // 1個あたりの基本ボーナス
   perfectStackMultiplier: 2, // 完璧なスタックの倍率
-  centerThreshold: 0.3, // 中心とみなす距離
+  perfectStackMargin: 0.5, // 完璧とみなす安定余裕（上の塔ごとの重心が支持面の半径の半分以内）
   mikanSuccessMultiplier: 1.5 // みかん成功時の倍率
 } as const
 
+/**
+ * ひび割れ・割れた餅の得点倍率
+ */
+const INTEGRITY_SCORING: Record<MochiIntegrity, { multiplier: number; note: string }> = {
+  intact: { multiplier: 1, note: '' },
+  cracked: { multiplier: 0.7, note: '（ひび割れ）' },
+  fragment: { multiplier: 0.4, note: '（割れ）' }
+}
+
 /**
  * 演出強度計算の設定
  */
@@ -87,6 +120,7 @@ const EFFECT_INTENSITY_CONFIG = {
  */
 export class ScoreSystem {
   private gameMode: GameMode
+  private stabilityAnalyzer = new StackStabilityAnalyzer()
 
   constructor(gameMode: GameMode = 'normal') {
     this.gameMode = gameMode
@@ -102,11 +136,12 @@ export class ScoreSystem {
 
   /**
    * スコアを計算
+   * @param target 台座上面（省略時は固定の三方）
    */
-  calculate(manager: MochiManager): ScoreResult {
-    return this.gameMode === 'normal'
-      ? this.calculateClassic(manager)
-      : this.calculateEndlessLegacy(manager)
+  calculate(manager: MochiManager, target: ScoreTarget = DEFAULT_SCORE_TARGET): ScoreResult {
+    return getGameModeConfig(this.gameMode).scoreType === 'accuracy'
+      ? this.calculateClassic(manager, target)
+      : this.calculateEndlessLegacy(manager, target)
   }
 
   /**
@@ -114,7 +149,8 @@ export class ScoreSystem {
    */
   calculateEndless(
     manager: MochiManager,
-    mikanSuccess: boolean = false
+    mikanSuccess: boolean = false,
+    target: ScoreTarget = DEFAULT_SCORE_TARGET
   ): EndlessScoreResult {
     const allMochi = manager.getAll()
     const stacked = manager.getStacked()
@@ -123,7 +159,7 @@ export class ScoreSystem {
     // 最高到達点（台座上面からの高さ）
     const rawMaxHeight =
       allMochi.length > 0 ? Math.max(...allMochi.map((m) => m.topY)) : 0
-    const maxHeight = Math.max(0, rawMaxHeight - DAI_SURFACE_Y)
+    const maxHeight = Math.max(0, rawMaxHeight - target.y)
 
     // 累乗スコア: height^exponent * baseMultiplier
     const heightScore =
@@ -133,17 +169,15 @@ export class ScoreSystem {
     // スタックボーナス
     let stackBonus = 0
     for (const mochi of stacked) {
-      let bonus = ENDLESS_SCORING.stackBonusBase
-
-      // 中心に近いほど追加ボーナス
-      if (mochi.stackedOn) {
-        const dx = mochi.position.x - mochi.stackedOn.position.x
-        const dz = mochi.position.z - mochi.stackedOn.position.z
-        const offset = Math.sqrt(dx ** 2 + dz ** 2)
-
-        if (offset < ENDLESS_SCORING.centerThreshold) {
-          bonus *= ENDLESS_SCORING.perfectStackMultiplier
-        }
+      const integrity = INTEGRITY_SCORING[mochi.integrity]
+      let bonus = ENDLESS_SCORING.stackBonusBase * integrity.multiplier
+
+      // 上の塔ごとの重心が下の餅の中心に近い（安定余裕が大きい）ほど追加ボーナス
+      if (
+        mochi.stackedOn &&
+        this.getMargin(mochi, target) >= ENDLESS_SCORING.perfectStackMargin
+      ) {
+        bonus *= ENDLESS_SCORING.perfectStackMultiplier
       }
 
       stackBonus += bonus
@@ -151,7 +185,7 @@ export class ScoreSystem {
         mochiId: mochi.id,
         type: mochi.config.type,
         points: bonus,
-        reason: `スタックボーナス`,
+        reason: `スタックボーナス${integrity.note}`,
         height: mochi.height
       })
     }
@@ -182,29 +216,30 @@ export class ScoreSystem {
    * クラシックモード: 100点満点
    * 既存の互換性を維持
    */
-  private calculateClassic(manager: MochiManager): ScoreResult {
+  private calculateClassic(manager: MochiManager, target: ScoreTarget): ScoreResult {
     const allMochi = manager.getAll()
     const breakdown: ScoreBreakdown[] = []
     let total = 0
 
-    const base = allMochi.find((m) => m.config.type === 'base')
-    const top = allMochi.find((m) => m.config.type === 'top')
-    const mikan = allMochi.find((m) => m.config.type === 'mikan')
+    // 種類ではなく役割で探す（橙をみかんの代わりに載せるモードなどに対応）
+    const base = allMochi.find((m) => m.config.scoringRole === 'foundation')
+    const top = allMochi.find((m) => m.config.scoringRole === 'tier')
+    const mikan = allMochi.find((m) => m.config.scoringRole === 'crown')
 
     if (base) {
-      const result = this.scoreClassicBase(base)
+      const result = this.applyIntegrity(this.scoreClassicBase(base, target), base)
       breakdown.push(result)
       total += result.points
     }
 
     if (top && base) {
-      const result = this.scoreClassicTop(top, base)
+      const result = this.applyIntegrity(this.scoreClassicTop(top, base, target), top)
       breakdown.push(result)
       total += result.points
     }
 
     if (mikan && top) {
-      const result = this.scoreClassicMikan(mikan, top)
+      const result = this.applyIntegrity(this.scoreClassicMikan(mikan, top, target), mikan)
       breakdown.push(result)
       total += result.points
     }
@@ -221,28 +256,43 @@ export class ScoreSystem {
     }
   }
 
-  private scoreClassicBase(base: MochiObject): ScoreBreakdown {
-    const dx = base.position.x - TARGET_POSITION.x
-    const dz = base.position.z - TARGET_POSITION.z
-    const dist = Math.sqrt(dx ** 2 + dz ** 2)
-    const { onTarget, nearTarget, targetRadius, nearRadius, minY, maxY } =
+  /**
+   * ひび割れ・割れた餅は減点する（割れた餅は一番最初の破片で採点される）
+   */
+  private applyIntegrity(result: ScoreBreakdown, mochi: MochiObject): ScoreBreakdown {
+    const { multiplier, note } = INTEGRITY_SCORING[mochi.integrity]
+    if (multiplier === 1 || result.points === 0) return result
+    return {
+      ...result,
+      points: Math.round(result.points * multiplier),
+      reason: `${result.reason}${note}`
+    }
+  }
+
+  private scoreClassicBase(base: MochiObject, target: ScoreTarget): ScoreBreakdown {
+    const { x, z } = base.position
+    const { onTarget, nearTarget, targetRadiusRatio, nearMargin, minBelowSurface, maxAboveSurface } =
       CLASSIC_SCORING.base
+    // 上面を縮めた範囲（箱の台座は長方形のまま）に入っていればターゲット上
+    const isOnTarget = getSurfaceMargin(target, x, z) > 1 - targetRadiusRatio
+    const isNear = getDistanceOutsideSurface(target, x, z) < nearMargin
 
-    const isOnDai = base.bottomY > minY && base.bottomY < maxY
+    const isOnDai =
+      base.bottomY > target.y - minBelowSurface && base.bottomY < target.y + maxAboveSurface
 
-    if (dist < targetRadius && isOnDai) {
+    if (isOnTarget && isOnDai) {
       return {
         mochiId: base.id,
-        type: 'base',
+        type: base.config.type,
         points: onTarget,
         reason: 'ターゲット上',
         height: base.height
       }
     }
-    if (dist < nearRadius) {
+    if (isNear) {
       return {
         mochiId: base.id,
-        type: 'base',
+        type: base.config.type,
         points: nearTarget,
         reason: 'ターゲット付近',
         height: base.height
@@ -250,22 +300,42 @@ export class ScoreSystem {
     }
     return {
       mochiId: base.id,
-      type: 'base',
+      type: base.config.type,
       points: 0,
       reason: 'ターゲット外',
       height: base.height
     }
   }
 
-  private scoreClassicTop(top: MochiObject, base: MochiObject): ScoreBreakdown {
+  /**
+   * 餅から上の塔の安定余裕（負なら重心が支持面の外＝粘りだけで留まっている）
+   */
+  private getMargin(mochi: MochiObject, target: ScoreTarget): number {
+    return this.stabilityAnalyzer.analyzeMochi(mochi, target).margin
+  }
+
+  private scoreClassicTop(
+    top: MochiObject,
+    base: MochiObject,
+    target: ScoreTarget
+  ): ScoreBreakdown {
     const isPhysicallyStacked = top.stackedOn === base
     const { stacked, near, stackRadius, nearRadius, maxHeightAbove } =
       CLASSIC_SCORING.top
 
+    if (isPhysicallyStacked && this.getMargin(top, target) < 0) {
+      return {
+        mochiId: top.id,
+        type: top.config.type,
+        points: near,
+        reason: 'ベースの縁で不安定',
+        height: top.height
+      }
+    }
     if (isPhysicallyStacked) {
       return {
         mochiId: top.id,
-        type: 'top',
+        type: top.config.type,
         points: stacked,
         reason: 'ベースの上に積載',
         height: top.height
@@ -281,7 +351,7 @@ export class ScoreSystem {
     if (dist < stackRadius && isAbove) {
       return {
         mochiId: top.id,
-        type: 'top',
+        type: top.config.type,
         points: stacked,
         reason: 'ベース上方',
         height: top.height
@@ -290,7 +360,7 @@ export class ScoreSystem {
     if (dist < nearRadius) {
       return {
         mochiId: top.id,
-        type: 'top',
+        type: top.config.type,
         points: near,
         reason: 'ベース付近',
         height: top.height
@@ -298,7 +368,7 @@ export class ScoreSystem {
     }
     return {
       mochiId: top.id,
-      type: 'top',
+      type: top.config.type,
       points: 0,
       reason: 'ベース外',
       height: top.height
@@ -307,16 +377,26 @@ export class ScoreSystem {
 
   private scoreClassicMikan(
     mikan: MochiObject,
-    top: MochiObject
+    top: MochiObject,
+    target: ScoreTarget
   ): ScoreBreakdown {
     const isPhysicallyStacked = mikan.stackedOn === top
     const { stacked, near, stackRadius, nearRadius, maxHeightAbove } =
       CLASSIC_SCORING.mikan
 
+    if (isPhysicallyStacked && this.getMargin(mikan, target) < 0) {
+      return {
+        mochiId: mikan.id,
+        type: mikan.config.type,
+        points: near,
+        reason: '上餅の縁で不安定',
+        height: mikan.height
+      }
+    }
     if (isPhysicallyStacked) {
       return {
         mochiId: mikan.id,
-        type: 'mikan',
+        type: mikan.config.type,
         points: stacked,
         reason: '上餅の上に積載',
         height: mikan.height
@@ -333,7 +413,7 @@ export class ScoreSystem {
     if (dist < stackRadius && isAbove) {
       return {
         mochiId: mikan.id,
-        type: 'mikan',
+        type: mikan.config.type,
         points: stacked,
         reason: '上餅上方',
         height: mikan.height
@@ -342,7 +422,7 @@ export class ScoreSystem {
     if (dist < nearRadius) {
       return {
         mochiId: mikan.id,
-        type: 'mikan',
+        type: mikan.config.type,
         points: near,
         reason: '上餅付近',
         height: mikan.height
@@ -350,7 +430,7 @@ export class ScoreSystem {
     }
     return {
       mochiId: mikan.id,
-      type: 'mikan',
+      type: mikan.config.type,
       points: 0,
       reason: '上餅外',
       height: mikan.height
@@ -361,8 +441,8 @@ export class ScoreSystem {
    * エンドレスモード: 高さベースのスコア（レガシー互換用）
    * @deprecated calculateEndless(manager, mikanSuccess)を使用してください
    */
-  private calculateEndlessLegacy(manager: MochiManager): ScoreResult {
-    const result = this.calculateEndless(manager, false)
+  private calculateEndlessLegacy(manager: MochiManager, target: ScoreTarget): ScoreResult {
+    const result = this.calculateEndless(manager, false, target)
     return {
       total: result.total,
       breakdown: result.breakdown,
@@ -418,10 +498,10 @@ export class ScoreSystem {
   /**
    * リアルタイム高度取得（エンドレスモード用）
    */
-  getCurrentHeight(manager: MochiManager): number {
+  getCurrentHeight(manager: MochiManager, target: ScoreTarget = DEFAULT_SCORE_TARGET): number {
     const allMochi = manager.getAll()
     if (allMochi.length === 0) return 0
     const rawMax = Math.max(...allMochi.map((m) => m.topY))
-    return Math.max(0, rawMax - DAI_SURFACE_Y)
+    return Math.max(0, rawMax - target.y)
   }
 }
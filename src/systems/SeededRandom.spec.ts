@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'bun:test'
+import { SeededRandom, createRandomSeed } from './SeededRandom'
+
+describe('SeededRandom', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = new SeededRandom(12345)
+    const b = new SeededRandom(12345)
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next())
+    }
+  })
+
+  it('returns different sequences for different seeds', () => {
+    const a = new SeededRandom(1)
+    const b = new SeededRandom(2)
+    const seqA = Array.from({ length: 10 }, () => a.next())
+    const seqB = Array.from({ length: 10 }, () => b.next())
+    expect(seqA).not.toEqual(seqB)
+  })
+
+  it('returns values in [0, 1)', () => {
+    const random = new SeededRandom(42)
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('keeps range and spread within bounds', () => {
+    const random = new SeededRandom(7)
+    for (let i = 0; i < 200; i++) {
+      const r = random.range(-3, 5)
+      expect(r).toBeGreaterThanOrEqual(-3)
+      expect(r).toBeLessThan(5)
+
+      const s = random.spread(2)
+      expect(s).toBeGreaterThanOrEqual(-1)
+      expect(s).toBeLessThan(1)
+
+      const n = random.int(0, 4)
+      expect(Number.isInteger(n)).toBe(true)
+      expect(n).toBeGreaterThanOrEqual(0)
+      expect(n).toBeLessThan(4)
+    }
+  })
+
+  it('restores state with getState/setState', () => {
+    const random = new SeededRandom(99)
+    random.next()
+    const state = random.getState()
+    const expected = [random.next(), random.next()]
+
+    random.setState(state)
+    expect([random.next(), random.next()]).toEqual(expected)
+  })
+
+  it('reset returns to the initial sequence', () => {
+    const random = new SeededRandom(2025)
+    const first = random.next()
+    random.next()
+    random.reset()
+    expect(random.next()).toBe(first)
+  })
+
+  it('normalizes seeds to unsigned 32-bit integers', () => {
+    expect(new SeededRandom(-1).seed).toBe(0xffffffff)
+    expect(Number.isInteger(createRandomSeed())).toBe(true)
+  })
+})
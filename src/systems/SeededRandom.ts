@@ -0,0 +1,77 @@
+/**
+ * シード付き疑似乱数（mulberry32）
+ * 同じシードからは常に同じ数列を返すため、物理シミュレーションの再現に使う
+ */
+export class SeededRandom {
+  private readonly _seed: number
+  private state: number
+
+  constructor(seed: number) {
+    this._seed = seed >>> 0
+    this.state = this._seed
+  }
+
+  /** 初期シード */
+  get seed(): number {
+    return this._seed
+  }
+
+  /**
+   * 0以上1未満の乱数
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * min以上max未満の乱数
+   */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next()
+  }
+
+  /**
+   * min以上max未満の整数
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max))
+  }
+
+  /**
+   * 中心0・幅widthの乱数（(Math.random() - 0.5) * width の置き換え）
+   */
+  spread(width: number): number {
+    return (this.next() - 0.5) * width
+  }
+
+  /**
+   * 内部状態を取得（途中からの再開用）
+   */
+  getState(): number {
+    return this.state
+  }
+
+  /**
+   * 内部状態を復元
+   */
+  setState(state: number): void {
+    this.state = state >>> 0
+  }
+
+  /**
+   * シード直後の状態に戻す
+   */
+  reset(): void {
+    this.state = this._seed
+  }
+}
+
+/**
+ * 新しいシードを生成（シード未指定時のエントリポイント）
+ */
+export const createRandomSeed = (): number =>
+  Math.floor(Math.random() * 0x100000000) >>> 0
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'bun:test'
+import { SimulationClock, FIXED_TIME_STEP } from './SimulationClock'
+
+describe('SimulationClock', () => {
+  it('runs one fixed step per 1/60s of accumulated time', () => {
+    const clock = new SimulationClock()
+    const steps: number[] = []
+
+    const count = clock.advance(FIXED_TIME_STEP, (dt) => steps.push(dt))
+
+    expect(count).toBe(1)
+    expect(steps).toEqual([FIXED_TIME_STEP])
+    expect(clock.stepCount).toBe(1)
+  })
+
+  it('accumulates partial frames until a full step is reached', () => {
+    const clock = new SimulationClock()
+    const noop = () => {}
+
+    expect(clock.advance(FIXED_TIME_STEP / 2, noop)).toBe(0)
+    expect(clock.advance(FIXED_TIME_STEP / 2, noop)).toBe(1)
+  })
+
+  it('produces the same step count regardless of frame rate', () => {
+    const clock30 = new SimulationClock({ maxStepsPerFrame: 10 })
+    const clock144 = new SimulationClock({ maxStepsPerFrame: 10 })
+    const noop = () => {}
+
+    for (let i = 0; i < 30; i++) clock30.advance(1 / 30, noop)
+    for (let i = 0; i < 144; i++) clock144.advance(1 / 144, noop)
+
+    expect(clock30.stepCount).toBe(60)
+    expect(Math.abs(clock144.stepCount - 60)).toBeLessThanOrEqual(1)
+  })
+
+  it('caps the number of steps per frame', () => {
+    const clock = new SimulationClock({ maxStepsPerFrame: 3 })
+    const count = clock.advance(1, () => {})
+    expect(count).toBe(3)
+
+    // 取りこぼした時間は次フレームへ持ち越さない
+    expect(clock.advance(0, () => {})).toBe(0)
+  })
+
+  it('keeps the remainder when a frame needs exactly the step cap', () => {
+    const clock = new SimulationClock({ maxStepsPerFrame: 3 })
+    const noop = () => {}
+
+    expect(clock.advance(FIXED_TIME_STEP * 3.5, noop)).toBe(3)
+    // 残った半ステップは捨てずに次フレームで使う
+    expect(clock.advance(FIXED_TIME_STEP / 2, noop)).toBe(1)
+  })
+
+  it('derives elapsed time from the step count', () => {
+    const clock = new SimulationClock()
+    for (let i = 0; i < 120; i++) clock.stepOnce(() => {})
+    expect(clock.elapsed).toBeCloseTo(2, 10)
+  })
+
+  it('ignores negative deltas', () => {
+    const clock = new SimulationClock()
+    expect(clock.advance(-1, () => {})).toBe(0)
+    expect(clock.stepCount).toBe(0)
+  })
+
+  it('reset clears steps and accumulator', () => {
+    const clock = new SimulationClock()
+    clock.advance(FIXED_TIME_STEP * 1.5, () => {})
+    clock.reset()
+    expect(clock.stepCount).toBe(0)
+    expect(clock.advance(FIXED_TIME_STEP / 2, () => {})).toBe(0)
+  })
+})
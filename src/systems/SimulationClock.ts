@@ -0,0 +1,85 @@
+/** 物理シミュレーションの固定ステップ（秒） */
+export const FIXED_TIME_STEP = 1 / 60
+
+/** 1フレームで実行する最大ステップ数 */
+const DEFAULT_MAX_STEPS_PER_FRAME = 3
+
+/** 浮動小数点誤差でステップを取りこぼさないための許容値 */
+const STEP_EPSILON = 1e-9
+
+export type SimulationClockConfig = {
+  timeStep?: number
+  maxStepsPerFrame?: number
+}
+
+/**
+ * 固定ステップのシミュレーション時計
+ * - 描画フレームのdeltaを蓄積し、固定幅のステップに分割する
+ * - 経過時間はステップ数から算出するため、フレームレートに依存しない
+ */
+export class SimulationClock {
+  public readonly timeStep: number
+  private readonly maxStepsPerFrame: number
+
+  private accumulator = 0
+  private _stepCount = 0
+
+  constructor(config?: SimulationClockConfig) {
+    this.timeStep = config?.timeStep ?? FIXED_TIME_STEP
+    this.maxStepsPerFrame = config?.maxStepsPerFrame ?? DEFAULT_MAX_STEPS_PER_FRAME
+  }
+
+  /** シミュレーション経過時間（秒） */
+  get elapsed(): number {
+    return this._stepCount * this.timeStep
+  }
+
+  /** 実行済みステップ数 */
+  get stepCount(): number {
+    return this._stepCount
+  }
+
+  /**
+   * フレームのdeltaを蓄積し、必要な分だけ固定ステップを実行する
+   * @param delta フレーム経過時間（秒）
+   * @param step 1ステップ分の処理
+   * @returns 実行したステップ数
+   */
+  advance(delta: number, step: (dt: number) => void): number {
+    this.accumulator += Math.max(0, delta)
+
+    let steps = 0
+    while (
+      this.accumulator + STEP_EPSILON >= this.timeStep &&
+      steps < this.maxStepsPerFrame
+    ) {
+      this.stepOnce(step)
+      this.accumulator -= this.timeStep
+      steps++
+    }
+
+    // 上限まで回っても1ステップ分以上残った分は捨てる（処理落ち時のスパイラル防止）
+    // 1ステップに満たない端数は通常どおり次フレームへ持ち越す
+    if (this.accumulator + STEP_EPSILON >= this.timeStep) {
+      this.accumulator = 0
+    }
+
+    return steps
+  }
+
+  /**
+   * 蓄積とは無関係に1ステップだけ実行する（ヘッドレス実行・テスト用）
+   */
+  stepOnce(step: (dt: number) => void): void {
+    step(this.timeStep)
+    this._stepCount++
+  }
+
+  /**
+   * 時計をリセット
+   */
+  reset(): void {
+    this.accumulator = 0
+    this._stepCount = 0
+  }
+}
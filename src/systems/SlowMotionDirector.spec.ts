@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { SlowMotionDirector, type SlowMotionMoment } from './SlowMotionDirector'
+import { StackingSimulation } from './StackingSimulation'
+import { createDefaultLaunchParameters } from '../types/launch'
+
+const focus = new THREE.Vector3()
+const FRAME = 1 / 60
+
+const runFrames = (director: SlowMotionDirector, seconds: number) => {
+  for (let t = 0; t < seconds; t += FRAME) {
+    director.update(FRAME)
+  }
+}
+
+/**
+ * 発射直後の餅を、台座の上面の少し上に置き直す
+ */
+const placeFallingMochi = (sim: StackingSimulation, x: number) => {
+  const mochi = sim.launch('base', createDefaultLaunchParameters())
+  const surface = sim.dai.surface
+  mochi.body.position.set(surface.x + x, surface.y + mochi.config.height / 2 + 0.3, surface.z)
+  mochi.body.velocity.set(0, -3, 0)
+  return mochi
+}
+
+describe('SlowMotionDirector', () => {
+  it('ramps time down, holds and recovers', () => {
+    const director = new SlowMotionDirector()
+    const events: string[] = []
+    director.addListener({
+      onMomentStart: (moment) => events.push(`start:${moment}`),
+      onMomentEnd: (moment) => events.push(`end:${moment}`)
+    })
+
+    expect(director.trigger('edgeLanding', focus)).toBe(true)
+    runFrames(director, 0.3)
+    expect(director.timeScale).toBeCloseTo(0.25)
+
+    runFrames(director, 1)
+    expect(director.timeScale).toBe(1)
+    expect(director.activeMoment).toBeNull()
+    expect(events).toEqual(['start:edgeLanding', 'end:edgeLanding'])
+  })
+
+  it('respects cooldowns', () => {
+    const director = new SlowMotionDirector()
+    director.trigger('edgeLanding', focus)
+    runFrames(director, 1)
+
+    // 演出直後はどの場面も始めない
+    expect(director.trigger('teetering', focus)).toBe(false)
+    runFrames(director, 2)
+    // 同じ場面は個別のクールダウンが残っている
+    expect(director.trigger('edgeLanding', focus)).toBe(false)
+    expect(director.trigger('teetering', focus)).toBe(true)
+  })
+
+  it('lets a stronger moment interrupt a weaker one', () => {
+    const director = new SlowMotionDirector()
+    const started: SlowMotionMoment[] = []
+    director.addListener({ onMomentStart: (moment) => started.push(moment) })
+
+    director.trigger('teetering', focus)
+    runFrames(director, 0.3)
+    expect(director.trigger('edgeLanding', focus)).toBe(false)
+    expect(director.trigger('collapse', focus)).toBe(true)
+    expect(director.activeMoment).toBe('collapse')
+    expect(started).toEqual(['teetering', 'collapse'])
+  })
+
+  it('stays at normal speed when disabled', () => {
+    const director = new SlowMotionDirector()
+    director.trigger('collapse', focus)
+    runFrames(director, 0.2)
+    director.setEnabled(false)
+
+    expect(director.timeScale).toBe(1)
+    expect(director.trigger('edgeLanding', focus)).toBe(false)
+    runFrames(director, 0.2)
+    expect(director.timeScale).toBe(1)
+  })
+
+  it('detects a mochi about to land on the dai edge', () => {
+    const sim = new StackingSimulation({ seed: 1, windStrength: 0 })
+    const director = new SlowMotionDirector()
+    placeFallingMochi(sim, sim.dai.surface.radius * 0.9)
+    director.update(FRAME, sim)
+
+    expect(director.activeMoment).toBe('edgeLanding')
+    sim.dispose()
+  })
+
+  it('ignores a mochi landing in the middle', () => {
+    const sim = new StackingSimulation({ seed: 1, windStrength: 0 })
+    const director = new SlowMotionDirector()
+    placeFallingMochi(sim, 0)
+    director.update(FRAME, sim)
+
+    expect(director.activeMoment).toBeNull()
+    sim.dispose()
+  })
+
+  it('detects the first frame of a collapse', () => {
+    const sim = new StackingSimulation({ seed: 4, windStrength: 0 })
+    const director = new SlowMotionDirector()
+    const { mochi } = sim.runShot('base', { ...createDefaultLaunchParameters(), power: 50 })
+    for (let i = 0; i < 30; i++) {
+      director.update(FRAME, sim)
+    }
+    expect(director.activeMoment).toBeNull()
+
+    // 上に載った衝撃で少し沈むだけなら崩壊ではない
+    mochi.body.velocity.set(0, -2, 0)
+    director.update(FRAME, sim)
+    expect(director.activeMoment).toBeNull()
+
+    mochi.body.position.y -= 0.5
+    director.update(FRAME, sim)
+    expect(director.activeMoment).toBe('collapse')
+    sim.dispose()
+  })
+})
@@ -0,0 +1,344 @@
+import * as THREE from 'three'
+import type { MochiObject } from '../objects'
+import type { StackingSimulation } from './StackingSimulation'
+import { getSurfaceMargin } from '../types/pedestal'
+
+/**
+ * スローモーションにする場面
+ * - edgeLanding: 飛んでいる餅が台や下の餅の縁に着地しそう
+ * - teetering: 載せたみかん（頂点の飾り）が倒れそうに揺れている
+ * - collapse: 積んだ餅が落ち始めた瞬間
+ */
+export type SlowMotionMoment = 'edgeLanding' | 'teetering' | 'collapse'
+
+/**
+ * 場面ごとの時間の流れ（秒はすべて実時間）
+ */
+type SlowMotionProfile = {
+  /** 最も遅いときの時間倍率 */
+  timeScale: number
+  rampIn: number
+  hold: number
+  rampOut: number
+  /** 同じ場面を再び演出するまでの時間 */
+  cooldown: number
+  /** 演出中に割り込めるかの優先度（大きいほど強い） */
+  priority: number
+}
+
+const SLOW_MOTION_PROFILES: Record<SlowMotionMoment, SlowMotionProfile> = {
+  edgeLanding: { timeScale: 0.25, rampIn: 0.1, hold: 0.5, rampOut: 0.3, cooldown: 4, priority: 1 },
+  teetering: { timeScale: 0.4, rampIn: 0.2, hold: 0.8, rampOut: 0.4, cooldown: 5, priority: 2 },
+  collapse: { timeScale: 0.2, rampIn: 0.05, hold: 0.9, rampOut: 0.5, cooldown: 8, priority: 3 }
+}
+
+/** どの場面でも、前の演出が終わってからこの時間は次を始めない */
+const GLOBAL_COOLDOWN_SECONDS = 1.5
+
+/** 着地のこの時間前（シミュレーション時間）になったら縁かどうかを判定する */
+const EDGE_LOOKAHEAD_SECONDS = 0.3
+/** 支える面の半径に対してこの割合より外側に着地しそうなら縁とみなす */
+const EDGE_RATIO = 0.75
+/** みかんの安定余裕がこれより小さく、揺れていれば倒れそうとみなす */
+const TEETER_MARGIN = 0.15
+const TEETER_ANGULAR_SPEED = 0.5
+/** この速さより遅い状態が続いた餅を、積み終わった餅とみなす（m/s、秒） */
+const SETTLED_SPEED = 0.3
+const SETTLED_SECONDS = 0.3
+/**
+ * 積み終わった餅が静止した高さからこの距離だけ下がり、まだ落ち続けていれば崩壊とみなす
+ * （上に餅が載った衝撃で一瞬沈むのは崩壊ではない）
+ */
+const COLLAPSE_DROP = 0.3
+const COLLAPSE_FALL_SPEED = 1
+
+/**
+ * スローモーションの通知先（カメラ・ポストエフェクトの演出用）
+ */
+export type SlowMotionListener = {
+  /** @param focus 演出の中心（着地しそうな点・揺れているみかんなど） */
+  onMomentStart?: (moment: SlowMotionMoment, focus: THREE.Vector3) => void
+  onMomentEnd?: (moment: SlowMotionMoment) => void
+}
+
+type ActiveMoment = {
+  moment: SlowMotionMoment
+  profile: SlowMotionProfile
+  elapsed: number
+}
+
+/**
+ * 物理の状態を見て、見せ場で時間をゆっくりにする演出監督
+ * - 毎フレームupdateにシミュレーションを渡すと場面を検出する
+ * - timeScaleをGameSceneの物理更新のdeltaに掛けて使う
+ * - 実時間で進むので、スロー中でも演出の長さは変わらない
+ */
+export class SlowMotionDirector {
+  private enabled: boolean
+  private active: ActiveMoment | null = null
+  private _timeScale = 1
+  private time = 0
+  private lastEndedAt = -Infinity
+  private readonly lastStartedAt: Map<SlowMotionMoment, number> = new Map()
+  private readonly listeners: Set<SlowMotionListener> = new Set()
+  /** 縁の判定を済ませた餅のID（1回の飛行につき1度だけ） */
+  private checkedFlightId: string | null = null
+  /** 一度静止した餅のIDとそのときの高さ（着地直後の跳ねを崩壊と取り違えないように） */
+  private readonly settledHeights: Map<string, number> = new Map()
+  /** 静止しかけている餅の、遅い状態が続いている時間 */
+  private readonly settlingTimes: Map<string, number> = new Map()
+
+  constructor(enabled: boolean = true) {
+    this.enabled = enabled
+  }
+
+  /** 物理に掛ける時間倍率（1: 通常） */
+  get timeScale(): number {
+    return this._timeScale
+  }
+
+  get activeMoment(): SlowMotionMoment | null {
+    return this.active?.moment ?? null
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /**
+   * 有効/無効を切り替える（無効にすると演出中でも即座に通常速度へ戻す）
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled
+    if (!enabled) this.finish()
+  }
+
+  addListener(listener: SlowMotionListener): void {
+    this.listeners.add(listener)
+  }
+
+  removeListener(listener: SlowMotionListener): void {
+    this.listeners.delete(listener)
+  }
+
+  /**
+   * 1フレーム進める
+   * @param delta 実時間のdelta（秒、スロー前の値）
+   * @param simulation 場面の検出に使う（省略時は進行中の演出だけ進める）
+   */
+  update(delta: number, simulation?: StackingSimulation): void {
+    this.time += delta
+    if (!this.enabled) return
+
+    if (simulation) {
+      this.detect(simulation, delta)
+    }
+    this.advanceActive(delta)
+  }
+
+  /**
+   * 場面を演出する（クールダウン中や、より強い演出の最中は何もしない）
+   * @returns 演出を始めたか
+   */
+  trigger(moment: SlowMotionMoment, focus: THREE.Vector3): boolean {
+    if (!this.enabled) return false
+
+    const profile = SLOW_MOTION_PROFILES[moment]
+    if (this.active) {
+      if (profile.priority <= this.active.profile.priority) return false
+    } else if (this.time - this.lastEndedAt < GLOBAL_COOLDOWN_SECONDS) {
+      return false
+    }
+    const lastStarted = this.lastStartedAt.get(moment) ?? -Infinity
+    if (this.time - lastStarted < profile.cooldown) return false
+
+    if (this.active) this.notifyEnd(this.active.moment)
+    // 割り込んだときは今の遅さから続ける
+    const startScale = this._timeScale
+    const progress =
+      startScale < 1 ? (1 - startScale) / (1 - profile.timeScale) : 0
+    this.active = {
+      moment,
+      profile,
+      elapsed: Math.min(progress, 1) * profile.rampIn
+    }
+    this.lastStartedAt.set(moment, this.time)
+    for (const listener of this.listeners) {
+      listener.onMomentStart?.(moment, focus)
+    }
+    return true
+  }
+
+  /**
+   * 状態を初期化する（リトライ時など）
+   */
+  reset(): void {
+    this.finish()
+    this.lastStartedAt.clear()
+    this.lastEndedAt = -Infinity
+    this.checkedFlightId = null
+    this.settledHeights.clear()
+    this.settlingTimes.clear()
+  }
+
+  private advanceActive(delta: number): void {
+    if (!this.active) return
+
+    this.active.elapsed += delta
+    const { elapsed, profile } = this.active
+    const holdEnd = profile.rampIn + profile.hold
+    const end = holdEnd + profile.rampOut
+
+    if (elapsed >= end) {
+      this.finish()
+    } else if (elapsed < profile.rampIn) {
+      this._timeScale = THREE.MathUtils.lerp(1, profile.timeScale, elapsed / profile.rampIn)
+    } else if (elapsed < holdEnd) {
+      this._timeScale = profile.timeScale
+    } else {
+      this._timeScale = THREE.MathUtils.lerp(
+        profile.timeScale,
+        1,
+        (elapsed - holdEnd) / profile.rampOut
+      )
+    }
+  }
+
+  private finish(): void {
+    this._timeScale = 1
+    if (!this.active) return
+
+    const { moment } = this.active
+    this.active = null
+    this.lastEndedAt = this.time
+    this.notifyEnd(moment)
+  }
+
+  private notifyEnd(moment: SlowMotionMoment): void {
+    for (const listener of this.listeners) {
+      listener.onMomentEnd?.(moment)
+    }
+  }
+
+  // --- Detection ---
+  private detect(simulation: StackingSimulation, delta: number): void {
+    const collapsing = this.findCollapsing(simulation, delta)
+    if (collapsing) {
+      this.trigger('collapse', collapsing.position)
+      return
+    }
+
+    const teetering = this.findTeetering(simulation)
+    if (teetering) {
+      this.trigger('teetering', teetering.position)
+      return
+    }
+
+    const edge = this.predictEdgeLanding(simulation)
+    if (edge) {
+      this.trigger('edgeLanding', edge)
+    }
+  }
+
+  /**
+   * 一度静止した餅のうち、落ち始めたもの
+   */
+  private findCollapsing(simulation: StackingSimulation, delta: number): MochiObject | null {
+    let collapsing: MochiObject | null = null
+    for (const mochi of simulation.mochiManager.getAll()) {
+      if (mochi.state === 'flying' || mochi.isFrozen) continue
+      const settledHeight = this.settledHeights.get(mochi.id)
+      if (settledHeight === undefined) {
+        this.trackSettling(mochi, delta)
+        continue
+      }
+      const dropped = settledHeight - mochi.height > COLLAPSE_DROP
+      if (dropped && mochi.body.velocity.y < -COLLAPSE_FALL_SPEED) collapsing ??= mochi
+    }
+    return collapsing
+  }
+
+  /**
+   * 遅い状態が続いたら静止した高さを記録する（跳ねの頂点で一瞬止まるのは数えない）
+   */
+  private trackSettling(mochi: MochiObject, delta: number): void {
+    if (mochi.getSpeed() >= SETTLED_SPEED) {
+      this.settlingTimes.delete(mochi.id)
+      return
+    }
+    const time = (this.settlingTimes.get(mochi.id) ?? 0) + delta
+    if (time < SETTLED_SECONDS) {
+      this.settlingTimes.set(mochi.id, time)
+      return
+    }
+    this.settlingTimes.delete(mochi.id)
+    this.settledHeights.set(mochi.id, mochi.height)
+  }
+
+  /**
+   * 載せたあと倒れそうに揺れているみかん
+   */
+  private findTeetering(simulation: StackingSimulation): MochiObject | null {
+    const crowns = simulation.mochiManager
+      .getAll()
+      .filter((mochi) => mochi.config.scoringRole === 'crown' && mochi.state !== 'flying')
+    if (crowns.length === 0) return null
+
+    // 安定解析は重いので、みかんが載っているときだけ行う
+    const { entries } = simulation.analyzeStability()
+    for (const entry of entries) {
+      if (!crowns.includes(entry.mochi)) continue
+      const wobbling = entry.mochi.body.angularVelocity.length() > TEETER_ANGULAR_SPEED
+      if (entry.margin < TEETER_MARGIN && wobbling) return entry.mochi
+    }
+    return null
+  }
+
+  /**
+   * 飛んでいる餅が縁に着地しそうなら、その着地点
+   * 放物線で着地までの時間を求め、支える面（台座の上面か積んだ餅の上面）の縁までの余裕で判定する
+   */
+  private predictEdgeLanding(simulation: StackingSimulation): THREE.Vector3 | null {
+    const mochi = simulation.getCurrentMochi()
+    if (!mochi || mochi.state !== 'flying' || mochi.id === this.checkedFlightId) return null
+
+    const { position, velocity } = mochi.body
+    if (velocity.y >= 0) return null
+
+    const gravity = Math.abs(simulation.physics.world.gravity.y)
+    const surfaces = [
+      simulation.dai.surface,
+      ...simulation.mochiManager
+        .getAll()
+        .filter((other) => other !== mochi && other.state !== 'flying')
+        .map((other) => ({
+          x: other.body.position.x,
+          y: other.topY,
+          z: other.body.position.z,
+          radius: other.config.radius
+        }))
+    ]
+
+    // 最初に当たる面（一番高い面）を探す
+    let landing: { point: THREE.Vector3; ratio: number; time: number; y: number } | null = null
+    for (const surface of surfaces) {
+      const drop = mochi.bottomY - surface.y
+      if (drop < 0) continue
+
+      const time = (velocity.y + Math.sqrt(velocity.y ** 2 + 2 * gravity * drop)) / gravity
+      const x = position.x + velocity.x * time
+      const z = position.z + velocity.z * time
+      const ratio = 1 - getSurfaceMargin(surface, x, z)
+      const reach = 1 + mochi.config.radius / surface.radius / 2
+      if (ratio > reach) continue
+      if (landing && landing.y >= surface.y) continue
+
+      landing = { point: new THREE.Vector3(x, surface.y, z), ratio, time, y: surface.y }
+    }
+
+    if (!landing || landing.time > EDGE_LOOKAHEAD_SECONDS) return null
+
+    this.checkedFlightId = mochi.id
+    return landing.ratio >= EDGE_RATIO ? landing.point : null
+  }
+}
@@ -0,0 +1,371 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { StackingSimulation } from './StackingSimulation'
+import { createDefaultLaunchParameters, gaugeToSpin, type LaunchParameters } from '../types/launch'
+import type { Impact, ShatterEvent } from '../types/impact'
+import type { MochiType } from '../objects/MochiObject'
+import { MOCHI_CONFIGS } from '../objects/MochiRegistry'
+import { DECORATED_MODE_CONFIG } from '../types/game-mode'
+
+const createParams = (power: number): LaunchParameters => ({
+  ...createDefaultLaunchParameters(),
+  power
+})
+
+/**
+ * 描画フレームの長さを変えて、決まったステップで発射しながら進め、指定ステップ時点の餅の姿勢を返す
+ * （GameSceneと同じく、フレームごとに着地を受け取る）
+ */
+const playAtFrameRate = (
+  delta: number,
+  shots: readonly { type: MochiType; step: number; params: LaunchParameters }[],
+  endStep: number,
+  mode: 'normal' | 'endless' = 'endless'
+) => {
+  const sim = new StackingSimulation({ seed: 9, mode })
+  let next = 0
+  let poses: { position: number[]; quaternion: number[]; frozen: boolean }[] | null = null
+  while (!poses) {
+    sim.advance(delta, () => {
+      if (sim.stepCount === endStep) {
+        poses = sim.mochiManager.getAll().map((m) => ({
+          position: m.position.toArray(),
+          quaternion: m.body.quaternion.toArray(),
+          frozen: m.isFrozen
+        }))
+      }
+      const shot = shots[next]
+      if (shot && sim.stepCount === shot.step) {
+        sim.launch(shot.type, shot.params)
+        next++
+      }
+    })
+    sim.takeLanded()
+  }
+  sim.dispose()
+  return poses
+}
+
+/** 144Hz・60Hz・30Hz・処理落ち・スローモーション（1/10） */
+const FRAME_DELTAS = [1 / 144, 1 / 60, 1 / 30, 1 / 20, 1 / 600]
+
+describe('StackingSimulation', () => {
+  it('lands a launched mochi on the dai without rendering', () => {
+    const sim = new StackingSimulation({ seed: 4 })
+    const result = sim.runShot('base', createParams(50))
+
+    expect(result.timedOut).toBe(false)
+    expect(result.mochi.state).not.toBe('flying')
+    expect(Math.abs(result.mochi.position.x)).toBeLessThan(2)
+    expect(Math.abs(result.mochi.position.z)).toBeLessThan(2)
+    sim.dispose()
+  })
+
+  it('launches registered items other than mochi', () => {
+    const sim = new StackingSimulation({ seed: 4 })
+    sim.runShot('base', createParams(50))
+    const konbu = sim.runShot('konbu', createParams(50))
+    const daidai = sim.runShot('daidai', createParams(50))
+
+    expect(konbu.mochi.config.scoringRole).toBe('ornament')
+    expect(daidai.timedOut).toBe(false)
+    expect(sim.calculateScore().breakdown.map((b) => b.type)).toEqual(['base'])
+    sim.dispose()
+  })
+
+  it('scores the decorated mode with the daidai as the crown', () => {
+    const sim = new StackingSimulation({ seed: 4, mode: 'decorated', windStrength: 0 })
+    for (const type of DECORATED_MODE_CONFIG.mochiSequence) {
+      expect(sim.runShot(type, createParams(50)).timedOut).toBe(false)
+    }
+    const score = sim.calculateScore()
+
+    expect(score.breakdown.map((b) => b.type)).toEqual(['base', 'top', 'daidai'])
+    expect(score.total).toBeLessThanOrEqual(100)
+    sim.dispose()
+  })
+
+  it('produces identical results for the same seed', () => {
+    const play = () => {
+      const sim = new StackingSimulation({ seed: 2024 })
+      const score = sim.playNormal([createParams(50), createParams(50), createParams(50)])
+      const positions = sim.mochiManager.getAll().map((m) => m.position.toArray())
+      sim.dispose()
+      return { score, positions }
+    }
+
+    const a = play()
+    const b = play()
+    expect(b.positions).toEqual(a.positions)
+    expect(b.score).toEqual(a.score)
+  })
+
+  it('scores a normal game within the classic range', () => {
+    const sim = new StackingSimulation({ seed: 7 })
+    const score = sim.playNormal([createParams(50), createParams(50), createParams(50)])
+
+    expect(sim.mochiManager.getCount()).toBe(3)
+    expect(score.total).toBeGreaterThanOrEqual(0)
+    expect(score.total).toBeLessThanOrEqual(100)
+    expect(score.breakdown).toHaveLength(3)
+    sim.dispose()
+  })
+
+  it('replays windy shots identically at any frame rate', () => {
+    const shots = (['base', 'top', 'mikan'] as const).map((type, i) => ({
+      type,
+      step: i * 150,
+      params: createParams(50)
+    }))
+    const [expected, ...others] = FRAME_DELTAS.map((delta) => playAtFrameRate(delta, shots, 450))
+
+    expect(expected).toHaveLength(3)
+    for (const poses of others) {
+      expect(poses).toEqual(expected)
+    }
+  })
+
+  it('rolls the same wind sequence for the same seed', () => {
+    const winds = (seed: number) => {
+      const sim = new StackingSimulation({ seed, mode: 'endless' })
+      const result = [sim.upcomingWind]
+      sim.runShot('base', createParams(50))
+      result.push(sim.upcomingWind)
+      sim.dispose()
+      return result
+    }
+
+    expect(winds(11)).toEqual(winds(11))
+    expect(winds(11)[0]).not.toEqual(winds(11)[1])
+  })
+
+  it('pushes flying mochi downwind', () => {
+    const fly = (windStrength?: number) => {
+      const sim = new StackingSimulation({ seed: 5, mode: 'endless', windStrength })
+      const wind = sim.upcomingWind
+      const mochi = sim.launch('base', createParams(50))
+      sim.runFor(0.5)
+      const position = mochi.position
+      sim.dispose()
+      return { wind, position }
+    }
+
+    const windy = fly()
+    const calm = fly(0)
+    expect(calm.wind).toEqual({ x: 0, z: 0 })
+
+    const drift = windy.position.sub(calm.position)
+    expect(drift.x * windy.wind.x + drift.z * windy.wind.z).toBeGreaterThan(0)
+  })
+
+  it('rolls launcher positions on the rail without disturbing the wind', () => {
+    const roll = () => {
+      const sim = new StackingSimulation({ seed: 21 })
+      const positions = [sim.rollLauncherPosition(), sim.rollLauncherPosition()]
+      const wind = sim.upcomingWind
+      sim.dispose()
+      return { positions, wind }
+    }
+    const first = roll()
+    const plain = new StackingSimulation({ seed: 21 })
+
+    expect(roll().positions).toEqual(first.positions)
+    expect(first.positions[0].equals(first.positions[1])).toBe(false)
+    expect(first.positions[0].length()).toBeCloseTo(10)
+    expect(first.wind).toEqual(plain.upcomingWind)
+    plain.dispose()
+  })
+
+  it('curves a spinning mochi like the trajectory preview', () => {
+    const landX = (spinGauge: number) => {
+      const sim = new StackingSimulation({ seed: 11, windStrength: 0 })
+      const mochi = sim.launch('base', { ...createParams(50), ...gaugeToSpin(spinGauge) })
+      sim.runFor(1)
+      const x = mochi.position.x
+      sim.dispose()
+      return x
+    }
+
+    expect(landX(100)).toBeGreaterThan(landX(50) + 0.2)
+    expect(landX(0)).toBeLessThan(landX(50) - 0.2)
+  })
+
+  it('replays spun shots identically at any frame rate', () => {
+    const shots = (['base', 'top', 'mikan'] as const).map((type, i) => ({
+      type,
+      step: i * 150,
+      params: { ...createParams(50), ...gaugeToSpin(100) }
+    }))
+    const [expected, ...others] = FRAME_DELTAS.map((delta) =>
+      playAtFrameRate(delta, shots, 450, 'normal')
+    )
+
+    for (const poses of others) {
+      expect(poses).toEqual(expected)
+    }
+  })
+
+  it('carries a landed mochi along with a sliding dai', () => {
+    const sim = new StackingSimulation({ seed: 4, daiMotion: 'slide', windStrength: 0 })
+    const { mochi } = sim.runShot('base', createParams(50))
+    const offset = mochi.position.x - sim.dai.position.x
+
+    sim.runFor(1.5)
+    expect(sim.dai.body.velocity.length()).toBeGreaterThan(0)
+    expect(mochi.position.x - sim.dai.position.x).toBeCloseTo(offset, 0)
+    expect(sim.calculateScore().breakdown[0].points).toBeGreaterThan(0)
+    sim.dispose()
+  })
+
+  it('reuses trajectory obstacles while aiming and follows a sliding dai', () => {
+    const sim = new StackingSimulation({ seed: 4, daiMotion: 'slide', windStrength: 0 })
+    const { mochi } = sim.runShot('base', createParams(50))
+    const obstacles = sim.getTrajectoryObstacles()
+
+    sim.runFor(1.5)
+    // 狙っている間は作り直さず、姿勢だけ台座と餅に合わせる
+    expect(sim.getTrajectoryObstacles()).toBe(obstacles)
+    expect(obstacles.map((o) => o.source)).toEqual(['dai', 'mochi'])
+    expect(obstacles[0].position.x).toBeCloseTo(sim.dai.position.x)
+    expect(obstacles[1].position.x).toBeCloseTo(mochi.position.x)
+
+    // 次の餅を発射したら、積んだ餅を含めて作り直す
+    sim.runShot('top', createParams(50))
+    const next = sim.getTrajectoryObstacles()
+    expect(next).not.toBe(obstacles)
+    expect(next).toHaveLength(3)
+    sim.dispose()
+  })
+
+  it('scores against the selected pedestal surface', () => {
+    const sim = new StackingSimulation({ seed: 4, pedestal: 'tatami', windStrength: 0 })
+    const { mochi } = sim.runShot('base', createParams(50))
+
+    expect(mochi.bottomY).toBeCloseTo(sim.dai.surface.y, 0)
+    expect(sim.calculateScore().breakdown[0].points).toBeGreaterThan(0)
+    expect(sim.detectFallen()).toBeNull()
+    sim.dispose()
+  })
+
+  it('detects mochi that miss a narrow post', () => {
+    const sim = new StackingSimulation({ seed: 4, pedestal: 'post', windStrength: 0 })
+    const { mochi } = sim.runShot('base', createParams(50))
+
+    expect(mochi.bottomY).toBeLessThan(sim.dai.surface.y)
+    expect(sim.detectFallen()).toBe(mochi)
+    sim.dispose()
+  })
+
+  it('detects a mochi whose center of mass hangs past the edge of the dai', () => {
+    const sim = new StackingSimulation({ seed: 4, windStrength: 0 })
+    const { y, radius } = sim.dai.surface
+    const place = (x: number) => {
+      const position = new THREE.Vector3(x, y + MOCHI_CONFIGS.base.height / 2, 0)
+      const mochi = sim.mochiManager.createMochi('base', position)
+      mochi.setState('stacked')
+      sim.mochiManager.update()
+      return mochi
+    }
+
+    place(radius - 0.3)
+    expect(sim.detectFallen()).toBeNull()
+    // 台座の中心からの距離は近くても、重心が縁の外なら落ちている
+    const overhanging = place(radius + 0.3)
+    expect(sim.detectFallen()).toBe(overhanging)
+    sim.dispose()
+  })
+
+  it('keeps a mochi resting near the long end of the tatami on target', () => {
+    const sim = new StackingSimulation({ seed: 4, pedestal: 'tatami', windStrength: 0 })
+    const { y } = sim.dai.surface
+    const position = new THREE.Vector3(1.6, y + MOCHI_CONFIGS.base.height / 2, 0)
+    sim.mochiManager.createMochi('base', position).setState('stacked')
+    sim.mochiManager.update()
+
+    expect(sim.detectFallen()).toBeNull()
+    expect(sim.analyzeStability().minMargin).toBeGreaterThan(0)
+    expect(sim.calculateScore().breakdown[0].reason).toBe('ターゲット上')
+    sim.dispose()
+  })
+
+  it('scores a tier balanced past the edge of the base as unstable', () => {
+    const sim = new StackingSimulation({ seed: 4, windStrength: 0 })
+    const { y } = sim.dai.surface
+    const baseY = y + MOCHI_CONFIGS.base.height / 2
+    const topY = baseY + (MOCHI_CONFIGS.base.height + MOCHI_CONFIGS.top.height) / 2
+    for (const [type, position] of [
+      ['base', new THREE.Vector3(0, baseY, 0)],
+      ['top', new THREE.Vector3(1, topY, 0)]
+    ] as const) {
+      sim.mochiManager.createMochi(type, position).setState('stacked')
+    }
+
+    const [, top] = sim.calculateScore().breakdown
+    expect(top.reason).toBe('ベースの縁で不安定')
+    expect(top.points).toBe(15)
+    sim.dispose()
+  })
+
+  it('reports impacts against the dai with their speed and mass', () => {
+    const sim = new StackingSimulation({ seed: 4, windStrength: 0 })
+    const impacts: Impact[] = []
+    sim.addImpactListener({ onImpact: (impact) => impacts.push(impact) })
+    sim.runShot('base', createParams(50))
+
+    const landing = impacts.find((impact) => impact.surfaces[1] === 'sanpo')
+    expect(landing?.surfaces[0]).toBe('mochi')
+    expect(landing!.speed).toBeGreaterThan(1)
+    expect(landing!.mass).toBe(MOCHI_CONFIGS.base.mass)
+    sim.dispose()
+  })
+
+  it('cracks mochi on hard landings and scores them lower', () => {
+    const sim = new StackingSimulation({ seed: 5, windStrength: 0 })
+    const cracked: string[] = []
+    sim.addImpactListener({ onCrack: (mochi) => cracked.push(mochi.id) })
+    const result = sim.runShot('base', createParams(100))
+
+    expect(cracked).toEqual([result.mochi.id])
+    expect(result.mochi.integrity).toBe('cracked')
+    expect(sim.calculateScore().breakdown[0].reason).toContain('ひび割れ')
+    sim.dispose()
+  })
+
+  it('shatters a cracked mochi hit hard again', () => {
+    const sim = new StackingSimulation({ seed: 4, windStrength: 0 })
+    const shattered: ShatterEvent[] = []
+    sim.addImpactListener({ onShatter: (event) => shattered.push(event) })
+    sim.runShot('base', createParams(100))
+    sim.runShot('base', createParams(100))
+
+    expect(shattered).toHaveLength(1)
+    const [event] = shattered
+    expect(event.fragments.length).toBeGreaterThanOrEqual(2)
+    for (const fragment of event.fragments) {
+      expect(fragment.integrity).toBe('fragment')
+      expect(fragment.fragmentOf).toBe(event.parentId)
+    }
+    expect(sim.mochiManager.getAll().some((m) => m.id === event.parentId)).toBe(false)
+    sim.dispose()
+  })
+
+  it('tracks simulation time by fixed steps', () => {
+    const sim = new StackingSimulation({ seed: 1 })
+    sim.runFor(1)
+
+    expect(sim.stepCount).toBe(60)
+    expect(sim.elapsed).toBeCloseTo(1)
+    sim.dispose()
+  })
+
+  it('calculates endless scores', () => {
+    const sim = new StackingSimulation({ seed: 3, mode: 'endless' })
+    sim.runShot('base', createParams(50))
+    const result = sim.calculateEndlessScore(false)
+
+    expect(result.rawScore).toBeGreaterThanOrEqual(0)
+    expect(result.effectIntensity).toBeGreaterThanOrEqual(0)
+    expect(result.effectIntensity).toBeLessThanOrEqual(1)
+    sim.dispose()
+  })
+})
@@ -0,0 +1,673 @@
+import * as THREE from 'three'
+import * as CANNON from 'cannon-es'
+import {
+  MochiManager,
+  PhysicsContext,
+  DaiPlatform,
+  type MochiObject,
+  type MochiType,
+  type StabilityReport
+} from '../objects'
+import { StickinessManager } from '../scenes/game/stickiness-manager'
+import type { GameMode } from '../types/game-mode'
+import { NORMAL_MODE_CONFIG, getGameModeConfig } from '../types/game-mode'
+import { type PhysicsQuality, DEFAULT_PHYSICS_QUALITY } from '../types/quality'
+import { type DaiMotionType, DEFAULT_DAI_MOTION } from '../types/dai-motion'
+import type { PedestalType } from '../types/pedestal'
+import {
+  type LaunchParameters,
+  calculateInitialVelocity,
+  calculateMagnusAcceleration,
+  calculateSpinAngularVelocity,
+  getLauncherPosition,
+  LAUNCHER_ARC_LIMIT
+} from '../types/launch'
+import { type Wind, CALM_WIND, rollWind } from '../types/wind'
+import {
+  type TrajectoryObstacle,
+  createTrajectoryObstacle,
+  setTrajectoryObstaclePose
+} from '../scenes/game/trajectory'
+import {
+  type Impact,
+  type ImpactListener,
+  type ImpactSurface,
+  getMochiImpactSurface
+} from '../types/impact'
+import { ScoreSystem, type ScoreResult, type EndlessScoreResult } from './ScoreSystem'
+import { SeededRandom } from './SeededRandom'
+import type { SimulationClock } from './SimulationClock'
+
+// 着地判定
+const LANDING_TIMEOUT_SECONDS = 8
+const LANDING_SPEED_THRESHOLD = 0.5
+const LANDING_SPEED_SOFT_THRESHOLD = 1.5
+const LANDING_HEIGHT_THRESHOLD = 3
+const LANDING_HEIGHT_SOFT_THRESHOLD = 2
+
+/** 着地後、次の発射までに待つ時間（GameSceneの着地演出とおおよそ同じ長さ） */
+const DEFAULT_SETTLE_SECONDS = 1.5
+
+const GROUND_Y = -2
+
+/** これより遅い接触は音を出すほどの衝突とみなさない（静止中の再接触など） */
+const MIN_IMPACT_SPEED = 0.3
+
+/** ひびが入ってからこの時間は割れない（同じ着地の跳ね返りで割れないように） */
+const CRACK_COOLDOWN_SECONDS = 0.3
+/** 閾値のこの倍率を超える衝突では3つに割れる */
+const SHATTER_INTO_THREE_RATIO = 1.25
+
+/** 風用の乱数列をずらす値（発射のばらつきと独立させる） */
+const WIND_SEED_OFFSET = 0x9e3779b9
+/** 発射台の位置用の乱数列をずらす値 */
+const LAUNCHER_SEED_OFFSET = 0x85ebca6b
+
+/** 上から何段を物理で動かし続けるか（それより下で静止した餅は固定する） */
+export const ACTIVE_TIERS = 8
+
+export type StackingSimulationConfig = {
+  seed: number
+  mode?: GameMode
+  /** 餅の当たり判定品質 */
+  physicsQuality?: PhysicsQuality
+  /** 台座の動き（省略時は固定） */
+  daiMotion?: DaiMotionType
+  /** 台座の種類（省略時はモードの標準） */
+  pedestal?: PedestalType
+  /** 風の最大の強さ（省略時はモード設定の値） */
+  windStrength?: number
+  /** 餅メッシュの追加先（省略時は描画しない内部シーン） */
+  scene?: THREE.Scene
+}
+
+/**
+ * 1ステップ中に集めた衝突（同じ組み合わせは一番強いものだけ）
+ */
+type PendingCollision = {
+  mochi: MochiObject
+  /** 相手が餅ならその餅、台座・床ならnull */
+  other: MochiObject | null
+  otherBody: CANNON.Body
+  /** 接触法線方向の相対速度（衝突音用） */
+  normalSpeed: number
+  /** 相対速度の大きさ（ひび割れ判定用） */
+  relativeSpeed: number
+  normal: CANNON.Vec3
+}
+
+/**
+ * 1発分のシミュレーション結果
+ */
+export type ShotResult = {
+  mochi: MochiObject
+  /** 発射から着地判定までのステップ数 */
+  flightSteps: number
+  /** 着地せずタイムアウトで打ち切ったか */
+  timedOut: boolean
+}
+
+/**
+ * 描画に依存しない積み上げシミュレーション
+ * - 物理ワールド・餅・粘性・乱数・固定ステップ時計をまとめて保持する
+ * - GameSceneはこれを描画・演出付きで進め、テストやスクリプトはヘッドレスで回す
+ */
+export class StackingSimulation {
+  public readonly seed: number
+  public readonly mode: GameMode
+  public readonly physicsQuality: PhysicsQuality
+  public readonly windStrength: number
+  public readonly physics: PhysicsContext
+  public readonly dai: DaiPlatform
+  public readonly mochiManager: MochiManager
+  public readonly scoreSystem: ScoreSystem
+  public readonly stickinessManager: StickinessManager
+
+  private readonly scene: THREE.Scene
+  private readonly random: SeededRandom
+  private readonly windRandom: SeededRandom
+  private readonly launcherRandom: SeededRandom
+  private readonly groundBody: CANNON.Body
+  private readonly impactListeners: Set<ImpactListener> = new Set()
+  private readonly pendingCollisions: Map<string, PendingCollision> = new Map()
+  private readonly crackedAt: Map<MochiObject, number> = new Map()
+
+  private currentMochi: MochiObject | null = null
+  /** 着地して、まだ takeLanded で受け取られていない餅 */
+  private landedMochi: MochiObject | null = null
+  private trajectoryObstacles: TrajectoryObstacle[] | null = null
+  private _upcomingWind: Wind = CALM_WIND
+  private currentWind: Wind = CALM_WIND
+  /** 飛行中の餅に与えたスピン（マグヌス効果の計算用。ばらつきの回転は含めない） */
+  private currentSpin: THREE.Vector3 = new THREE.Vector3()
+  private flyingStartTime = 0 // シミュレーション時間（秒）
+
+  constructor(config: StackingSimulationConfig) {
+    this.seed = config.seed
+    this.mode = config.mode ?? 'normal'
+    this.physicsQuality = config.physicsQuality ?? DEFAULT_PHYSICS_QUALITY
+    this.windStrength = config.windStrength ?? getGameModeConfig(this.mode).windStrength
+    this.scene = config.scene ?? new THREE.Scene()
+    this.random = new SeededRandom(this.seed)
+    this.windRandom = new SeededRandom(this.seed + WIND_SEED_OFFSET)
+    this.launcherRandom = new SeededRandom(this.seed + LAUNCHER_SEED_OFFSET)
+    this._upcomingWind = this.rollNextWind()
+
+    this.physics = new PhysicsContext()
+    this.groundBody = this.physics.createGround(GROUND_Y)
+    this.dai = new DaiPlatform(
+      this.physics,
+      config.daiMotion ?? DEFAULT_DAI_MOTION,
+      config.pedestal ?? getGameModeConfig(this.mode).pedestal
+    )
+    this.physics.addBody(this.dai.body)
+
+    this.mochiManager = new MochiManager(
+      this.physics.world,
+      this.scene,
+      this.physics.mochiMaterial,
+      this.mode,
+      this.physics.clock
+    )
+    this.mochiManager.setPhysicsQuality(this.physicsQuality)
+    this.scoreSystem = new ScoreSystem(this.mode)
+    this.stickinessManager = new StickinessManager(this.physics.world)
+  }
+
+  // --- Clock ---
+  get clock(): SimulationClock {
+    return this.physics.clock
+  }
+
+  /** シミュレーション経過時間（秒） */
+  get elapsed(): number {
+    return this.physics.clock.elapsed
+  }
+
+  get stepCount(): number {
+    return this.physics.clock.stepCount
+  }
+
+  /**
+   * フレームのdeltaぶん固定ステップで進める
+   * @param beforeStep 各ステップの直前に呼ばれる（リプレイの発射タイミング用）
+   * @returns 実行したステップ数
+   */
+  advance(delta: number, beforeStep?: () => void): number {
+    return this.physics.clock.advance(delta, (dt) => {
+      beforeStep?.()
+      this.step(dt)
+    })
+  }
+
+  /**
+   * 1ステップだけ進める（ヘッドレス実行用）
+   */
+  stepOnce(): void {
+    this.physics.clock.stepOnce((dt) => this.step(dt))
+    this.mochiManager.update(this.physics.clock.timeStep)
+  }
+
+  /**
+   * 指定秒数ぶん進める（ヘッドレス実行用）
+   */
+  runFor(seconds: number): void {
+    const steps = Math.round(seconds / this.physics.clock.timeStep)
+    for (let i = 0; i < steps; i++) {
+      this.stepOnce()
+    }
+  }
+
+  private step(dt: number): void {
+    this.dai.update(this.elapsed)
+    this.applyWind()
+    this.applyMagnus()
+    this.physics.world.step(dt)
+    this.flushCollisions()
+    this.stickinessManager.update(dt)
+    this.updateLanding()
+  }
+
+  // --- Wind ---
+  /**
+   * 次に発射する餅が受ける風（狙っている間に表示・予測線に使う）
+   */
+  get upcomingWind(): Wind {
+    return this._upcomingWind
+  }
+
+  private rollNextWind(): Wind {
+    return rollWind(this.windRandom, this.windStrength)
+  }
+
+  /**
+   * 飛行中の餅にだけ風を掛ける（質量比例なので加速度は一定）
+   * applyForceはステップごとに消えるので毎ステップ掛け直す
+   */
+  private applyWind(): void {
+    const mochi = this.currentMochi
+    if (!mochi || mochi.state !== 'flying') return
+    const { x, z } = this.currentWind
+    if (x === 0 && z === 0) return
+    const mass = mochi.config.mass
+    mochi.applyForce(new CANNON.Vec3(x * mass, 0, z * mass))
+  }
+
+  /**
+   * 飛行中の餅にスピンによるマグヌス効果を掛ける（発射時のスピンが飛行中ずっと続くとみなす）
+   */
+  private applyMagnus(): void {
+    const mochi = this.currentMochi
+    if (!mochi || mochi.state !== 'flying' || this.currentSpin.lengthSq() === 0) return
+    const acceleration = calculateMagnusAcceleration(this.currentSpin, mochi.body.velocity)
+    mochi.applyForce(new CANNON.Vec3(
+      acceleration.x * mochi.config.mass,
+      acceleration.y * mochi.config.mass,
+      acceleration.z * mochi.config.mass
+    ))
+  }
+
+  // --- Launch ---
+  /**
+   * ランダムな発射台の位置を引く（launcherが'random'のモード用）
+   * 発射のばらつきや風とは別の乱数列なので、引いても他の結果は変わらない
+   */
+  rollLauncherPosition(): THREE.Vector3 {
+    return getLauncherPosition(this.launcherRandom.range(-LAUNCHER_ARC_LIMIT, LAUNCHER_ARC_LIMIT))
+  }
+
+  /**
+   * 餅を生成して発射する
+   */
+  launch(type: MochiType, params: LaunchParameters): MochiObject {
+    const mochi = this.mochiManager.createMochi(type, params.launchPosition)
+    mochi.body.addEventListener('collide', this.onMochiCollide)
+    this.applyLaunchVelocity(mochi, params)
+
+    this.currentMochi = mochi
+    this.landedMochi = null
+    this.trajectoryObstacles = null
+    this.flyingStartTime = this.elapsed
+
+    // この発射の風を確定し、次の発射の風を決めておく
+    this.currentWind = this._upcomingWind
+    this._upcomingWind = this.rollNextWind()
+    return mochi
+  }
+
+  private applyLaunchVelocity(mochi: MochiObject, params: LaunchParameters): void {
+    const velocity = calculateInitialVelocity(params)
+
+    const randomX = this.random.spread(2)
+    const randomZ = this.random.spread(1)
+
+    mochi.setVelocity(new THREE.Vector3(
+      velocity.x + randomX,
+      velocity.y,
+      velocity.z + randomZ
+    ))
+
+    // 選んだスピンに、ばらつきの回転を重ねる
+    this.currentSpin = calculateSpinAngularVelocity(params)
+    mochi.setAngularVelocity(new THREE.Vector3(
+      this.random.spread(5),
+      this.random.spread(5),
+      this.random.spread(5)
+    ).add(this.currentSpin))
+  }
+
+  /**
+   * 飛行中の餅
+   */
+  getCurrentMochi(): MochiObject | null {
+    return this.currentMochi
+  }
+
+  /**
+   * 前回呼んでから着地した餅（着地の演出用。1回の着地につき1度だけ返す）
+   * 着地の判定は毎ステップ行うので、描画のフレームレートによらず同じステップで着地する
+   */
+  takeLanded(): MochiObject | null {
+    const mochi = this.landedMochi
+    this.landedMochi = null
+    return mochi
+  }
+
+  /**
+   * 飛行中の餅が着地したら着地状態にする（風・マグヌス効果はこのステップまで）
+   */
+  private updateLanding(): void {
+    if (this.hasCurrentLanded()) {
+      this.landedMochi = this.markCurrentLanded()
+    }
+  }
+
+  /**
+   * 飛行中の餅が着地したとみなせるか
+   * - 十分に遅く低い / 何かに載って減速した / タイムアウト
+   */
+  private hasCurrentLanded(): boolean {
+    const mochi = this.currentMochi
+    if (!mochi || mochi.state !== 'flying') return false
+
+    const speed = mochi.getSpeed()
+    const yPos = mochi.height
+
+    const isSlowEnough = speed < LANDING_SPEED_THRESHOLD
+    const isNearGround = yPos < LANDING_HEIGHT_THRESHOLD
+    const hasLandedOnSomething = yPos < LANDING_HEIGHT_SOFT_THRESHOLD && speed < LANDING_SPEED_SOFT_THRESHOLD
+
+    return (isSlowEnough && isNearGround) || hasLandedOnSomething || this.isLandingTimedOut()
+  }
+
+  private isLandingTimedOut(): boolean {
+    return this.elapsed - this.flyingStartTime > LANDING_TIMEOUT_SECONDS
+  }
+
+  /**
+   * 飛行中の餅を着地状態にする
+   */
+  private markCurrentLanded(): MochiObject | null {
+    const mochi = this.currentMochi
+    mochi?.setState('landing')
+
+    // 高い塔の下段は固定して計算を軽くする（動く台では一緒に運ばれる必要があるので固定しない）
+    if (!this.dai.isMoving) {
+      this.mochiManager.freezeSettledTiers(ACTIVE_TIERS)
+    }
+    return mochi
+  }
+
+  /**
+   * 発射から着地・安定待ちまでをまとめて実行（ヘッドレス実行用）
+   * @param settleSeconds 着地後に進める時間（秒）
+   */
+  runShot(
+    type: MochiType,
+    params: LaunchParameters,
+    settleSeconds: number = DEFAULT_SETTLE_SECONDS
+  ): ShotResult {
+    const mochi = this.launch(type, params)
+    const startStep = this.stepCount
+
+    while (!this.takeLanded()) {
+      this.stepOnce()
+    }
+
+    const flightSteps = this.stepCount - startStep
+    const timedOut = this.isLandingTimedOut()
+    this.runFor(settleSeconds)
+
+    return { mochi, flightSteps, timedOut }
+  }
+
+  /**
+   * 通常モード1プレイ分（鏡餅の順に発射）を実行してスコアを返す
+   * @param shots 発射パラメータ（base, top, mikanの順）
+   */
+  playNormal(shots: readonly LaunchParameters[]): ScoreResult {
+    const sequence = NORMAL_MODE_CONFIG.mochiSequence
+    shots.slice(0, sequence.length).forEach((params, i) => {
+      this.runShot(sequence[i], params)
+    })
+    return this.calculateScore()
+  }
+
+  // --- Score ---
+  /** スコアは現在の台座の上面を基準にする（台座の寸法・動く台に追従） */
+  calculateScore(): ScoreResult {
+    this.mochiManager.update()
+    return this.scoreSystem.calculate(this.mochiManager, this.dai.surface)
+  }
+
+  calculateEndlessScore(mikanSuccess: boolean): EndlessScoreResult {
+    this.mochiManager.update()
+    return this.scoreSystem.calculateEndless(
+      this.mochiManager,
+      mikanSuccess,
+      this.dai.surface
+    )
+  }
+
+  /**
+   * 現在の台座の上面を支持面として積み上げの安定性を解析
+   */
+  analyzeStability(): StabilityReport {
+    return this.mochiManager.analyzeStability(this.dai.footprint)
+  }
+
+  /**
+   * 台から外れた餅を検出（エンドレスの崩壊判定。台座の寸法を基準にする）
+   */
+  detectFallen(): MochiObject | null {
+    return this.mochiManager.detectFallenFromDai(this.dai.surface)
+  }
+
+  /**
+   * 軌道予測でぶつかる物（台座と、飛行中でない餅）
+   * 狙っている間は積んだ餅が増えないので、発射するまで同じ配列を使い回し、姿勢だけ合わせる
+   */
+  getTrajectoryObstacles(): readonly TrajectoryObstacle[] {
+    const mochi = this.mochiManager.getAll().filter((m) => m.state !== 'flying')
+    if (!this.trajectoryObstacles || this.trajectoryObstacles.length !== mochi.length + 1) {
+      this.trajectoryObstacles = this.buildTrajectoryObstacles(mochi)
+    }
+
+    // 動く台座と、それに乗った餅に追従する
+    const [dai, ...rest] = this.trajectoryObstacles
+    setTrajectoryObstaclePose(dai, this.dai.position, this.dai.quaternion)
+    rest.forEach((obstacle, i) => {
+      setTrajectoryObstaclePose(obstacle, mochi[i].body.position, mochi[i].body.quaternion)
+    })
+    return this.trajectoryObstacles
+  }
+
+  private buildTrajectoryObstacles(mochi: readonly MochiObject[]): TrajectoryObstacle[] {
+    const { shape, height } = this.dai.pedestal
+    const dai = createTrajectoryObstacle(
+      'dai',
+      shape.kind === 'cylinder'
+        ? { kind: 'cylinder', radius: shape.radiusTop, halfHeight: height / 2 }
+        : {
+            kind: 'box',
+            halfWidth: shape.width / 2,
+            halfDepth: shape.depth / 2,
+            halfHeight: height / 2
+          }
+    )
+    return [
+      dai,
+      ...mochi.map((m) =>
+        createTrajectoryObstacle('mochi', {
+          kind: 'cylinder',
+          radius: m.config.radius,
+          halfHeight: m.config.height / 2
+        })
+      )
+    ]
+  }
+
+  // --- Impacts ---
+  /**
+   * 衝突の通知先を追加（衝突音用）
+   */
+  addImpactListener(listener: ImpactListener): void {
+    this.impactListeners.add(listener)
+  }
+
+  /**
+   * 衝突の通知先を削除
+   */
+  removeImpactListener(listener: ImpactListener): void {
+    this.impactListeners.delete(listener)
+  }
+
+  /**
+   * 餅以外のボディの材質（台座・床）
+   */
+  private getBodyImpactSurface(body: CANNON.Body): ImpactSurface | null {
+    if (body === this.dai.body) return this.dai.pedestal.type
+    if (body === this.groundBody) return 'ground'
+    return null
+  }
+
+  /**
+   * 餅の衝突（ボディごとのcollideイベント。接触方程式が付いてくるので探索不要）
+   * collideは触れ始めた瞬間にだけ発火するので、衝突音・ひび割れの元にする
+   * ステップ中はボディを増減できないので、ここでは集めるだけにしてステップ後に処理する
+   */
+  private onMochiCollide = (event: {
+    body: CANNON.Body
+    target: CANNON.Body
+    contact: CANNON.ContactEquation
+  }): void => {
+    const mochi = this.mochiManager.getByBody(event.target)
+    if (!mochi) return
+    const other = this.mochiManager.getByBody(event.body) ?? null
+    if (other) {
+      this.stickinessManager.onCollision(mochi, other, event.contact.ni)
+    }
+
+    // 接触点ごと・両方のボディで発火するので、組み合わせごとに一番強いものだけ残す
+    const [idA, idB] = [event.target.id, event.body.id].sort((a, b) => a - b)
+    const key = `${idA}:${idB}`
+    const relativeSpeed = event.target.velocity.vsub(event.body.velocity).length()
+    const pending = this.pendingCollisions.get(key)
+    if (pending && pending.relativeSpeed >= relativeSpeed) return
+
+    this.pendingCollisions.set(key, {
+      mochi,
+      other,
+      otherBody: event.body,
+      normalSpeed: Math.abs(event.contact.getImpactVelocityAlongNormal()),
+      relativeSpeed,
+      normal: event.contact.ni.clone()
+    })
+  }
+
+  /**
+   * このステップで集めた衝突を通知し、ひび割れ・割れを判定する
+   */
+  private flushCollisions(): void {
+    if (this.pendingCollisions.size === 0) return
+    const collisions = [...this.pendingCollisions.values()]
+    this.pendingCollisions.clear()
+
+    for (const collision of collisions) {
+      this.notifyImpact(collision)
+    }
+
+    const fractured = new Set<MochiObject>()
+    for (const { mochi, other, relativeSpeed, normal } of collisions) {
+      for (const target of other ? [mochi, other] : [mochi]) {
+        if (fractured.has(target)) continue
+        if (this.checkFracture(target, relativeSpeed, normal)) fractured.add(target)
+      }
+    }
+  }
+
+  private notifyImpact(collision: PendingCollision): void {
+    if (this.impactListeners.size === 0) return
+    const { mochi, other, otherBody, normalSpeed } = collision
+    if (normalSpeed < MIN_IMPACT_SPEED) return
+    const surface = other
+      ? getMochiImpactSurface(other.config)
+      : this.getBodyImpactSurface(otherBody)
+    if (!surface) return
+
+    const { x, y, z } = mochi.position
+    const impact: Impact = {
+      surfaces: [getMochiImpactSurface(mochi.config), surface],
+      speed: normalSpeed,
+      mass: mochi.config.mass + (other?.config.mass ?? 0),
+      position: { x, y, z }
+    }
+    for (const listener of this.impactListeners) {
+      listener.onImpact?.(impact)
+    }
+  }
+
+  // --- Fracture ---
+  /**
+   * 割れやすさの閾値を超えた衝突なら、1回目はひび・2回目で割る
+   * @returns ひびが入った・割れたらtrue
+   */
+  private checkFracture(mochi: MochiObject, speed: number, normal: CANNON.Vec3): boolean {
+    const threshold = mochi.config.crackSpeed
+    if (threshold === undefined || speed < threshold) return false
+    // 固定済みの下段・既にプールに戻った餅は対象外
+    if (mochi.isFrozen || !this.mochiManager.getByBody(mochi.body)) return false
+
+    if (mochi.integrity === 'intact') {
+      if (!this.mochiManager.crack(mochi)) return false
+      this.crackedAt.set(mochi, this.elapsed)
+      for (const listener of this.impactListeners) {
+        listener.onCrack?.(mochi)
+      }
+      return true
+    }
+
+    // ひびが入った直後の跳ね返りでは割れない
+    const crackedAt = this.crackedAt.get(mochi) ?? -Infinity
+    if (mochi.integrity !== 'cracked' || this.elapsed - crackedAt < CRACK_COOLDOWN_SECONDS) {
+      return false
+    }
+    const count = speed >= threshold * SHATTER_INTO_THREE_RATIO ? 3 : 2
+    this.shatter(mochi, count, normal)
+    return true
+  }
+
+  /**
+   * 餅を破片に置き換える（飛行中の餅なら最初の破片を引き継ぐ）
+   */
+  private shatter(mochi: MochiObject, count: number, normal: CANNON.Vec3): void {
+    const parentId = mochi.id
+    const { x, y, z } = mochi.position
+    const wasCurrent = mochi === this.currentMochi
+    const wasFlying = mochi.state === 'flying'
+
+    mochi.body.removeEventListener('collide', this.onMochiCollide)
+    this.stickinessManager.detachMochi(mochi)
+    this.crackedAt.delete(mochi)
+
+    const fragments = this.mochiManager.shatter(mochi, count, this.getSplitAxis(mochi, normal))
+    for (const fragment of fragments) {
+      fragment.body.addEventListener('collide', this.onMochiCollide)
+    }
+    if (wasCurrent) {
+      this.currentMochi = fragments[0]
+      if (wasFlying) fragments[0].setState('flying')
+    }
+
+    for (const listener of this.impactListeners) {
+      listener.onShatter?.({ parentId, position: { x, y, z }, fragments })
+    }
+  }
+
+  /**
+   * 破片を並べる水平方向（衝突の法線と直交する向き。真上からなら餅の向き）
+   */
+  private getSplitAxis(mochi: MochiObject, normal: CANNON.Vec3): THREE.Vector3 {
+    const axis = new THREE.Vector3(-normal.z, 0, normal.x)
+    if (axis.length() < 0.3) {
+      const local = mochi.body.quaternion.vmult(new CANNON.Vec3(1, 0, 0))
+      axis.set(local.x, 0, local.z)
+    }
+    return axis.lengthSq() > 1e-6 ? axis.normalize() : axis.set(1, 0, 0)
+  }
+
+  // --- Cleanup ---
+  dispose(): void {
+    // ボディはプールで使い回されるので、このシミュレーションの購読を外しておく
+    for (const mochi of this.mochiManager.getAll()) {
+      mochi.body.removeEventListener('collide', this.onMochiCollide)
+    }
+    this.impactListeners.clear()
+    this.pendingCollisions.clear()
+    this.crackedAt.clear()
+    this.mochiManager.dispose()
+    this.stickinessManager.dispose()
+    this.physics.dispose()
+    this.currentMochi = null
+  }
+}
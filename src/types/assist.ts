@@ -0,0 +1,90 @@
+/**
+ * ゲージ操作のアシスト設定（手や指が思うように動かしにくい人向け）
+ */
+export type AssistSettings = {
+  /** ゲージの往復の速さ（1で標準、小さいほどゆっくり） */
+  readonly gaugeSpeed: number
+  /** タップではなく、押し続けるとゲージが止まり、そのまま押し続けると決定する */
+  readonly holdToStop: boolean
+  /** どのキーでも1つのスイッチとして方向→角度→パワーを順に決める（発射位置は正面、スピンなし） */
+  readonly singleSwitch: boolean
+  /** ゲージが端と中央に来たら少しのあいだ止まる */
+  readonly pauseAtValues: boolean
+}
+
+export const DEFAULT_ASSIST_SETTINGS: AssistSettings = {
+  gaugeSpeed: 1,
+  holdToStop: false,
+  singleSwitch: false,
+  pauseAtValues: false
+}
+
+/** ゲージの速さの下限（標準の1/4） */
+export const MIN_ASSIST_GAUGE_SPEED = 0.25
+/** ?assist=slow の速さ */
+const SLOW_GAUGE_SPEED = 0.5
+
+const clampGaugeSpeed = (speed: number): number =>
+  Math.min(1, Math.max(MIN_ASSIST_GAUGE_SPEED, speed))
+
+/**
+ * どれか1つでもアシストが効いているか（結果と成績に印を付ける）
+ */
+export const isAssistActive = (settings: AssistSettings): boolean =>
+  settings.gaugeSpeed < 1 ||
+  settings.holdToStop ||
+  settings.singleSwitch ||
+  settings.pauseAtValues
+
+/**
+ * 保存された値を読み直す（壊れた・足りない項目は標準に戻す）
+ */
+export const sanitizeAssistSettings = (value: unknown): AssistSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_ASSIST_SETTINGS
+  const settings = value as Partial<Record<keyof AssistSettings, unknown>>
+  const flag = (key: 'holdToStop' | 'singleSwitch' | 'pauseAtValues'): boolean =>
+    typeof settings[key] === 'boolean' ? settings[key] : DEFAULT_ASSIST_SETTINGS[key]
+
+  return {
+    gaugeSpeed:
+      typeof settings.gaugeSpeed === 'number' && Number.isFinite(settings.gaugeSpeed)
+        ? clampGaugeSpeed(settings.gaugeSpeed)
+        : DEFAULT_ASSIST_SETTINGS.gaugeSpeed,
+    holdToStop: flag('holdToStop'),
+    singleSwitch: flag('singleSwitch'),
+    pauseAtValues: flag('pauseAtValues')
+  }
+}
+
+/**
+ * URLパラメータからアシスト設定を作る
+ * カンマ区切りで組み合わせる: slow / speed40（標準の40%）/ hold / switch / pause、off で全部解除
+ * @returns 知らない指定が含まれる場合はnull
+ */
+export const parseAssistParam = (param: string): AssistSettings | null => {
+  let gaugeSpeed = DEFAULT_ASSIST_SETTINGS.gaugeSpeed
+  let holdToStop = false
+  let singleSwitch = false
+  let pauseAtValues = false
+
+  for (const token of param.split(',').map((t) => t.trim()).filter(Boolean)) {
+    const speedMatch = /^speed(\d+)$/.exec(token)
+    if (token === 'off') {
+      // 他の指定がなければ標準に戻る
+    } else if (token === 'slow') {
+      gaugeSpeed = SLOW_GAUGE_SPEED
+    } else if (speedMatch) {
+      gaugeSpeed = clampGaugeSpeed(Number(speedMatch[1]) / 100)
+    } else if (token === 'hold') {
+      holdToStop = true
+    } else if (token === 'switch') {
+      singleSwitch = true
+    } else if (token === 'pause') {
+      pauseAtValues = true
+    } else {
+      return null
+    }
+  }
+
+  return { gaugeSpeed, holdToStop, singleSwitch, pauseAtValues }
+}
@@ -0,0 +1,19 @@
+/**
+ * 発射の操作方法
+ * - gauge: 往復するゲージをタップで止めて方向・角度・パワー・スピンを順に決める
+ * - slingshot: 発射台から後ろへ引っぱって方向とパワーを直接決め、離して発射する
+ */
+export type ControlScheme = 'gauge' | 'slingshot'
+
+export const CONTROL_SCHEME_NAMES: Record<ControlScheme, string> = {
+  gauge: 'ゲージ',
+  slingshot: 'スリングショット'
+}
+
+export const DEFAULT_CONTROL_SCHEME: ControlScheme = 'gauge'
+
+/**
+ * 型ガード: 操作方法の値か判定
+ */
+export const isControlScheme = (value: unknown): value is ControlScheme =>
+  value === 'gauge' || value === 'slingshot'
@@ -0,0 +1,35 @@
+/**
+ * 台座の動き
+ * - static: 動かない（従来どおり）
+ * - turntable: その場で回る
+ * - slide: 左右に往復する
+ * - bob: 上下に揺れる
+ */
+export type DaiMotionType = 'static' | 'turntable' | 'slide' | 'bob'
+
+/**
+ * 台座の動きの設定
+ */
+export type DaiMotionConfig = {
+  readonly type: DaiMotionType
+  readonly displayName: string
+  /** 振幅（slide: 横の移動幅m、bob: 上下の移動幅m、turntable: 未使用） */
+  readonly amplitude: number
+  /** 周期（秒）。turntableは1回転にかかる時間 */
+  readonly period: number
+}
+
+export const DAI_MOTION_CONFIGS: Record<DaiMotionType, DaiMotionConfig> = {
+  static: { type: 'static', displayName: '固定台', amplitude: 0, period: 1 },
+  turntable: { type: 'turntable', displayName: '回転台', amplitude: 0, period: 8 },
+  slide: { type: 'slide', displayName: 'スライド台', amplitude: 1.2, period: 6 },
+  bob: { type: 'bob', displayName: '浮き台', amplitude: 0.25, period: 3 }
+}
+
+export const DEFAULT_DAI_MOTION: DaiMotionType = 'static'
+
+/**
+ * 型ガード: 台座の動きの値か判定
+ */
+export const isDaiMotionType = (value: unknown): value is DaiMotionType =>
+  value === 'static' || value === 'turntable' || value === 'slide' || value === 'bob'
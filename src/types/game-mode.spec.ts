@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'bun:test'
+import { GAME_MODE_CONFIGS, isGameMode } from './game-mode'
+import { MOCHI_CONFIGS, findMochiConfig } from '../objects/MochiRegistry'
+
+describe('game modes', () => {
+  it('builds every sequence from registered items', () => {
+    for (const config of Object.values(GAME_MODE_CONFIGS)) {
+      expect(config.mochiSequence.length).toBeGreaterThan(0)
+      for (const type of config.mochiSequence) {
+        expect(findMochiConfig(type)).not.toBeNull()
+      }
+    }
+  })
+
+  it('uses every built-in item in some mode', () => {
+    const used = new Set(Object.values(GAME_MODE_CONFIGS).flatMap((c) => c.mochiSequence))
+    for (const type of Object.keys(MOCHI_CONFIGS)) {
+      expect(used.has(type)).toBe(true)
+    }
+  })
+
+  it('scores accuracy modes with a foundation, a tier and a crown', () => {
+    for (const config of Object.values(GAME_MODE_CONFIGS)) {
+      if (config.scoreType !== 'accuracy') continue
+      const roles = config.mochiSequence.map((type) => findMochiConfig(type)?.scoringRole)
+      expect(roles).toEqual(expect.arrayContaining(['foundation', 'tier', 'crown']))
+    }
+  })
+
+  it('recognizes mode ids', () => {
+    expect(isGameMode('decorated')).toBe(true)
+    expect(isGameMode('hard')).toBe(false)
+    expect(isGameMode(undefined)).toBe(false)
+  })
+})
@@ -1,9 +1,11 @@
 import type { MochiType } from '../objects'
+import type { PedestalType } from './pedestal'
+import type { LauncherMode } from './launch'
 
 /**
  * ゲームモードの種類
  */
-export type GameMode = 'normal' | 'endless'
+export type GameMode = 'normal' | 'endless' | 'decorated'
 
 /**
  * スコア計算方式
@@ -23,6 +25,12 @@ export type GameModeConfig = {
   readonly isLooping: boolean
   /** スコア計算方式 */
   readonly scoreType: ScoreType
+  /** 風の最大の強さ（m/s²、0で無風） */
+  readonly windStrength: number
+  /** 標準の台座（プレイヤーが選び直せる） */
+  readonly pedestal: PedestalType
+  /** 発射台の位置の決め方 */
+  readonly launcher: LauncherMode
 }
 
 /**
@@ -34,7 +42,10 @@ export const NORMAL_MODE_CONFIG: GameModeConfig = {
   description: '3つの餅を積み上げて100点を目指せ！',
   mochiSequence: ['base', 'top', 'mikan'] as const,
   isLooping: false,
-  scoreType: 'accuracy'
+  scoreType: 'accuracy',
+  windStrength: 0,
+  pedestal: 'sanpo',
+  launcher: 'free'
 }
 
 /**
@@ -46,7 +57,25 @@ export const ENDLESS_MODE_CONFIG: GameModeConfig = {
   description: '餅を限界まで積み続けろ！崩れたらゲームオーバー',
   mochiSequence: ['base', 'top'] as const,
   isLooping: true,
-  scoreType: 'height'
+  scoreType: 'height',
+  windStrength: 1.2,
+  pedestal: 'sanpo',
+  launcher: 'random'
+}
+
+/**
+ * 本飾りモード設定（裏白・串柿・昆布・橙まで飾る、風のある上級者向け）
+ */
+export const DECORATED_MODE_CONFIG: GameModeConfig = {
+  mode: 'decorated',
+  displayName: '本飾りモード',
+  description: '裏白・串柿・昆布・橙まで飾って鏡餅を仕上げろ！',
+  mochiSequence: ['urajiro', 'base', 'top', 'kushigaki', 'konbu', 'daidai'] as const,
+  isLooping: false,
+  scoreType: 'accuracy',
+  windStrength: 0.6,
+  pedestal: 'sanpo',
+  launcher: 'free'
 }
 
 /**
@@ -54,9 +83,16 @@ export const ENDLESS_MODE_CONFIG: GameModeConfig = {
  */
 export const GAME_MODE_CONFIGS: Record<GameMode, GameModeConfig> = {
   normal: NORMAL_MODE_CONFIG,
-  endless: ENDLESS_MODE_CONFIG
+  endless: ENDLESS_MODE_CONFIG,
+  decorated: DECORATED_MODE_CONFIG
 }
 
+/**
+ * 型ガード: ゲームモードか判定
+ */
+export const isGameMode = (value: unknown): value is GameMode =>
+  value === 'normal' || value === 'endless' || value === 'decorated'
+
 /**
  * モード設定を取得
  */
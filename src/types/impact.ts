@@ -0,0 +1,52 @@
+import type { MochiConfig, MochiObject } from '../objects'
+import type { PedestalType } from './pedestal'
+
+/**
+ * ぶつかった面の材質（音色の組み合わせに使う）
+ * - mochi: 柔らかい餅
+ * - fruit: みかん・だいだい
+ * - ornament: 串柿・昆布・裏白などの飾り
+ * - 台座の種類 / ground: 床
+ */
+export type ImpactSurface = 'mochi' | 'fruit' | 'ornament' | PedestalType | 'ground'
+
+/**
+ * 物理の接触1回分（新しく触れた瞬間だけ通知される）
+ */
+export type Impact = {
+  /** ぶつかった2つの面（1つ目は必ず餅） */
+  readonly surfaces: readonly [ImpactSurface, ImpactSurface]
+  /** 接触法線方向の相対速度（m/s） */
+  readonly speed: number
+  /** ぶつかった動く物体の質量の合計 */
+  readonly mass: number
+  readonly position: { readonly x: number; readonly y: number; readonly z: number }
+}
+
+/**
+ * 餅が割れた（ひびの入った餅への2回目の強い衝撃）
+ */
+export type ShatterEvent = {
+  /** 割れる前の餅のID（餅自体は既にプールに戻っている） */
+  readonly parentId: string
+  readonly position: { readonly x: number; readonly y: number; readonly z: number }
+  readonly fragments: readonly MochiObject[]
+}
+
+/**
+ * 衝突の通知先
+ */
+export type ImpactListener = {
+  onImpact?: (impact: Impact) => void
+  /** 強い衝撃でひびが入った */
+  onCrack?: (mochi: MochiObject) => void
+  onShatter?: (event: ShatterEvent) => void
+}
+
+/**
+ * 餅の設定から材質を決める
+ */
+export const getMochiImpactSurface = (config: MochiConfig): ImpactSurface => {
+  if (config.deformable) return 'mochi'
+  return config.scoringRole === 'crown' ? 'fruit' : 'ornament'
+}
@@ -12,16 +12,35 @@ export type LaunchParameters = {
   power: number
   /** 発射位置 */
   launchPosition: THREE.Vector3
+  /** スピンの強さ 0 ~ 100（省略時は無回転） */
+  spin?: number
+  /** スピンの回転軸（ワールド座標。省略時は縦軸） */
+  spinAxis?: THREE.Vector3
 }
 
+/**
+ * 発射台の位置の決め方
+ * - fixed: 正面に固定
+ * - free: 発射前にプレイヤーがレールの上で動かす
+ * - random: 1発ごとにランダムな位置（入力の丸暗記を防ぐ）
+ */
+export type LauncherMode = 'fixed' | 'free' | 'random'
+
+/** 発射台のレール（台座の中心を囲む円弧）の半径 */
+export const LAUNCHER_RAIL_RADIUS = 10
+/** 発射台を動かせる範囲（正面からの角度、度） */
+export const LAUNCHER_ARC_LIMIT = 40
+
 /**
  * 発射パラメータの初期値
  */
-export const LAUNCH_DEFAULTS: Readonly<LaunchParameters> = {
+export const LAUNCH_DEFAULTS: Readonly<Required<LaunchParameters>> = {
   angleH: 0,
   angleV: 45,
   power: 50,
-  launchPosition: new THREE.Vector3(0, 0, 10)
+  launchPosition: new THREE.Vector3(0, 0, 10),
+  spin: 0,
+  spinAxis: new THREE.Vector3(0, 1, 0)
 }
 
 /**
@@ -31,7 +50,9 @@ export const createDefaultLaunchParameters = (): LaunchParameters => ({
   angleH: LAUNCH_DEFAULTS.angleH,
   angleV: LAUNCH_DEFAULTS.angleV,
   power: LAUNCH_DEFAULTS.power,
-  launchPosition: LAUNCH_DEFAULTS.launchPosition.clone()
+  launchPosition: LAUNCH_DEFAULTS.launchPosition.clone(),
+  spin: LAUNCH_DEFAULTS.spin,
+  spinAxis: LAUNCH_DEFAULTS.spinAxis.clone()
 })
 
 // ゲージ値から角度への変換
@@ -49,6 +70,46 @@ export const gaugeToAngleH = (gaugeValue: number): number => (gaugeValue - 50) *
  */
 export const gaugeToAngleV = (gaugeValue: number): number => 15 + gaugeValue * 0.6
 
+/**
+ * ゲージ値から横回転のスピンを計算（中央で無回転、右に振るほど右へ曲がる）
+ * @param gaugeValue 0-100のゲージ値
+ */
+export const gaugeToSpin = (
+  gaugeValue: number
+): Required<Pick<LaunchParameters, 'spin' | 'spinAxis'>> => ({
+  spin: Math.min(100, Math.abs(gaugeValue - 50) * 2),
+  // 奥（-Z）へ飛ぶ餅は、下向きの軸で回ると右（+X）へ曲がる
+  spinAxis: new THREE.Vector3(0, gaugeValue < 50 ? 1 : -1, 0)
+})
+
+/**
+ * ゲージ値から発射台のレール上の角度を計算
+ * @param gaugeValue 0-100のゲージ値
+ * @returns 正面からの角度（度）、右が正
+ */
+export const gaugeToLauncherArc = (gaugeValue: number): number =>
+  ((gaugeValue - 50) / 50) * LAUNCHER_ARC_LIMIT
+
+// 発射台
+/**
+ * レール上の角度から発射位置を計算（0度が正面の(0, 0, 10)）
+ */
+export const getLauncherPosition = (arcDegrees: number): THREE.Vector3 => {
+  const rad = degreesToRadians(arcDegrees)
+  return new THREE.Vector3(
+    Math.sin(rad) * LAUNCHER_RAIL_RADIUS,
+    0,
+    Math.cos(rad) * LAUNCHER_RAIL_RADIUS
+  )
+}
+
+/**
+ * 発射台の向き（Y軸回りのラジアン）。台座の中心を向くので、正面では0
+ * 水平角度angleHはこの向きからの相対角度になる
+ */
+export const getLauncherYaw = (launchPosition: { x: number; z: number }): number =>
+  Math.atan2(launchPosition.x, launchPosition.z)
+
 // パワー計算
 /**
  * パワーから速度乗数を計算
@@ -70,8 +131,10 @@ export const calculateSpeed = (powerMultiplier: number): number => 8 + powerMult
  */
 export const degreesToRadians = (degrees: number): number => (degrees * Math.PI) / 180
 
+const Y_AXIS = new THREE.Vector3(0, 1, 0)
+
 /**
- * 発射パラメータから初速度ベクトルを計算
+ * 発射パラメータから初速度ベクトルを計算（発射台の向きに合わせて回す）
  */
 export const calculateInitialVelocity = (params: LaunchParameters): THREE.Vector3 => {
   const { angleH, angleV, power } = params
@@ -81,9 +144,45 @@ export const calculateInitialVelocity = (params: LaunchParameters): THREE.Vector
   const hRad = degreesToRadians(angleH)
   const vRad = degreesToRadians(angleV)
 
-  return new THREE.Vector3(
+  const velocity = new THREE.Vector3(
     Math.sin(hRad) * speed * Math.cos(vRad),
     Math.sin(vRad) * speed,
     -Math.cos(hRad) * speed * Math.cos(vRad)
   )
+  const yaw = getLauncherYaw(params.launchPosition)
+  return yaw === 0 ? velocity : velocity.applyAxisAngle(Y_AXIS, yaw)
 }
+
+// スピン
+/** スピン100のときの角速度（rad/s） */
+export const MAX_SPIN_RATE = 15
+
+/**
+ * マグヌス効果の係数（加速度 = 係数 × 角速度 × 速度）
+ * スピン最大・パワー中程度で、着地点が1mほど横にずれる強さ
+ */
+export const MAGNUS_COEFFICIENT = 0.006
+
+/**
+ * 発射パラメータからスピンの角速度ベクトルを計算
+ */
+export const calculateSpinAngularVelocity = (params: LaunchParameters): THREE.Vector3 => {
+  const spin = params.spin ?? 0
+  const axis = params.spinAxis ?? LAUNCH_DEFAULTS.spinAxis
+  if (spin <= 0 || axis.lengthSq() === 0) return new THREE.Vector3()
+  return axis.clone().normalize().multiplyScalar((Math.min(spin, 100) / 100) * MAX_SPIN_RATE)
+}
+
+/**
+ * 回転しながら飛ぶ物体が受けるマグヌス効果の加速度（角速度 × 速度の向き）
+ * StackingSimulationとcalculateTrajectoryで同じ式を使う
+ */
+export const calculateMagnusAcceleration = (
+  angularVelocity: { x: number; y: number; z: number },
+  velocity: { x: number; y: number; z: number }
+): THREE.Vector3 =>
+  new THREE.Vector3(
+    angularVelocity.y * velocity.z - angularVelocity.z * velocity.y,
+    angularVelocity.z * velocity.x - angularVelocity.x * velocity.z,
+    angularVelocity.x * velocity.y - angularVelocity.y * velocity.x
+  ).multiplyScalar(MAGNUS_COEFFICIENT)
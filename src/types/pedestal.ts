@@ -0,0 +1,190 @@
+/**
+ * 台座の種類
+ * - sanpo: 漆塗りの三方（従来の台と同じ寸法）
+ * - ice: 滑る氷のブロック
+ * - tatami: 摩擦の大きい畳
+ * - post: 細い木の杭
+ */
+export type PedestalType = 'sanpo' | 'ice' | 'tatami' | 'post'
+
+/**
+ * 台座の形（円柱は上下で半径を変えられる、箱は幅×奥行き）
+ */
+export type PedestalShape =
+  | {
+      readonly kind: 'cylinder'
+      readonly radiusTop: number
+      readonly radiusBottom: number
+    }
+  | {
+      readonly kind: 'box'
+      readonly width: number
+      readonly depth: number
+    }
+
+/**
+ * 台座と餅の接触（ContactMaterialの値）
+ */
+export type PedestalSurfaceMaterial = {
+  readonly friction: number
+  readonly restitution: number
+}
+
+/**
+ * 台座の設定
+ */
+export type PedestalConfig = {
+  readonly type: PedestalType
+  readonly displayName: string
+  readonly shape: PedestalShape
+  /** 高さ（床から上面まで） */
+  readonly height: number
+  readonly contact: PedestalSurfaceMaterial
+  readonly color: number
+  /** 縁取りの色（三方の金縁・畳の縁など） */
+  readonly trimColor: number
+  readonly roughness: number
+  readonly metalness: number
+  /** 1未満で半透明（氷） */
+  readonly opacity: number
+}
+
+/**
+ * 箱の台座の上面の長方形
+ */
+export type PedestalSurfaceRect = {
+  readonly halfWidth: number
+  readonly halfDepth: number
+  /** Y軸まわりの回転（ラジアン。回転台用） */
+  readonly yaw: number
+}
+
+/**
+ * 台座の上面（スコアのターゲットと崩壊判定の基準）
+ */
+export type PedestalSurface = {
+  readonly x: number
+  /** 上面のY座標 */
+  readonly y: number
+  readonly z: number
+  /** 上面に収まる円の半径（箱は短い辺の半分） */
+  readonly radius: number
+  /** 箱の台座の上面（あれば円ではなく長方形で判定する） */
+  readonly rect?: PedestalSurfaceRect
+}
+
+/**
+ * 上面の広がり（高さを除いた部分）
+ */
+export type SurfaceArea = Pick<PedestalSurface, 'x' | 'z' | 'radius' | 'rect'>
+
+export const PEDESTAL_CONFIGS: Record<PedestalType, PedestalConfig> = {
+  sanpo: {
+    type: 'sanpo',
+    displayName: '三方',
+    shape: { kind: 'cylinder', radiusTop: 1.8, radiusBottom: 2 },
+    height: 0.5,
+    contact: { friction: 1.2, restitution: 0.02 },
+    color: 0x8b1a1a,
+    trimColor: 0xd4af37,
+    roughness: 0.3,
+    metalness: 0.2,
+    opacity: 1
+  },
+  ice: {
+    type: 'ice',
+    displayName: '氷の台',
+    shape: { kind: 'box', width: 3.6, depth: 3.6 },
+    height: 0.6,
+    contact: { friction: 0.08, restitution: 0.05 },
+    color: 0xcfefff,
+    trimColor: 0xffffff,
+    roughness: 0.05,
+    metalness: 0,
+    opacity: 0.75
+  },
+  tatami: {
+    type: 'tatami',
+    displayName: '畳',
+    shape: { kind: 'box', width: 4, depth: 2.4 },
+    height: 0.3,
+    contact: { friction: 1.8, restitution: 0 },
+    color: 0xb5b35c,
+    trimColor: 0x2f3b2a,
+    roughness: 0.95,
+    metalness: 0,
+    opacity: 1
+  },
+  post: {
+    type: 'post',
+    displayName: '木の杭',
+    shape: { kind: 'cylinder', radiusTop: 0.9, radiusBottom: 1 },
+    height: 1,
+    contact: { friction: 0.9, restitution: 0.03 },
+    color: 0xa0703c,
+    trimColor: 0x5c3a1a,
+    roughness: 0.8,
+    metalness: 0,
+    opacity: 1
+  }
+}
+
+export const DEFAULT_PEDESTAL: PedestalType = 'sanpo'
+
+/**
+ * 上面に収まる円の半径
+ */
+export const getPedestalSurfaceRadius = (config: PedestalConfig): number => {
+  const { shape } = config
+  return shape.kind === 'cylinder'
+    ? shape.radiusTop
+    : Math.min(shape.width, shape.depth) / 2
+}
+
+/**
+ * 水平位置を上面の中心からの台座の向きでの位置にする
+ */
+const toSurfaceLocal = (rect: PedestalSurfaceRect, dx: number, dz: number) => {
+  const cos = Math.cos(rect.yaw)
+  const sin = Math.sin(rect.yaw)
+  return { x: dx * cos - dz * sin, z: dx * sin + dz * cos }
+}
+
+/**
+ * 水平位置が上面の中でどれだけ余裕があるか（1: 中心、0: 縁、負: 縁の外）
+ * 箱は長方形のまま、縁に近い方の軸で測る（短い辺の円に縮めない）
+ */
+export const getSurfaceMargin = (surface: SurfaceArea, x: number, z: number): number => {
+  const dx = x - surface.x
+  const dz = z - surface.z
+  const { rect } = surface
+  if (!rect) return (surface.radius - Math.hypot(dx, dz)) / surface.radius
+
+  const local = toSurfaceLocal(rect, dx, dz)
+  return Math.min(
+    (rect.halfWidth - Math.abs(local.x)) / rect.halfWidth,
+    (rect.halfDepth - Math.abs(local.z)) / rect.halfDepth
+  )
+}
+
+/**
+ * 水平位置が上面の縁からどれだけ外にあるか（上面の中なら0）
+ */
+export const getDistanceOutsideSurface = (surface: SurfaceArea, x: number, z: number): number => {
+  const dx = x - surface.x
+  const dz = z - surface.z
+  const { rect } = surface
+  if (!rect) return Math.max(0, Math.hypot(dx, dz) - surface.radius)
+
+  const local = toSurfaceLocal(rect, dx, dz)
+  return Math.hypot(
+    Math.max(0, Math.abs(local.x) - rect.halfWidth),
+    Math.max(0, Math.abs(local.z) - rect.halfDepth)
+  )
+}
+
+/**
+ * 型ガード: 台座の種類か判定
+ */
+export const isPedestalType = (value: unknown): value is PedestalType =>
+  value === 'sanpo' || value === 'ice' || value === 'tatami' || value === 'post'
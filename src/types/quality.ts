@@ -0,0 +1,41 @@
+/**
+ * 物理シミュレーションの品質
+ * - low: 従来の円柱形状（軽量）・変形なし
+ * - medium / high: 描画と同じプロファイルから作る凸包形状・着地時の変形あり
+ */
+export type PhysicsQuality = 'low' | 'medium' | 'high'
+
+/**
+ * 品質ごとの餅の当たり判定・変形の設定
+ */
+export type PhysicsQualitySettings = {
+  readonly shape: 'cylinder' | 'hull'
+  /** 周方向の分割数 */
+  readonly radialSegments: number
+  /** プロファイル（断面）の分割数 */
+  readonly profileSegments: number
+  /** 断面を間引くときの許容誤差（ワールド単位）。大きいほど面が減って軽くなる */
+  readonly profileTolerance: number
+  /** 着地時の潰れ・揺れ戻り・重みによるたわみを表示するか（見た目のみ） */
+  readonly softBody: boolean
+}
+
+export const PHYSICS_QUALITY_SETTINGS: Record<PhysicsQuality, PhysicsQualitySettings> = {
+  low: { shape: 'cylinder', radialSegments: 12, profileSegments: 0, profileTolerance: 0, softBody: false },
+  medium: { shape: 'hull', radialSegments: 12, profileSegments: 12, profileTolerance: 0.04, softBody: true },
+  high: { shape: 'hull', radialSegments: 16, profileSegments: 16, profileTolerance: 0.02, softBody: true }
+}
+
+export const PHYSICS_QUALITY_NAMES: Record<PhysicsQuality, string> = {
+  low: '軽量',
+  medium: '標準',
+  high: '高精細'
+}
+
+export const DEFAULT_PHYSICS_QUALITY: PhysicsQuality = 'medium'
+
+/**
+ * 型ガード: 物理品質の値か判定
+ */
+export const isPhysicsQuality = (value: unknown): value is PhysicsQuality =>
+  value === 'low' || value === 'medium' || value === 'high'
@@ -0,0 +1,171 @@
+import * as THREE from 'three'
+import type { MochiType } from '../objects'
+import { isMochiType } from '../objects/MochiRegistry'
+import { type GameMode, isGameMode } from './game-mode'
+import { type PhysicsQuality, isPhysicsQuality } from './quality'
+import { type DaiMotionType, isDaiMotionType } from './dai-motion'
+import { type PedestalType, isPedestalType } from './pedestal'
+import { type ControlScheme, isControlScheme } from './control-scheme'
+import { type LaunchParameters, LAUNCH_DEFAULTS } from './launch'
+
+/**
+ * リプレイ形式のバージョン
+ * 記録内容や物理の前提が変わったら上げる
+ */
+export const REPLAY_VERSION = 2
+
+/**
+ * 1発分の記録
+ */
+export type ReplayShot = {
+  mochiType: MochiType
+  angleH: number
+  angleV: number
+  power: number
+  launchPosition: { x: number; y: number; z: number }
+  /** スピン（無回転の記録では省略） */
+  spin?: number
+  spinAxis?: { x: number; y: number; z: number }
+  /** 発射したシミュレーションステップ（0始まり） */
+  step: number
+}
+
+/**
+ * リプレイ文書（1プレイ分）
+ */
+export type ReplayDocument = {
+  version: typeof REPLAY_VERSION
+  mode: GameMode
+  /** 乱数シード */
+  seed: number
+  /** 記録時の固定ステップ幅（秒） */
+  timeStep: number
+  /** 記録時の当たり判定品質（形状が違うと結果が変わる） */
+  physicsQuality: PhysicsQuality
+  /** 台座の動き（未指定は固定台） */
+  daiMotion?: DaiMotionType
+  /** 台座の種類（未指定は三方） */
+  pedestal?: PedestalType
+  /** 記録時の操作方法（結果には影響しない。未指定はゲージ） */
+  controlScheme?: ControlScheme
+  /** ゲージ操作のアシストを使ったプレイか（結果には影響しない） */
+  assisted?: boolean
+  shots: ReplayShot[]
+}
+
+/**
+ * 発射パラメータを記録用に変換
+ */
+export const createReplayShot = (
+  mochiType: MochiType,
+  params: LaunchParameters,
+  step: number
+): ReplayShot => ({
+  mochiType,
+  angleH: params.angleH,
+  angleV: params.angleV,
+  power: params.power,
+  launchPosition: {
+    x: params.launchPosition.x,
+    y: params.launchPosition.y,
+    z: params.launchPosition.z
+  },
+  ...(params.spin && params.spinAxis
+    ? {
+        spin: params.spin,
+        spinAxis: { x: params.spinAxis.x, y: params.spinAxis.y, z: params.spinAxis.z }
+      }
+    : {}),
+  step
+})
+
+/**
+ * 記録から発射パラメータを復元
+ */
+export const toLaunchParameters = (shot: ReplayShot): LaunchParameters => ({
+  angleH: shot.angleH,
+  angleV: shot.angleV,
+  power: shot.power,
+  launchPosition: new THREE.Vector3(
+    shot.launchPosition.x,
+    shot.launchPosition.y,
+    shot.launchPosition.z
+  ),
+  spin: shot.spin ?? 0,
+  spinAxis: shot.spinAxis
+    ? new THREE.Vector3(shot.spinAxis.x, shot.spinAxis.y, shot.spinAxis.z)
+    : LAUNCH_DEFAULTS.spinAxis.clone()
+})
+
+/**
+ * JSON文字列に変換（不具合報告への添付用）
+ */
+export const serializeReplay = (replay: ReplayDocument): string =>
+  JSON.stringify(replay)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isVectorLike = (value: unknown): value is { x: number; y: number; z: number } => {
+  if (typeof value !== 'object' || value === null) return false
+  const vector = value as { x?: unknown; y?: unknown; z?: unknown }
+  return isFiniteNumber(vector.x) && isFiniteNumber(vector.y) && isFiniteNumber(vector.z)
+}
+
+/**
+ * 型ガード: 1発分の記録として妥当か判定
+ */
+export const isReplayShot = (value: unknown): value is ReplayShot => {
+  if (typeof value !== 'object' || value === null) return false
+  const shot = value as Partial<ReplayShot>
+  const pos = shot.launchPosition
+  return (
+    (shot.spin === undefined || isFiniteNumber(shot.spin)) &&
+    (shot.spinAxis === undefined || isVectorLike(shot.spinAxis)) &&
+    isMochiType(shot.mochiType) &&
+    isFiniteNumber(shot.angleH) &&
+    isFiniteNumber(shot.angleV) &&
+    isFiniteNumber(shot.power) &&
+    isFiniteNumber(shot.step) &&
+    isVectorLike(pos)
+  )
+}
+
+/**
+ * 型ガード: リプレイ文書として妥当か判定
+ */
+export const isReplayDocument = (value: unknown): value is ReplayDocument => {
+  if (typeof value !== 'object' || value === null) return false
+  const doc = value as Partial<ReplayDocument>
+  return (
+    doc.version === REPLAY_VERSION &&
+    isGameMode(doc.mode) &&
+    isFiniteNumber(doc.seed) &&
+    isFiniteNumber(doc.timeStep) &&
+    isPhysicsQuality(doc.physicsQuality) &&
+    (doc.daiMotion === undefined || isDaiMotionType(doc.daiMotion)) &&
+    (doc.pedestal === undefined || isPedestalType(doc.pedestal)) &&
+    (doc.controlScheme === undefined || isControlScheme(doc.controlScheme)) &&
+    (doc.assisted === undefined || typeof doc.assisted === 'boolean') &&
+    Array.isArray(doc.shots) &&
+    doc.shots.every(isReplayShot)
+  )
+}
+
+/**
+ * JSON文字列からリプレイを復元
+ * @returns 不正な形式・未対応バージョンの場合はnull
+ */
+export const parseReplay = (json: string): ReplayDocument | null => {
+  try {
+    const parsed: unknown = JSON.parse(json)
+    if (!isReplayDocument(parsed)) {
+      console.warn('Invalid or unsupported replay document')
+      return null
+    }
+    return parsed
+  } catch (e) {
+    console.warn('Failed to parse replay:', e)
+    return null
+  }
+}
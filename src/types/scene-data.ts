@@ -1,18 +1,37 @@
 import type { GameMode } from './game-mode'
+import type { ReplayDocument } from './replay'
+import type { PhysicsQuality } from './quality'
+import type { DaiMotionType } from './dai-motion'
+import type { PedestalType } from './pedestal'
+import type { ControlScheme } from './control-scheme'
 
 /**
  * IntroScene → GameScene のデータ
  */
 export type IntroToGameData = {
   mode: GameMode
+  /** 乱数シード（指定すると同じ入力で同じ結果を再現できる） */
+  seed?: number
+  /** 当たり判定の品質（未指定時は保存された設定） */
+  physicsQuality?: PhysicsQuality
+  /** 台座の動き（未指定は固定台） */
+  daiMotion?: DaiMotionType
+  /** 台座の種類（未指定はモードごとに保存された選択） */
+  pedestal?: PedestalType
+  /** 発射の操作方法（未指定は保存された設定） */
+  controlScheme?: ControlScheme
+  /** 指定するとリプレイとして再生する（mode/seedはリプレイの値を使う） */
+  replay?: ReplayDocument
 }
 
 /**
- * GameScene → ResultScene のデータ（通常モード）
+ * GameScene → ResultScene のデータ（100点満点のモード: 通常・本飾り）
  */
 export type NormalResultData = {
-  mode: 'normal'
+  mode: Exclude<GameMode, 'endless'>
   score: number // 0-100点
+  assisted?: boolean // ゲージ操作のアシストを使ったか
+  replay?: ReplayDocument // このプレイの記録
 }
 
 /**
@@ -27,6 +46,8 @@ export type EndlessResultData = {
   rawScore: number // 生スコア（累乗計算後）
   displayScore: string // 表示用フォーマット済み
   effectIntensity: number // 演出強度（0-1）
+  assisted?: boolean // ゲージ操作のアシストを使ったか
+  replay?: ReplayDocument // このプレイの記録
 }
 
 /**
@@ -40,7 +61,7 @@ export type GameToResultData = NormalResultData | EndlessResultData
 export const isNormalResultData = (
   data: GameToResultData
 ): data is NormalResultData => {
-  return data.mode === 'normal'
+  return data.mode !== 'endless'
 }
 
 /**
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { type ReplayDocument, REPLAY_VERSION, createReplayShot, serializeReplay } from './replay'
+import { SHARE_CODE_PARAM, createShareUrl, decodeShareCode, encodeShareCode } from './share-code'
+import { PEDESTAL_CONFIGS, type PedestalType } from './pedestal'
+import { DAI_MOTION_CONFIGS, type DaiMotionType } from './dai-motion'
+
+const createParams = (angleH: number, angleV: number, power: number) => ({
+  angleH,
+  angleV,
+  power,
+  launchPosition: new THREE.Vector3(0, 0, 10)
+})
+
+const createRun = (): ReplayDocument => ({
+  version: REPLAY_VERSION,
+  mode: 'normal',
+  seed: 0xdeadbeef,
+  timeStep: 1 / 60,
+  physicsQuality: 'high',
+  daiMotion: 'slide',
+  pedestal: 'ice',
+  controlScheme: 'slingshot',
+  assisted: true,
+  shots: [
+    createReplayShot('base', createParams(0.1 + 0.2, 47.123456789, 63.5), 120),
+    createReplayShot(
+      'top',
+      { ...createParams(-3.25, 50, 71), spin: 42.5, spinAxis: new THREE.Vector3(0, -1, 0) },
+      410
+    ),
+    createReplayShot(
+      'mikan',
+      { ...createParams(1, 60, 40), launchPosition: new THREE.Vector3(3, 0, 9) },
+      900
+    )
+  ]
+})
+
+describe('share codes', () => {
+  it('round-trips a run exactly', () => {
+    const doc = createRun()
+    const code = encodeShareCode(doc)
+
+    expect(code).toMatch(/^KM1-[A-Za-z0-9_-]+$/)
+    expect(decodeShareCode(code)).toEqual(doc)
+  })
+
+  it('leaves out options the run did not record', () => {
+    const doc: ReplayDocument = {
+      version: REPLAY_VERSION,
+      mode: 'endless',
+      seed: 7,
+      timeStep: 1 / 60,
+      physicsQuality: 'low',
+      shots: []
+    }
+    expect(decodeShareCode(encodeShareCode(doc))).toStrictEqual(doc)
+  })
+
+  it('is shorter than the JSON replay', () => {
+    const doc = createRun()
+    expect(encodeShareCode(doc).length).toBeLessThan(serializeReplay(doc).length / 2)
+  })
+
+  it('keeps every pedestal and dai motion', () => {
+    for (const pedestal of Object.keys(PEDESTAL_CONFIGS) as PedestalType[]) {
+      for (const daiMotion of Object.keys(DAI_MOTION_CONFIGS) as DaiMotionType[]) {
+        const doc: ReplayDocument = { ...createRun(), pedestal, daiMotion }
+        expect(decodeShareCode(encodeShareCode(doc))).toEqual(doc)
+      }
+    }
+  })
+
+  it('rejects codes from other versions', () => {
+    const code = encodeShareCode(createRun())
+    expect(decodeShareCode(code.replace(/^KM1-/, 'KM2-'))).toBeNull()
+  })
+
+  it('rejects corrupted and truncated codes', () => {
+    const code = encodeShareCode(createRun())
+    const index = code.length - 10
+    const flipped = code[index] === 'A' ? 'B' : 'A'
+
+    expect(decodeShareCode(code.slice(0, index) + flipped + code.slice(index + 1))).toBeNull()
+    expect(decodeShareCode(code.slice(0, -6))).toBeNull()
+    expect(decodeShareCode('KM1-')).toBeNull()
+    expect(decodeShareCode('not a code')).toBeNull()
+  })
+
+  it('ignores surrounding whitespace from pasting', () => {
+    const doc = createRun()
+    expect(decodeShareCode(`  ${encodeShareCode(doc)}\n`)).toEqual(doc)
+  })
+
+  it('builds a share URL that carries only the code', () => {
+    const doc = createRun()
+    const url = new URL(createShareUrl('https://example.com/game/?seed=1&assist=slow#top', doc))
+
+    expect(url.pathname).toBe('/game/')
+    expect([...url.searchParams.keys()]).toEqual([SHARE_CODE_PARAM])
+    expect(decodeShareCode(url.searchParams.get(SHARE_CODE_PARAM)!)).toEqual(doc)
+  })
+})
@@ -0,0 +1,341 @@
+import type { GameMode } from './game-mode'
+import type { PhysicsQuality } from './quality'
+import type { DaiMotionType } from './dai-motion'
+import type { PedestalType } from './pedestal'
+import type { ControlScheme } from './control-scheme'
+import { type ReplayDocument, type ReplayShot, REPLAY_VERSION, isReplayDocument } from './replay'
+
+/**
+ * シェアコード（1プレイ分のリプレイをURLに載せられる短い文字列にしたもの）
+ * 形式: `KM<バージョン>-<base64url>`。中身はリプレイを詰めたバイト列と末尾4バイトのチェックサム
+ * 数値は再生結果が変わらないようにfloat64のまま入れる
+ * 中身の並びやREPLAY_VERSIONが変わったらSHARE_CODE_VERSIONを上げる
+ */
+export const SHARE_CODE_VERSION = 1
+
+/** シェアURLでコードを渡すパラメータ名（?code=KM1-...） */
+export const SHARE_CODE_PARAM = 'code'
+
+const SHARE_CODE_PATTERN = /^KM(\d+)-([A-Za-z0-9_-]+)$/
+
+// 選択肢は番号で入れる（後から増やすときは新しい番号を振り、既存の番号は変えない）
+const MODE_CODES: Record<GameMode, number> = { normal: 0, endless: 1, decorated: 2 }
+const QUALITY_CODES: Record<PhysicsQuality, number> = { low: 0, medium: 1, high: 2 }
+const DAI_MOTION_CODES: Record<DaiMotionType, number> = {
+  static: 0,
+  turntable: 1,
+  slide: 2,
+  bob: 3
+}
+const PEDESTAL_CODES: Record<PedestalType, number> = { sanpo: 0, ice: 1, tatami: 2, post: 3 }
+const CONTROL_SCHEME_CODES: Record<ControlScheme, number> = { gauge: 0, slingshot: 1 }
+/** 省略された項目の番号 */
+const ABSENT = 0xff
+
+// 文書のフラグ
+const FLAG_ASSISTED = 1
+// 1発ごとのフラグ
+const SHOT_FLAG_SPIN = 1
+/** 発射位置が1つ前の発射と同じ（省略する） */
+const SHOT_FLAG_SAME_POSITION = 2
+
+/**
+ * 可変長のバイト列を組み立てる
+ */
+class ByteWriter {
+  private bytes: number[] = []
+  private readonly view = new DataView(new ArrayBuffer(8))
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff)
+  }
+
+  /** 0以上の整数（7ビットずつ） */
+  varint(value: number): void {
+    let rest = value
+    while (rest >= 0x80) {
+      this.byte((rest % 0x80) | 0x80)
+      rest = Math.floor(rest / 0x80)
+    }
+    this.byte(rest)
+  }
+
+  uint32(value: number): void {
+    this.view.setUint32(0, value)
+    for (let i = 0; i < 4; i++) this.byte(this.view.getUint8(i))
+  }
+
+  float64(value: number): void {
+    this.view.setFloat64(0, value)
+    for (let i = 0; i < 8; i++) this.byte(this.view.getUint8(i))
+  }
+
+  text(value: string): void {
+    const encoded = new TextEncoder().encode(value)
+    this.varint(encoded.length)
+    encoded.forEach((b) => this.byte(b))
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+/**
+ * バイト列を先頭から読む（足りなければ例外）
+ */
+class ByteReader {
+  private offset = 0
+  private readonly bytes: Uint8Array
+  private readonly view: DataView
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get isAtEnd(): boolean {
+    return this.offset === this.bytes.length
+  }
+
+  byte(): number {
+    this.require(1)
+    return this.bytes[this.offset++]
+  }
+
+  varint(): number {
+    let value = 0
+    let scale = 1
+    for (;;) {
+      const b = this.byte()
+      value += (b & 0x7f) * scale
+      if (b < 0x80) return value
+      scale *= 0x80
+      if (scale > Number.MAX_SAFE_INTEGER) throw new Error('varint too long')
+    }
+  }
+
+  uint32(): number {
+    this.require(4)
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  float64(): number {
+    this.require(8)
+    const value = this.view.getFloat64(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  text(): string {
+    const length = this.varint()
+    this.require(length)
+    const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length))
+    this.offset += length
+    return value
+  }
+
+  private require(length: number): void {
+    if (this.offset + length > this.bytes.length) throw new Error('unexpected end of code')
+  }
+}
+
+/**
+ * チェックサム（FNV-1a 32bit）
+ */
+const checksum = (bytes: Uint8Array): number => {
+  let hash = 0x811c9dc5
+  for (const b of bytes) {
+    hash = Math.imul(hash ^ b, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0))
+
+const optionalCode = <T extends string>(
+  codes: Record<T, number>,
+  value: T | undefined
+): number => (value === undefined ? ABSENT : codes[value])
+
+const readOptional = <T extends string>(
+  codes: Record<T, number>,
+  code: number
+): T | undefined => {
+  if (code === ABSENT) return undefined
+  const entry = Object.entries(codes).find(([, c]) => c === code)
+  if (!entry) throw new Error(`unknown option ${code}`)
+  return entry[0] as T
+}
+
+const readRequired = <T extends string>(codes: Record<T, number>, code: number): T => {
+  const value = readOptional(codes, code)
+  if (value === undefined) throw new Error('missing option')
+  return value
+}
+
+const isSamePosition = (a: ReplayShot['launchPosition'], b: ReplayShot['launchPosition']) =>
+  a.x === b.x && a.y === b.y && a.z === b.z
+
+/**
+ * リプレイをシェアコードにする
+ */
+export const encodeShareCode = (replay: ReplayDocument): string => {
+  const writer = new ByteWriter()
+  writer.byte(MODE_CODES[replay.mode])
+  writer.uint32(replay.seed >>> 0)
+  writer.float64(replay.timeStep)
+  writer.byte(QUALITY_CODES[replay.physicsQuality])
+  writer.byte(optionalCode(DAI_MOTION_CODES, replay.daiMotion))
+  writer.byte(optionalCode(PEDESTAL_CODES, replay.pedestal))
+  writer.byte(optionalCode(CONTROL_SCHEME_CODES, replay.controlScheme))
+  writer.byte(replay.assisted ? FLAG_ASSISTED : 0)
+
+  // 餅の種類は名前の表を先に入れ、1発ごとには表の番号を入れる
+  const types = [...new Set(replay.shots.map((shot) => shot.mochiType))]
+  writer.varint(types.length)
+  types.forEach((type) => writer.text(type))
+
+  writer.varint(replay.shots.length)
+  let previous: ReplayShot | null = null
+  for (const shot of replay.shots) {
+    const { spin, spinAxis } = shot
+    const hasSpin = spin !== undefined && spinAxis !== undefined
+    const samePosition =
+      previous !== null && isSamePosition(previous.launchPosition, shot.launchPosition)
+    writer.byte((hasSpin ? SHOT_FLAG_SPIN : 0) | (samePosition ? SHOT_FLAG_SAME_POSITION : 0))
+    writer.varint(types.indexOf(shot.mochiType))
+    writer.varint(shot.step)
+    writer.float64(shot.angleH)
+    writer.float64(shot.angleV)
+    writer.float64(shot.power)
+    if (!samePosition) {
+      writer.float64(shot.launchPosition.x)
+      writer.float64(shot.launchPosition.y)
+      writer.float64(shot.launchPosition.z)
+    }
+    if (spin !== undefined && spinAxis !== undefined) {
+      writer.float64(spin)
+      writer.float64(spinAxis.x)
+      writer.float64(spinAxis.y)
+      writer.float64(spinAxis.z)
+    }
+    previous = shot
+  }
+
+  const body = writer.toBytes()
+  const bytes = new Uint8Array(body.length + 4)
+  bytes.set(body)
+  new DataView(bytes.buffer).setUint32(body.length, checksum(body))
+  return `KM${SHARE_CODE_VERSION}-${toBase64Url(bytes)}`
+}
+
+const readReplay = (reader: ByteReader): ReplayDocument => {
+  const mode = readRequired(MODE_CODES, reader.byte())
+  const seed = reader.uint32()
+  const timeStep = reader.float64()
+  const physicsQuality = readRequired(QUALITY_CODES, reader.byte())
+  const daiMotion = readOptional(DAI_MOTION_CODES, reader.byte())
+  const pedestal = readOptional(PEDESTAL_CODES, reader.byte())
+  const controlScheme = readOptional(CONTROL_SCHEME_CODES, reader.byte())
+  const flags = reader.byte()
+
+  const types = Array.from({ length: reader.varint() }, () => reader.text())
+  const shotCount = reader.varint()
+  const shots: ReplayShot[] = []
+  for (let i = 0; i < shotCount; i++) {
+    const shotFlags = reader.byte()
+    const mochiType = types[reader.varint()]
+    if (mochiType === undefined) throw new Error('unknown mochi type')
+    const step = reader.varint()
+    const angleH = reader.float64()
+    const angleV = reader.float64()
+    const power = reader.float64()
+    const launchPosition =
+      shotFlags & SHOT_FLAG_SAME_POSITION && shots.length > 0
+        ? { ...shots[shots.length - 1].launchPosition }
+        : { x: reader.float64(), y: reader.float64(), z: reader.float64() }
+    const spin =
+      shotFlags & SHOT_FLAG_SPIN
+        ? {
+            spin: reader.float64(),
+            spinAxis: { x: reader.float64(), y: reader.float64(), z: reader.float64() }
+          }
+        : {}
+    shots.push({ mochiType, angleH, angleV, power, launchPosition, ...spin, step })
+  }
+
+  // 省略された項目はキーごと入れない（元のリプレイと同じ形にする）
+  const replay: ReplayDocument = {
+    version: REPLAY_VERSION,
+    mode,
+    seed,
+    timeStep,
+    physicsQuality,
+    ...(daiMotion !== undefined ? { daiMotion } : {}),
+    ...(pedestal !== undefined ? { pedestal } : {}),
+    ...(controlScheme !== undefined ? { controlScheme } : {}),
+    ...(flags & FLAG_ASSISTED ? { assisted: true } : {}),
+    shots
+  }
+  return replay
+}
+
+/**
+ * シェアコードからリプレイを復元する（前後の空白は無視）
+ * @returns 形式違い・未対応バージョン・チェックサム不一致・壊れた中身の場合はnull
+ */
+export const decodeShareCode = (code: string): ReplayDocument | null => {
+  const match = SHARE_CODE_PATTERN.exec(code.trim())
+  if (!match) {
+    console.warn('Not a share code')
+    return null
+  }
+  if (Number(match[1]) !== SHARE_CODE_VERSION) {
+    console.warn('Unsupported share code version:', match[1])
+    return null
+  }
+
+  try {
+    const bytes = fromBase64Url(match[2])
+    if (bytes.length < 4) throw new Error('code too short')
+    const body = bytes.subarray(0, bytes.length - 4)
+    const expected = new DataView(bytes.buffer, bytes.byteOffset).getUint32(body.length)
+    if (checksum(body) !== expected) {
+      console.warn('Share code checksum mismatch')
+      return null
+    }
+
+    const reader = new ByteReader(body)
+    const replay = readReplay(reader)
+    if (!reader.isAtEnd) throw new Error('trailing bytes')
+    if (!isReplayDocument(replay)) {
+      console.warn('Share code does not contain a valid replay')
+      return null
+    }
+    return replay
+  } catch (e) {
+    console.warn('Failed to decode share code:', e)
+    return null
+  }
+}
+
+/**
+ * ページのURLにシェアコードを付けたURL（他のパラメータは付けない）
+ */
+export const createShareUrl = (pageUrl: string, replay: ReplayDocument): string => {
+  const url = new URL(pageUrl)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set(SHARE_CODE_PARAM, encodeShareCode(replay))
+  return url.toString()
+}
@@ -0,0 +1,132 @@
+import type { MochiType } from '../objects'
+import { type GameMode, GAME_MODE_CONFIGS } from './game-mode'
+import { type PedestalSurface, getSurfaceMargin } from './pedestal'
+import type { Wind } from './wind'
+import { type ReplayShot, isReplayShot } from './replay'
+
+/**
+ * 1発の結果（着地した瞬間に決める）
+ */
+export type ShotOutcome = {
+  /** 着地した位置 */
+  readonly landing: { readonly x: number; readonly y: number; readonly z: number }
+  /** 台座の中心からの水平距離 */
+  readonly offset: number
+  /** 台座の上面より上、縁の内側に載ったか */
+  readonly onStack: boolean
+}
+
+/**
+ * 1発分の履歴（発射パラメータ・受けた風・結果）
+ */
+export type ShotRecord = {
+  readonly shot: ReplayShot
+  readonly wind: Wind
+  readonly outcome: ShotOutcome
+}
+
+/**
+ * モード・餅の種類ごとの履歴（新しい順）
+ */
+export type ShotHistory = Partial<Record<GameMode, Partial<Record<MochiType, ShotRecord[]>>>>
+
+/** モード・餅の種類ごとに残す数（古いものから捨てる） */
+export const SHOT_HISTORY_LIMIT = 20
+
+/**
+ * 着地位置から結果を決める
+ */
+export const evaluateShotOutcome = (
+  landing: { x: number; y: number; z: number },
+  surface: PedestalSurface
+): ShotOutcome => {
+  const offset = Math.hypot(landing.x - surface.x, landing.z - surface.z)
+  return {
+    landing: { x: landing.x, y: landing.y, z: landing.z },
+    offset,
+    onStack: getSurfaceMargin(surface, landing.x, landing.z) >= 0 && landing.y >= surface.y
+  }
+}
+
+/**
+ * 結果の良し悪しを比べる（載ったものが先、次に中心に近いもの）
+ * @returns aの方が良ければ負の数
+ */
+export const compareShotOutcomes = (a: ShotOutcome, b: ShotOutcome): number => {
+  if (a.onStack !== b.onStack) return a.onStack ? -1 : 1
+  return a.offset - b.offset
+}
+
+/**
+ * 履歴に1発加えた新しい履歴を返す
+ */
+export const addShotRecord = (
+  history: ShotHistory,
+  mode: GameMode,
+  record: ShotRecord
+): ShotHistory => {
+  const byType = history[mode] ?? {}
+  const type = record.shot.mochiType
+  const records = [record, ...(byType[type] ?? [])].slice(0, SHOT_HISTORY_LIMIT)
+  return { ...history, [mode]: { ...byType, [type]: records } }
+}
+
+/**
+ * 一番良かった1発（同じ結果なら新しい方）
+ * @returns まだ撃っていなければnull
+ */
+export const getBestShotRecord = (
+  history: ShotHistory,
+  mode: GameMode,
+  type: MochiType
+): ShotRecord | null => {
+  const records = history[mode]?.[type] ?? []
+  let best: ShotRecord | null = null
+  for (const record of records) {
+    if (!best || compareShotOutcomes(record.outcome, best.outcome) < 0) best = record
+  }
+  return best
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isShotRecord = (value: unknown): value is ShotRecord => {
+  if (typeof value !== 'object' || value === null) return false
+  const { shot, wind, outcome } = value as Partial<Record<keyof ShotRecord, unknown>>
+  if (!isReplayShot(shot) || typeof wind !== 'object' || wind === null) return false
+  if (typeof outcome !== 'object' || outcome === null) return false
+  const { x, z } = wind as Partial<Wind>
+  const { landing, offset, onStack } = outcome as Partial<ShotOutcome>
+  return (
+    isFiniteNumber(x) &&
+    isFiniteNumber(z) &&
+    typeof landing === 'object' &&
+    landing !== null &&
+    isFiniteNumber(landing.x) &&
+    isFiniteNumber(landing.y) &&
+    isFiniteNumber(landing.z) &&
+    isFiniteNumber(offset) &&
+    typeof onStack === 'boolean'
+  )
+}
+
+/**
+ * 保存された履歴を読み直す（壊れた記録は捨てる）
+ */
+export const sanitizeShotHistory = (value: unknown): ShotHistory => {
+  if (typeof value !== 'object' || value === null) return {}
+  let history: ShotHistory = {}
+  for (const mode of Object.keys(GAME_MODE_CONFIGS) as GameMode[]) {
+    const byType = (value as Record<string, unknown>)[mode]
+    if (typeof byType !== 'object' || byType === null) continue
+    for (const records of Object.values(byType)) {
+      if (!Array.isArray(records)) continue
+      // 新しい順に並んでいるので、後ろから加え直す
+      for (const record of [...records].reverse()) {
+        if (isShotRecord(record)) history = addShotRecord(history, mode, record)
+      }
+    }
+  }
+  return history
+}
@@ -0,0 +1,45 @@
+import type { SeededRandom } from '../systems/SeededRandom'
+
+/**
+ * 風（水平方向の加速度 m/s²）
+ * 質量に比例した力として飛行中の餅に掛けるので、軽重に関わらず同じだけ流れる
+ */
+export type Wind = {
+  readonly x: number
+  readonly z: number
+}
+
+export const CALM_WIND: Wind = { x: 0, z: 0 }
+
+/** 最大強さに対する最小の割合（無風に近い発射ばかりにならないように） */
+const MIN_STRENGTH_RATIO = 0.3
+
+/**
+ * 1発分の風を決める
+ * @param maxStrength モードごとの最大の強さ（0なら無風）
+ */
+export const rollWind = (
+  random: Pick<SeededRandom, 'range'>,
+  maxStrength: number
+): Wind => {
+  // 無風でも乱数を同じだけ進め、モード設定に関わらず以降の数列を揃える
+  const angle = random.range(0, Math.PI * 2)
+  const strength = maxStrength * random.range(MIN_STRENGTH_RATIO, 1)
+  if (maxStrength <= 0) return CALM_WIND
+  return { x: Math.cos(angle) * strength, z: Math.sin(angle) * strength }
+}
+
+export const getWindStrength = (wind: Wind): number => Math.hypot(wind.x, wind.z)
+
+/** 画面上の向き（カメラは-z方向を向いているので、奥が上） */
+const WIND_ARROWS = ['→', '↗', '↑', '↖', '←', '↙', '↓', '↘'] as const
+
+/**
+ * 風向きを8方向の矢印で表す（無風なら空文字）
+ */
+export const getWindArrow = (wind: Wind): string => {
+  if (getWindStrength(wind) < 0.05) return ''
+  const angle = Math.atan2(-wind.z, wind.x)
+  const index = Math.round(angle / (Math.PI / 4))
+  return WIND_ARROWS[(index + WIND_ARROWS.length) % WIND_ARROWS.length]
+}
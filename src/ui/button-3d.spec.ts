@@ -117,4 +117,16 @@ describe('Button3D', () => {
 
     expect(button.children.length).toBe(3)
   })
+
+  test('setText で文字のスプライトだけが差し替わる', () => {
+    const button = new Button3D({ text: 'OFF' })
+    const before = button.children[2]
+
+    button.setText('ON')
+
+    expect(button.children.length).toBe(3)
+    expect(button.children).not.toContain(before)
+    expect(button.children[2]).toBeInstanceOf(THREE.Sprite)
+    expect(button.children[2].position.z).toBe(before.position.z)
+  })
 })
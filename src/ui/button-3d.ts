@@ -24,6 +24,12 @@ type ButtonColors = {
   active: number
 }
 
+type TextStyle = {
+  fontSize: number
+  color: string
+  z: number
+}
+
 type ButtonState = {
   isHovered: boolean
   isPressed: boolean
@@ -132,7 +138,8 @@ function getColorForState(state: ButtonState, colors: ButtonColors): number {
  */
 export class Button3D extends THREE.Group {
   private readonly mesh: THREE.Mesh
-  private readonly textSprite: THREE.Sprite
+  private textSprite: THREE.Sprite
+  private readonly textStyle: TextStyle
   private readonly colors: ButtonColors
   private state: ButtonState = { isHovered: false, isPressed: false }
   public onClick?: () => void
@@ -167,17 +174,34 @@ export class Button3D extends THREE.Group {
     const edge = createButtonEdge(width, height, depth, borderColor)
     this.add(edge)
 
-    this.textSprite = createTextSprite({
+    this.textStyle = { fontSize, color: textColor, z: depth / 2 + 0.01 }
+    this.textSprite = this.createText(text)
+    this.add(this.textSprite)
+
+    this.mesh.userData.button = this
+  }
+
+  /**
+   * 表示する文字を差し替える（設定の切り替えボタン用）
+   */
+  setText(text: string): void {
+    this.remove(this.textSprite)
+    this.textSprite.material.map?.dispose()
+    this.textSprite.material.dispose()
+    this.textSprite = this.createText(text)
+    this.add(this.textSprite)
+  }
+
+  private createText(text: string): THREE.Sprite {
+    const sprite = createTextSprite({
       text,
-      fontSize,
-      color: textColor,
+      fontSize: this.textStyle.fontSize,
+      color: this.textStyle.color,
       shadowColor: 'rgba(0,0,0,0.5)',
       shadowBlur: 4
     })
-    this.textSprite.position.z = depth / 2 + 0.01
-    this.add(this.textSprite)
-
-    this.mesh.userData.button = this
+    sprite.position.z = this.textStyle.z
+    return sprite
   }
 
   setHovered(hovered: boolean): void {
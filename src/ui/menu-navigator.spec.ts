@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { MenuNavigator, findNextButton, type NavigableButton } from './menu-navigator'
+
+type FakeButton = NavigableButton & { hovered: boolean; clicks: number; disabled: boolean }
+
+const createButton = (x: number, y: number): FakeButton => {
+  const button = Object.assign(new THREE.Group(), {
+    hovered: false,
+    clicks: 0,
+    disabled: false,
+    setHovered(hovered: boolean) {
+      button.hovered = hovered
+    },
+    setPressed() {},
+    isDisabled: () => button.disabled,
+    onClick: () => {
+      button.clicks++
+    }
+  })
+  button.position.set(x, y, 0)
+  return button
+}
+
+describe('findNextButton', () => {
+  it('prefers the button straight ahead', () => {
+    const center = createButton(0, 0)
+    const below = createButton(0.3, -1)
+    const diagonal = createButton(1, -0.8)
+    expect(findNextButton(center, [center, below, diagonal], 'down')).toBe(below)
+    expect(findNextButton(center, [center, below, diagonal], 'right')).toBe(diagonal)
+    expect(findNextButton(center, [center, below, diagonal], 'up')).toBeNull()
+  })
+})
+
+describe('MenuNavigator', () => {
+  it('focuses the first button, then moves and activates', () => {
+    const top = createButton(0, 0)
+    const bottom = createButton(0, -1)
+    const navigator = new MenuNavigator(() => [top, bottom])
+
+    navigator.move('down')
+    expect(top.hovered).toBe(true)
+
+    navigator.move('down')
+    expect(top.hovered).toBe(false)
+    expect(bottom.hovered).toBe(true)
+
+    navigator.activate()
+    expect(bottom.clicks).toBe(1)
+  })
+
+  it('skips disabled buttons', () => {
+    const left = createButton(-1, 0)
+    const middle = createButton(0, 0)
+    const right = createButton(1, 0)
+    middle.disabled = true
+    const navigator = new MenuNavigator(() => [left, middle, right])
+
+    navigator.move('right')
+    navigator.move('right')
+    expect(navigator.getFocused()).toBe(right)
+  })
+
+  it('steps through the buttons in order and wraps around', () => {
+    const first = createButton(0, 0)
+    const second = createButton(0, -1)
+    const navigator = new MenuNavigator(() => [first, second])
+
+    navigator.next()
+    expect(navigator.getFocused()).toBe(first)
+    navigator.next()
+    expect(navigator.getFocused()).toBe(second)
+    navigator.next()
+    expect(navigator.getFocused()).toBe(first)
+  })
+})
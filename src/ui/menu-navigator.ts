@@ -0,0 +1,126 @@
+import * as THREE from 'three'
+
+/**
+ * 十字キーで選べるボタン（Button3D / ExtrudedButton3D）
+ */
+export type NavigableButton = THREE.Object3D & {
+  setHovered(hovered: boolean): void
+  setPressed(pressed: boolean): void
+  isDisabled?(): boolean
+  onClick?: () => void
+}
+
+export type MenuDirection = 'up' | 'down' | 'left' | 'right'
+
+const DIRECTION_VECTORS: Record<MenuDirection, THREE.Vector2> = {
+  up: new THREE.Vector2(0, 1),
+  down: new THREE.Vector2(0, -1),
+  left: new THREE.Vector2(-1, 0),
+  right: new THREE.Vector2(1, 0)
+}
+/** 横ずれをどれだけ嫌うか（大きいほどまっすぐ先のボタンを選ぶ） */
+const CROSS_AXIS_WEIGHT = 2
+/** 斜め45°より外のボタンは、範囲内に1つもないときだけ選ぶ */
+const OUTSIDE_CONE_PENALTY = 1000
+
+const getScreenPosition = (button: THREE.Object3D): THREE.Vector2 => {
+  const world = button.getWorldPosition(new THREE.Vector3())
+  return new THREE.Vector2(world.x, world.y)
+}
+
+/**
+ * 指定した向きで一番近いボタンを探す
+ * @returns その向きにボタンがなければnull
+ */
+export const findNextButton = <T extends NavigableButton>(
+  from: T,
+  buttons: readonly T[],
+  direction: MenuDirection
+): T | null => {
+  const origin = getScreenPosition(from)
+  const axis = DIRECTION_VECTORS[direction]
+  let best: T | null = null
+  let bestCost = Infinity
+
+  for (const button of buttons) {
+    if (button === from || button.isDisabled?.()) continue
+    const offset = getScreenPosition(button).sub(origin)
+    const along = offset.dot(axis)
+    if (along <= 1e-3) continue
+    const across = Math.abs(offset.x * axis.y - offset.y * axis.x)
+    const cost =
+      along + across * CROSS_AXIS_WEIGHT + (across > along ? OUTSIDE_CONE_PENALTY : 0)
+    if (cost < bestCost) {
+      bestCost = cost
+      best = button
+    }
+  }
+  return best
+}
+
+/**
+ * ゲームパッドの十字キーでのメニュー操作
+ * 選んでいるボタンはホバー表示にし、決定でonClickを呼ぶ
+ */
+export class MenuNavigator<T extends NavigableButton = NavigableButton> {
+  private readonly getButtons: () => T[]
+  private focused: T | null = null
+
+  /**
+   * @param getButtons いま操作できるボタン（表示順。最初に選ぶのは先頭）
+   */
+  constructor(getButtons: () => T[]) {
+    this.getButtons = getButtons
+  }
+
+  getFocused(): T | null {
+    return this.focused
+  }
+
+  /**
+   * 選択を動かす（まだ何も選んでいなければ先頭を選ぶ）
+   */
+  move(direction: MenuDirection): void {
+    const buttons = this.getButtons().filter((button) => !button.isDisabled?.())
+    if (!this.focused || !buttons.includes(this.focused)) {
+      this.focus(buttons[0] ?? null)
+      return
+    }
+    const next = findNextButton(this.focused, buttons, direction)
+    if (next) this.focus(next)
+  }
+
+  /**
+   * 表示順で次のボタンを選ぶ（最後の次は先頭。1スイッチの走査用）
+   */
+  next(): void {
+    const buttons = this.getButtons().filter((button) => !button.isDisabled?.())
+    const index = this.focused ? buttons.indexOf(this.focused) : -1
+    this.focus(buttons[(index + 1) % buttons.length] ?? null)
+  }
+
+  /**
+   * 選んでいるボタンを押す（何も選んでいなければ先頭を選ぶだけ）
+   */
+  activate(): void {
+    if (!this.focused || this.focused.isDisabled?.()) {
+      this.move('down')
+      return
+    }
+    this.focused.onClick?.()
+  }
+
+  /**
+   * 選択を外す（シーンを抜けるとき・マウスで操作し始めたとき）
+   */
+  clear(): void {
+    this.focus(null)
+  }
+
+  private focus(button: T | null): void {
+    if (this.focused === button) return
+    this.focused?.setHovered(false)
+    this.focused = button
+    button?.setHovered(true)
+  }
+}
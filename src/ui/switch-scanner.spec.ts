@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test'
+import * as THREE from 'three'
+import { MenuNavigator, type NavigableButton } from './menu-navigator'
+import { SWITCH_SCAN_INTERVAL, SwitchScanner, isSwitchKey } from './switch-scanner'
+
+type FakeButton = NavigableButton & { clicks: number }
+
+const createButton = (y: number): FakeButton => {
+  const button = Object.assign(new THREE.Group(), {
+    clicks: 0,
+    setHovered() {},
+    setPressed() {},
+    onClick: () => {
+      button.clicks++
+    }
+  })
+  button.position.set(0, y, 0)
+  return button
+}
+
+describe('SwitchScanner', () => {
+  it('starts scanning on the first press and cycles on a timer', () => {
+    const buttons = [createButton(0), createButton(-1), createButton(-2)]
+    const navigator = new MenuNavigator(() => buttons)
+    const scanner = new SwitchScanner(navigator)
+
+    scanner.update(SWITCH_SCAN_INTERVAL * 3)
+    expect(navigator.getFocused()).toBeNull()
+
+    scanner.press()
+    expect(scanner.isScanning()).toBe(true)
+    expect(navigator.getFocused()).toBe(buttons[0])
+
+    scanner.update(SWITCH_SCAN_INTERVAL * 0.5)
+    expect(navigator.getFocused()).toBe(buttons[0])
+    scanner.update(SWITCH_SCAN_INTERVAL * 0.5)
+    expect(navigator.getFocused()).toBe(buttons[1])
+    scanner.update(SWITCH_SCAN_INTERVAL * 2)
+    expect(navigator.getFocused()).toBe(buttons[0])
+  })
+
+  it('presses the focused button with the same switch', () => {
+    const buttons = [createButton(0), createButton(-1)]
+    const navigator = new MenuNavigator(() => buttons)
+    const scanner = new SwitchScanner(navigator)
+
+    scanner.press()
+    scanner.update(SWITCH_SCAN_INTERVAL)
+    scanner.press()
+
+    expect(buttons[1].clicks).toBe(1)
+    expect(buttons[0].clicks).toBe(0)
+  })
+
+  it('waits a full interval again after a press', () => {
+    const buttons = [createButton(0), createButton(-1)]
+    const navigator = new MenuNavigator(() => buttons)
+    const scanner = new SwitchScanner(navigator, () => 2)
+
+    scanner.press()
+    scanner.update(1.5)
+    scanner.press()
+    scanner.update(1.5)
+    expect(navigator.getFocused()).toBe(buttons[0])
+  })
+
+  it('stops when another input takes over', () => {
+    const buttons = [createButton(0), createButton(-1)]
+    const navigator = new MenuNavigator(() => buttons)
+    const scanner = new SwitchScanner(navigator)
+
+    scanner.press()
+    scanner.stop()
+    scanner.update(SWITCH_SCAN_INTERVAL * 2)
+
+    expect(scanner.isScanning()).toBe(false)
+    expect(navigator.getFocused()).toBe(buttons[0])
+  })
+})
+
+describe('isSwitchKey', () => {
+  it('only takes Space and Enter while the single switch assist is off', () => {
+    expect(isSwitchKey(' ', false)).toBe(true)
+    expect(isSwitchKey('Enter', false)).toBe(true)
+    for (const key of ['Tab', 'Escape', 'Shift', 'Control', 'a']) {
+      expect(isSwitchKey(key, false)).toBe(false)
+    }
+  })
+
+  it('takes any key as the switch while the assist is on', () => {
+    for (const key of [' ', 'Tab', 'Escape', 'Shift', 'a']) {
+      expect(isSwitchKey(key, true)).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,68 @@
+import type { MenuNavigator, NavigableButton } from './menu-navigator'
+
+/** 走査で次のボタンへ移るまでの標準の間隔（秒） */
+export const SWITCH_SCAN_INTERVAL = 1.2
+
+/**
+ * 決定・走査に使うキーか
+ * 1スイッチのアシストではどのキーも1つのスイッチとして扱い、それ以外はスペースとEnterだけ
+ */
+export const isSwitchKey = (key: string, singleSwitch: boolean): boolean =>
+  singleSwitch || key === ' ' || key === 'Enter'
+
+/**
+ * 1つのスイッチ（どのキーでも）でのメニュー操作
+ * 最初に押すと走査を始め、選択が一定間隔で表示順に巡る。もう一度押すと選んでいるボタンを押す
+ */
+export class SwitchScanner<T extends NavigableButton = NavigableButton> {
+  private readonly navigator: MenuNavigator<T>
+  private readonly getInterval: () => number
+  private scanning = false
+  private elapsed = 0
+
+  /**
+   * @param getInterval 次のボタンへ移るまでの秒数（設定に合わせて変えられるよう毎回読む）
+   */
+  constructor(
+    navigator: MenuNavigator<T>,
+    getInterval: () => number = () => SWITCH_SCAN_INTERVAL
+  ) {
+    this.navigator = navigator
+    this.getInterval = getInterval
+  }
+
+  isScanning(): boolean {
+    return this.scanning
+  }
+
+  /**
+   * スイッチが押された
+   */
+  press(): void {
+    this.elapsed = 0
+    if (!this.scanning) {
+      this.scanning = true
+      if (!this.navigator.getFocused()) this.navigator.next()
+      return
+    }
+    this.navigator.activate()
+  }
+
+  update(delta: number): void {
+    if (!this.scanning) return
+    this.elapsed += delta
+    const interval = this.getInterval()
+    while (this.elapsed >= interval) {
+      this.elapsed -= interval
+      this.navigator.next()
+    }
+  }
+
+  /**
+   * 走査をやめる（マウスや十字キーで操作し始めたとき・シーンを抜けるとき）
+   */
+  stop(): void {
+    this.scanning = false
+    this.elapsed = 0
+  }
+}